@@ -0,0 +1,26 @@
+-- Platform roles and the admin moderation console. users.role gates the
+-- /api/admin routes; every admin action on a report, piece of content or
+-- account is written to admin_audit_log
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user' CHECK(role IN ('user', 'moderator', 'admin'));
+
+-- How a resolved report was acted on: none | remove_content | deactivate_user | warn
+ALTER TABLE reports ADD COLUMN resolution TEXT;
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id TEXT PRIMARY KEY,
+  admin_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT NOT NULL,
+  report_id TEXT,
+  reason TEXT,
+  details TEXT, -- JSON
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (admin_id) REFERENCES users(id)
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+CREATE INDEX IF NOT EXISTS idx_reports_status_type ON reports(status, type, created_at);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_type, target_id);
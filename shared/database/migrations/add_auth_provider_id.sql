@@ -0,0 +1,9 @@
+-- Links users to their Supabase auth user (the JWT `sub`) so an email
+-- change in Supabase updates the account instead of creating a new one.
+-- Existing users are linked by email the next time they sign in, or
+-- in bulk via POST /api/admin/auth/link-accounts
+ALTER TABLE users ADD COLUMN auth_provider_id TEXT;
+
+-- Create indexes separately (SQLite requirement)
+-- Unique, so concurrent first requests can't provision the same user twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_auth_provider_id ON users(auth_provider_id);
@@ -0,0 +1,23 @@
+-- Requests to join private clans. Moderators approve or reject them; a
+-- request is cancelled if the user gets in some other way (e.g. an invite).
+-- Logged to clan_activity as 'join_request', 'join_request_approved' and
+-- 'join_request_rejected'
+CREATE TABLE IF NOT EXISTS clan_join_requests (
+  id TEXT PRIMARY KEY,
+  clan_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  message TEXT,
+  status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by TEXT,
+  reviewed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (clan_id) REFERENCES clans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (reviewed_by) REFERENCES users(id)
+);
+
+-- Create indexes separately (SQLite requirement)
+-- At most one pending request per user and clan
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clan_join_requests_pending
+  ON clan_join_requests(clan_id, user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_clan_join_requests_clan ON clan_join_requests(clan_id, status, created_at DESC);
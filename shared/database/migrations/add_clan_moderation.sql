@@ -0,0 +1,20 @@
+-- Clan-scoped moderation: members report clan posts and comments into
+-- their clan's queue, moderators remove/restore content, pin posts to the
+-- top of the clan feed and lock comment threads
+
+-- posts.status gains 'removed' (taken down by a moderator, restorable)
+ALTER TABLE posts ADD COLUMN is_pinned INTEGER DEFAULT 0;
+ALTER TABLE posts ADD COLUMN pinned_at DATETIME;
+ALTER TABLE posts ADD COLUMN comments_locked INTEGER DEFAULT 0;
+
+-- 'active' | 'removed'; removed comments are hidden from comment lists
+ALTER TABLE post_comments ADD COLUMN status TEXT DEFAULT 'active';
+
+-- Reports on clan content are routed to that clan's moderators
+ALTER TABLE reports ADD COLUMN clan_id TEXT;
+ALTER TABLE reports ADD COLUMN reviewed_by TEXT;
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_reports_clan_status ON reports(clan_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reports_target ON reports(type, target_id);
+CREATE INDEX IF NOT EXISTS idx_posts_clan_pinned ON posts(clan_id, is_pinned);
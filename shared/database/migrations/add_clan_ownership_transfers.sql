@@ -0,0 +1,21 @@
+-- Founder -> member ownership handovers. The founder proposes, the
+-- recipient accepts or declines; nothing changes until they accept
+CREATE TABLE IF NOT EXISTS clan_ownership_transfers (
+  id TEXT PRIMARY KEY,
+  clan_id TEXT NOT NULL,
+  from_user_id TEXT NOT NULL,
+  to_user_id TEXT NOT NULL,
+  status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  expires_at DATETIME NOT NULL,
+  responded_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (clan_id) REFERENCES clans(id) ON DELETE CASCADE,
+  FOREIGN KEY (from_user_id) REFERENCES users(id),
+  FOREIGN KEY (to_user_id) REFERENCES users(id)
+);
+
+-- Create indexes separately (SQLite requirement)
+-- At most one pending transfer per clan
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clan_ownership_transfers_pending
+  ON clan_ownership_transfers(clan_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_clans_founder ON clans(founder_id);
@@ -0,0 +1,22 @@
+-- Ledger behind clan_members.reputation / contributions. Every scoring event
+-- (posting, likes and comments received, moderator awards, removals, bans)
+-- is one row; the member columns hold the running totals, and rejoining a
+-- clan picks the totals back up from here
+CREATE TABLE IF NOT EXISTS clan_reputation_events (
+  id TEXT PRIMARY KEY,
+  clan_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  reputation_delta INTEGER NOT NULL DEFAULT 0,
+  contributions_delta INTEGER NOT NULL DEFAULT 0,
+  source_id TEXT,
+  actor_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (clan_id) REFERENCES clans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_clan_reputation_events_member ON clan_reputation_events(clan_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_clan_reputation_events_created ON clan_reputation_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_clan_members_reputation ON clan_members(clan_id, reputation DESC);
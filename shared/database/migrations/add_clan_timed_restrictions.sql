@@ -0,0 +1,21 @@
+-- Temporary clan bans (expires_at NULL = permanent) and clan mutes. Muted
+-- members keep their membership but can't post or comment in the clan.
+-- Expired rows are dropped lazily on join/post and by the hourly sweep
+ALTER TABLE clan_banned_users ADD COLUMN expires_at DATETIME;
+
+CREATE TABLE IF NOT EXISTS clan_mutes (
+  clan_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  muted_by TEXT NOT NULL,
+  reason TEXT,
+  muted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME,
+  PRIMARY KEY (clan_id, user_id),
+  FOREIGN KEY (clan_id) REFERENCES clans(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (muted_by) REFERENCES users(id)
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_clan_banned_users_expires ON clan_banned_users(expires_at);
+CREATE INDEX IF NOT EXISTS idx_clan_mutes_expires ON clan_mutes(expires_at);
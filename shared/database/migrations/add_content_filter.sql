@@ -0,0 +1,14 @@
+-- Automated text moderation for posts, flicks and comments. Terms are
+-- matched after leetspeak normalization: 'reject' blocks the content,
+-- 'hold' keeps it hidden until a moderator has reviewed it (add_content_holds.sql)
+CREATE TABLE IF NOT EXISTS content_filter_terms (
+  term TEXT PRIMARY KEY,
+  action TEXT NOT NULL CHECK(action IN ('reject', 'hold')),
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Reports filed by the filter itself are attributed to this account. It
+-- is inactive, so it can never sign in
+INSERT OR IGNORE INTO users (id, email, username, password_hash, is_active, is_verified)
+VALUES ('system', 'system@aniflixx.invalid', 'aniflixx_system', 'system', 0, 1);
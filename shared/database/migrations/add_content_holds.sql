@@ -0,0 +1,6 @@
+-- Content the filter holds stays hidden from feeds, search and comment
+-- lists until its report is resolved. posts.status and post_comments.status
+-- gain 'held'; flicks.status has a CHECK that can't take a new value and
+-- flick comments have no status, so those two get a flag instead
+ALTER TABLE flicks ADD COLUMN is_held INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE flick_comments ADD COLUMN is_held INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,15 @@
+-- Flicks a user has watched (fed by POST /api/flicks/:flickId/view). The
+-- smart feed skips anything seen within its re-show window
+CREATE TABLE IF NOT EXISTS flick_seen (
+  user_id TEXT NOT NULL,
+  flick_id TEXT NOT NULL,
+  first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  seen_count INTEGER DEFAULT 1,
+  PRIMARY KEY (user_id, flick_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (flick_id) REFERENCES flicks(id) ON DELETE CASCADE
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_flick_seen_user_recent ON flick_seen(user_id, last_seen_at);
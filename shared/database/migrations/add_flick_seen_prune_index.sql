@@ -0,0 +1,3 @@
+-- The hourly job deletes flick_seen rows by last_seen_at across all users,
+-- which idx_flick_seen_user_recent (user first) can't serve
+CREATE INDEX IF NOT EXISTS idx_flick_seen_last_seen ON flick_seen(last_seen_at);
@@ -0,0 +1,29 @@
+-- Normalized hashtag index for flicks and posts. `tag` is the canonical
+-- form (lowercase, no '#'); display_tag keeps the casing it was first used with
+CREATE TABLE IF NOT EXISTS hashtags (
+  tag TEXT PRIMARY KEY,
+  display_tag TEXT NOT NULL,
+  usage_count INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS content_hashtags (
+  tag TEXT NOT NULL,
+  content_type TEXT NOT NULL CHECK(content_type IN ('flick', 'post')),
+  content_id TEXT NOT NULL,
+  created_at DATETIME NOT NULL, -- copied from the content, for tag pages and trending windows
+  PRIMARY KEY (tag, content_type, content_id),
+  FOREIGN KEY (tag) REFERENCES hashtags(tag) ON DELETE CASCADE
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_content_hashtags_tag ON content_hashtags(tag, content_type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_hashtags_content ON content_hashtags(content_type, content_id);
+CREATE INDEX IF NOT EXISTS idx_content_hashtags_created ON content_hashtags(created_at);
+
+-- Existing flicks and posts are indexed by scripts/reindex-hashtags.ts
+-- (npm run reindex:hashtags), which normalizes tags the same way new content does
+
+-- Superseded by content_hashtags; an index on a JSON blob never helped lookups
+DROP INDEX IF EXISTS idx_flicks_hashtags;
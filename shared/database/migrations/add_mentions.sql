@@ -0,0 +1,18 @@
+-- @mentions in posts, flicks and comments. One row per mentioned user per
+-- piece of content; positions are re-derived from the text when read
+CREATE TABLE IF NOT EXISTS mentions (
+  content_type TEXT NOT NULL CHECK(content_type IN ('post', 'flick', 'post_comment', 'flick_comment')),
+  content_id TEXT NOT NULL,
+  mentioned_user_id TEXT NOT NULL,
+  mentioner_id TEXT NOT NULL,
+  username TEXT NOT NULL, -- as written in the text
+  is_active INTEGER DEFAULT 1, -- 0 once edited out; kept so re-adding doesn't notify again
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (content_type, content_id, mentioned_user_id),
+  FOREIGN KEY (mentioned_user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (mentioner_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_mentions_user ON mentions(mentioned_user_id, created_at DESC);
@@ -0,0 +1,25 @@
+-- Notification grouping: one row per (recipient, type, target) inside a time
+-- window, with the individual actors tracked separately
+ALTER TABLE notifications ADD COLUMN action_text TEXT;
+ALTER TABLE notifications ADD COLUMN actor_count INTEGER DEFAULT 1;
+ALTER TABLE notifications ADD COLUMN updated_at DATETIME;
+
+UPDATE notifications SET updated_at = created_at WHERE updated_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS notification_actors (
+  notification_id TEXT NOT NULL,
+  actor_id TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (notification_id, actor_id),
+  FOREIGN KEY (notification_id) REFERENCES notifications(id) ON DELETE CASCADE,
+  FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Existing rows become single-actor groups
+INSERT OR IGNORE INTO notification_actors (notification_id, actor_id, created_at)
+SELECT id, sender_id, created_at FROM notifications WHERE sender_id IS NOT NULL;
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_notifications_group ON notifications(recipient_id, type, target_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_updated ON notifications(recipient_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_actors_actor ON notification_actors(actor_id);
@@ -0,0 +1,20 @@
+-- Per-user, per-type notification channel preferences.
+-- Missing rows mean "everything on"
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL, -- follow, flick_like, post_like, comment, share, clan_invite, clan_role_change
+  in_app INTEGER DEFAULT 1,
+  push INTEGER DEFAULT 1,
+  email INTEGER DEFAULT 1,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, type),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Carry over push opt-outs from push_settings.disabled_types, which this replaces
+INSERT OR IGNORE INTO notification_preferences (user_id, type, in_app, push, email)
+SELECT ps.user_id, j.value, 1, 0, 1
+FROM push_settings ps, json_each(ps.disabled_types) j
+WHERE json_valid(ps.disabled_types);
+
+ALTER TABLE push_settings DROP COLUMN disabled_types;
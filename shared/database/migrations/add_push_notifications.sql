@@ -0,0 +1,19 @@
+-- Provider push tokens (APNs device token / FCM registration token).
+-- Separate from device_tokens.token, which is our own checkout token
+ALTER TABLE device_tokens ADD COLUMN push_token TEXT;
+ALTER TABLE device_tokens ADD COLUMN push_token_invalidated_at DATETIME;
+
+-- Per-user push preferences
+CREATE TABLE IF NOT EXISTS push_settings (
+  user_id TEXT PRIMARY KEY,
+  push_enabled INTEGER DEFAULT 1,
+  disabled_types TEXT DEFAULT '[]', -- JSON array of notification types
+  quiet_hours_start TEXT, -- HH:MM in the user's timezone
+  quiet_hours_end TEXT,
+  timezone TEXT DEFAULT 'UTC', -- IANA name
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_device_push ON device_tokens(user_id, is_active, push_token);
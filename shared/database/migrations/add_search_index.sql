@@ -0,0 +1,104 @@
+-- Full-text search indexes (FTS5). Each table mirrors the searchable text
+-- of its source table and is kept in sync by the triggers below. Rows are
+-- indexed regardless of status/visibility; SearchService filters those at
+-- query time so soft-deleted or private content never comes back
+CREATE VIRTUAL TABLE IF NOT EXISTS users_fts USING fts5(
+  user_id UNINDEXED,
+  username,
+  bio,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS posts_fts USING fts5(
+  post_id UNINDEXED,
+  content,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS flicks_fts USING fts5(
+  flick_id UNINDEXED,
+  title,
+  description,
+  hashtags,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS clans_fts USING fts5(
+  clan_id UNINDEXED,
+  name,
+  display_name,
+  description,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+-- Users
+CREATE TRIGGER IF NOT EXISTS users_fts_insert AFTER INSERT ON users BEGIN
+  INSERT INTO users_fts (user_id, username, bio) VALUES (new.id, new.username, new.bio);
+END;
+
+CREATE TRIGGER IF NOT EXISTS users_fts_update AFTER UPDATE OF username, bio ON users BEGIN
+  DELETE FROM users_fts WHERE user_id = old.id;
+  INSERT INTO users_fts (user_id, username, bio) VALUES (new.id, new.username, new.bio);
+END;
+
+CREATE TRIGGER IF NOT EXISTS users_fts_delete AFTER DELETE ON users BEGIN
+  DELETE FROM users_fts WHERE user_id = old.id;
+END;
+
+-- Posts
+CREATE TRIGGER IF NOT EXISTS posts_fts_insert AFTER INSERT ON posts BEGIN
+  INSERT INTO posts_fts (post_id, content) VALUES (new.id, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS posts_fts_update AFTER UPDATE OF content ON posts BEGIN
+  DELETE FROM posts_fts WHERE post_id = old.id;
+  INSERT INTO posts_fts (post_id, content) VALUES (new.id, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS posts_fts_delete AFTER DELETE ON posts BEGIN
+  DELETE FROM posts_fts WHERE post_id = old.id;
+END;
+
+-- Flicks (hashtags is a JSON array; FTS tokenizes the '#tag' strings fine)
+CREATE TRIGGER IF NOT EXISTS flicks_fts_insert AFTER INSERT ON flicks BEGIN
+  INSERT INTO flicks_fts (flick_id, title, description, hashtags)
+  VALUES (new.id, new.title, new.description, new.hashtags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS flicks_fts_update AFTER UPDATE OF title, description, hashtags ON flicks BEGIN
+  DELETE FROM flicks_fts WHERE flick_id = old.id;
+  INSERT INTO flicks_fts (flick_id, title, description, hashtags)
+  VALUES (new.id, new.title, new.description, new.hashtags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS flicks_fts_delete AFTER DELETE ON flicks BEGIN
+  DELETE FROM flicks_fts WHERE flick_id = old.id;
+END;
+
+-- Clans
+CREATE TRIGGER IF NOT EXISTS clans_fts_insert AFTER INSERT ON clans BEGIN
+  INSERT INTO clans_fts (clan_id, name, display_name, description)
+  VALUES (new.id, new.name, new.display_name, new.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS clans_fts_update AFTER UPDATE OF name, display_name, description ON clans BEGIN
+  DELETE FROM clans_fts WHERE clan_id = old.id;
+  INSERT INTO clans_fts (clan_id, name, display_name, description)
+  VALUES (new.id, new.name, new.display_name, new.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS clans_fts_delete AFTER DELETE ON clans BEGIN
+  DELETE FROM clans_fts WHERE clan_id = old.id;
+END;
+
+-- Backfill existing rows
+INSERT INTO users_fts (user_id, username, bio) SELECT id, username, bio FROM users;
+INSERT INTO posts_fts (post_id, content) SELECT id, content FROM posts;
+INSERT INTO flicks_fts (flick_id, title, description, hashtags)
+SELECT id, title, description, hashtags FROM flicks;
+INSERT INTO clans_fts (clan_id, name, display_name, description)
+SELECT id, name, display_name, description FROM clans;
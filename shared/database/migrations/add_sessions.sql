@@ -0,0 +1,25 @@
+-- Signed-in sessions, one row per Supabase auth session (the access
+-- token's session_id). Replaces the old token_hash based sessions table,
+-- which was never written to. Rows are created on a session's first
+-- request and touched as it is used and refreshed; revoked_at marks
+-- sessions the user (or an admin) signed out
+DROP TABLE IF EXISTS sessions;
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  device_id TEXT, -- device_tokens.device_id, from the X-Device-Id header
+  platform TEXT,
+  app_version TEXT,
+  user_agent TEXT,
+  ip_country TEXT,
+  ip_region TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_refreshed_at DATETIME,
+  revoked_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, revoked_at, last_seen_at);
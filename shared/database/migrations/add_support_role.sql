@@ -0,0 +1,13 @@
+-- Adds the 'support' platform role. SQLite can't alter the CHECK that
+-- add_admin_console.sql put on users.role, so the column is rebuilt without
+-- one; valid roles are enforced in the app (PLATFORM_ROLES in types.ts)
+ALTER TABLE users ADD COLUMN platform_role TEXT NOT NULL DEFAULT 'user';
+
+UPDATE users SET platform_role = role;
+
+DROP INDEX IF EXISTS idx_users_role;
+ALTER TABLE users DROP COLUMN role;
+ALTER TABLE users RENAME COLUMN platform_role TO role;
+
+-- Create indexes separately (SQLite requirement)
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
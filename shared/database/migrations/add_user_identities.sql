@@ -0,0 +1,19 @@
+-- Social sign-in identities (Google, Apple) linked to a user. The
+-- Supabase auth user holds the identity itself; this records which
+-- providers an account can sign in with and the email each one gave us
+-- (Apple may hand out a private relay address instead of the real one)
+CREATE TABLE IF NOT EXISTS user_identities (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK(provider IN ('google', 'apple')),
+  provider_user_id TEXT NOT NULL, -- the provider's sub
+  email TEXT,
+  is_private_relay INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create indexes separately (SQLite requirement)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_identities_provider ON user_identities(provider, provider_user_id);
+CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id);
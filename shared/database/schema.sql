@@ -37,6 +37,7 @@ CREATE TABLE IF NOT EXISTS posts (
   type TEXT DEFAULT 'text' CHECK(type IN ('text', 'image', 'video')),
   visibility TEXT DEFAULT 'public' CHECK(visibility IN ('public', 'followers', 'clan')),
   clan_id TEXT,
+  status TEXT DEFAULT 'active', -- 'active' | 'deleted' | 'removed' | 'held'; feeds and search only show active posts
   likes_count INTEGER DEFAULT 0,
   comments_count INTEGER DEFAULT 0,
   shares_count INTEGER DEFAULT 0,
@@ -390,7 +391,6 @@ CREATE INDEX IF NOT EXISTS idx_post_shares_user ON post_shares(user_id);
 CREATE INDEX IF NOT EXISTS idx_flicks_user_id ON flicks(user_id);
 CREATE INDEX IF NOT EXISTS idx_flicks_status ON flicks(status);
 CREATE INDEX IF NOT EXISTS idx_flicks_created_at ON flicks(created_at);
-CREATE INDEX IF NOT EXISTS idx_flicks_hashtags ON flicks(hashtags);
 
 -- Flick engagement indexes
 CREATE INDEX IF NOT EXISTS idx_flick_likes_flick_id ON flick_likes(flick_id);
@@ -0,0 +1,110 @@
+// workers/api-worker/scripts/reindex-hashtags.ts
+
+// One-off backfill for add_hashtags.sql: indexes the hashtags of every
+// active flick and post, normalized by the same code the worker uses
+// (SQLite's lower() can't do Unicode or drop trailing punctuation).
+// Safe to run again; it also corrects rows indexed another way.
+//
+//   npm run reindex:hashtags -- --local
+//   npm run reindex:hashtags -- --remote
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { extractHashtags, parseHashtag } from '../src/utils/hashtags';
+
+const DATABASE = 'aniflixx-main-db';
+const PAGE_SIZE = 500;
+
+const target = process.argv.includes('--remote') ? '--remote' : '--local';
+
+interface ContentRow {
+  id: string;
+  source: string | null;
+  created_at: string;
+}
+
+function d1(args: string[]): any {
+  const output = execFileSync('npx', ['wrangler', 'd1', 'execute', DATABASE, target, '--json', ...args], {
+    encoding: 'utf8',
+    maxBuffer: 64 * 1024 * 1024
+  });
+  return JSON.parse(output);
+}
+
+function sql(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `'${value.replace(/'/g, "''")}'`;
+}
+
+// flicks.hashtags holds a JSON array of "#tag" strings
+function parseTagList(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const tags = JSON.parse(json);
+    return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function* pages(table: 'flicks' | 'posts', column: string): Generator<ContentRow[]> {
+  let afterId = '';
+  for (;;) {
+    const [result] = d1(['--command', `
+      SELECT id, ${column} as source, created_at FROM ${table}
+      WHERE status = 'active' AND id > ${sql(afterId)}
+      ORDER BY id
+      LIMIT ${PAGE_SIZE}
+    `]);
+    const rows = result.results as ContentRow[];
+    if (rows.length > 0) yield rows;
+    if (rows.length < PAGE_SIZE) return;
+    afterId = rows[rows.length - 1].id;
+  }
+}
+
+const statements: string[] = [];
+let indexed = 0;
+
+for (const [contentType, table, column] of [['flick', 'flicks', 'hashtags'], ['post', 'posts', 'content']] as const) {
+  for (const rows of pages(table, column)) {
+    for (const row of rows) {
+      const raw = contentType === 'flick' ? parseTagList(row.source) : extractHashtags(row.source);
+      const tags = new Map<string, string>();
+      for (const tag of raw) {
+        const parsed = parseHashtag(tag);
+        if (parsed && !tags.has(parsed.tag)) tags.set(parsed.tag, parsed.display);
+      }
+
+      statements.push(
+        `DELETE FROM content_hashtags WHERE content_type = ${sql(contentType)} AND content_id = ${sql(row.id)};`
+      );
+      for (const [tag, display] of tags) {
+        statements.push(
+          `INSERT INTO hashtags (tag, display_tag, usage_count, created_at, last_used_at) ` +
+          `VALUES (${sql(tag)}, ${sql(display)}, 0, ${sql(row.created_at)}, ${sql(row.created_at)}) ` +
+          `ON CONFLICT (tag) DO UPDATE SET ` +
+          `created_at = MIN(hashtags.created_at, excluded.created_at), ` +
+          `last_used_at = MAX(hashtags.last_used_at, excluded.last_used_at);`,
+          `INSERT OR IGNORE INTO content_hashtags (tag, content_type, content_id, created_at) ` +
+          `VALUES (${sql(tag)}, ${sql(contentType)}, ${sql(row.id)}, ${sql(row.created_at)});`
+        );
+      }
+    }
+    indexed += rows.length;
+    console.log(`Read ${indexed} flicks and posts`);
+  }
+}
+
+statements.push(
+  'UPDATE hashtags SET usage_count = (SELECT COUNT(*) FROM content_hashtags ch WHERE ch.tag = hashtags.tag);',
+  // Tags nothing points at any more, e.g. ones keyed by another normalization
+  'DELETE FROM hashtags WHERE usage_count = 0;'
+);
+
+const file = join(mkdtempSync(join(tmpdir(), 'reindex-hashtags-')), 'reindex.sql');
+writeFileSync(file, statements.join('\n'));
+d1(['--file', file]);
+
+console.log(`Reindexed hashtags for ${indexed} flicks and posts`);
@@ -2,7 +2,7 @@
 
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { authMiddleware } from './middleware/auth';
+import { authMiddleware, optionalAuthMiddleware } from './middleware/auth';
 import { rateLimitMiddleware } from './middleware/rateLimit';
 import { postsRouter } from './routes/posts';
 import { usersRouter } from './routes/users';
@@ -17,6 +17,11 @@ import { clansRouter } from './routes/clans';
 import { paymentsRouter } from './routes/payments';
 import { authRouter } from './routes/auth';
 import { adsRouter } from './routes/ads';
+import { notificationsRouter } from './routes/notifications';
+import { hashtagsRouter } from './routes/hashtags';
+import { searchRouter } from './routes/search';
+import { adminRouter } from './routes/admin';
+import { scheduled } from './scheduled';
 import type { Env } from './types';
 
 type Variables = {
@@ -62,34 +67,6 @@ app.get('/', (c) => {
   });
 });
 
-// Public trending endpoints
-app.get('/api/feed/trending', async (c) => {
-  const { FeedService } = await import('./services/feed.service');
-  const feedService = new FeedService(c.env.DB, c.env.CACHE);
-  
-  const page = parseInt(c.req.query('page') || '1');
-  const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100);
-  const timeframe = c.req.query('timeframe') || '24h';
-  
-  try {
-    const result = await feedService.getTrendingFeed(timeframe, page, limit);
-    
-    return c.json({
-      success: true,
-      data: result.posts,
-      pagination: {
-        page,
-        limit,
-        total: result.total,
-        hasMore: result.hasMore
-      }
-    });
-  } catch (error) {
-    console.error('Get trending feed error:', error);
-    return c.json({ success: false, error: 'Failed to get trending feed' }, 500);
-  }
-});
-
 // Public trending flicks endpoint
 app.get('/api/flicks/trending', async (c) => {
   const { FlicksService } = await import('./services/flicks.service');
@@ -220,7 +197,6 @@ app.use('/api/*', async (c, next) => {
     '/api/auth/',
     '/api/payments/config',
     '/api/payments/stripe-webhook',
-    '/api/feed/trending',
     '/api/flicks/trending',
     '/api/clans/trending',
     '/api/clans/discover'
@@ -228,10 +204,23 @@ app.use('/api/*', async (c, next) => {
   
   const isPublicPath = publicPaths.some(path => c.req.path.startsWith(path));
   
-  if (isPublicPath) {
+  // Invite link previews, for people who aren't signed in yet. Only the GET;
+  // everything else under /api/clans needs auth
+  const isGetInvitePreview = c.req.method === 'GET' && /^\/api\/clans\/invites\/[^\/]+$/.test(c.req.path);
+  
+  if (isPublicPath || isGetInvitePreview) {
     return next();
   }
   
+  // Open to anonymous users, but a signed-in viewer's blocks and mutes apply
+  const optionalAuthPaths = [
+    '/api/feed/trending'
+  ];
+  
+  if (optionalAuthPaths.some(path => c.req.path.startsWith(path))) {
+    return optionalAuthMiddleware(c, next);
+  }
+  
   return authMiddleware(c, next);
 });
 
@@ -248,6 +237,10 @@ app.route('/api/analytics', analyticsRouter);
 app.route('/api/media', mediaRouter);
 app.route('/api/clans', clansRouter);
 app.route('/api/ads', adsRouter);
+app.route('/api/notifications', notificationsRouter);
+app.route('/api/hashtags', hashtagsRouter);
+app.route('/api/search', searchRouter);
+app.route('/api/admin', adminRouter);
 
 // Test auth endpoint
 app.get('/api/test-auth', authMiddleware, async (c) => {
@@ -492,4 +485,7 @@ export class ViewerTracker implements DurableObject {
   }
 }
 
-export default app;
\ No newline at end of file
+export default {
+  fetch: app.fetch,
+  scheduled,
+};
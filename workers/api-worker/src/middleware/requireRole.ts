@@ -0,0 +1,31 @@
+// workers/api-worker/src/middleware/requireRole.ts
+
+import type { Context, Next } from 'hono';
+import type { Env, PlatformRole } from '../types';
+
+type Variables = {
+  user?: {
+    id: string;
+    email: string;
+    username: string;
+    role?: PlatformRole;
+  };
+};
+
+// Guards staff routes by platform role (set on the user by authMiddleware,
+// which must run first). Admins pass every check
+export function requireRole(...roles: PlatformRole[]) {
+  return async (c: Context<{ Bindings: Env; Variables: Variables }>, next: Next) => {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const role = user.role || 'user';
+    if (role !== 'admin' && !roles.includes(role)) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    await next();
+  };
+}
@@ -0,0 +1,487 @@
+// workers/api-worker/src/routes/admin.ts
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { PLATFORM_ROLES, type Env, type PlatformRole } from '../types';
+import { AdminService, REPORT_TYPES, REPORT_ACTIONS, type ReportType } from '../services/admin.service';
+import { AdsService } from '../services/ads.service';
+import { createAuthUserService } from '../services/authUser.service';
+import { ContentFilterService } from '../services/contentFilter.service';
+import { createNotificationService } from '../services/notification.service';
+import { createSessionService } from '../services/session.service';
+import { requireRole } from '../middleware/requireRole';
+import { validateRequest } from '../utils/validation';
+
+type Variables = {
+  user?: {
+    id: string;
+    email: string;
+    username: string;
+    role?: PlatformRole;
+  };
+};
+
+const router = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Staff only. Moderators and support can read the report queue, only
+// moderators act on it; staff and config management is admin only
+router.use('/*', requireRole('moderator', 'support'));
+
+const REPORT_STATUSES = ['pending', 'reviewed', 'resolved', 'dismissed'];
+
+// Every staff action is logged with a reason. `message` is what
+// a warned user sees (defaults to the reason)
+const resolveReportSchema = z.object({
+  action: z.enum(REPORT_ACTIONS),
+  reason: z.string().min(1).max(500),
+  message: z.string().min(1).max(500).optional()
+});
+
+const dismissReportSchema = z.object({
+  reason: z.string().min(1).max(500)
+});
+
+const setRoleSchema = z.object({
+  role: z.enum(PLATFORM_ROLES),
+  reason: z.string().min(1).max(500)
+});
+
+const revokeSessionsSchema = z.object({
+  reason: z.string().min(1).max(500)
+});
+
+const linkAccountsSchema = z.object({
+  page: z.number().int().min(1).optional(),
+  perPage: z.number().int().min(1).max(1000).optional()
+});
+
+const adConfigSchema = z.object({
+  enabled: z.boolean(),
+  nativeAdUnitId: z.string().optional(),
+  interstitialAdUnitId: z.string().optional(),
+  frequency: z.number().int().min(1),
+  newUserGracePeriod: z.number().int().min(0),
+  maxAdsPerSession: z.number().int().min(0),
+  minTimeBetweenAds: z.number().int().min(0)
+}).partial();
+
+const filterTermSchema = z.object({
+  term: z.string().min(1).max(100),
+  action: z.enum(['reject', 'hold']),
+  reason: z.string().min(1).max(500)
+});
+
+// Maps report errors from the service to status codes
+const reportErrorStatus = (message?: string): 404 | 409 | 403 | 400 | null => {
+  if (message?.includes('not found')) return 404;
+  if (message?.includes('already')) return 409;
+  if (message?.includes('Cannot deactivate')) return 403;
+  if (message?.includes('no content to remove')) return 400;
+  return null;
+};
+
+// List reports, oldest pending first. ?type=flick&status=resolved to filter
+router.get('/reports', async (c) => {
+  try {
+    const type = c.req.query('type');
+    const status = c.req.query('status') || 'pending';
+    const page = Math.max(parseInt(c.req.query('page') || '1') || 1, 1);
+    const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 100);
+
+    if (type && !(REPORT_TYPES as readonly string[]).includes(type)) {
+      return c.json({ success: false, error: `Invalid report type: ${type}` }, 400);
+    }
+
+    if (!REPORT_STATUSES.includes(status)) {
+      return c.json({ success: false, error: `Invalid report status: ${status}` }, 400);
+    }
+
+    const admin = new AdminService(c.env.DB, c.env.CACHE);
+    const result = await admin.listReports({ type: type as ReportType | undefined, status, page, limit });
+
+    return c.json({
+      success: true,
+      data: result.reports,
+      pagination: {
+        page,
+        limit,
+        hasMore: result.hasMore
+      }
+    });
+  } catch (error) {
+    console.error('List admin reports error:', error);
+    return c.json({ success: false, error: 'Failed to fetch reports' }, 500);
+  }
+});
+
+router.get('/reports/:reportId', async (c) => {
+  try {
+    const admin = new AdminService(c.env.DB, c.env.CACHE);
+    const report = await admin.getReport(c.req.param('reportId'));
+
+    if (!report) {
+      return c.json({ success: false, error: 'Report not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Get admin report error:', error);
+    return c.json({ success: false, error: 'Failed to fetch report' }, 500);
+  }
+});
+
+// Act on a report: remove the content, deactivate or warn its author, or
+// just close it (action: none)
+router.post('/reports/:reportId/resolve', requireRole('moderator'), async (c) => {
+  try {
+    const user = c.get('user')!;
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(resolveReportSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const admin = new AdminService(
+      c.env.DB,
+      c.env.CACHE,
+      createNotificationService(c.env, c.executionCtx),
+      createSessionService(c.env)
+    );
+    await admin.resolveReport(c.req.param('reportId'), user.id, validated.data);
+
+    return c.json({
+      success: true,
+      message: 'Report resolved'
+    });
+  } catch (error: any) {
+    console.error('Resolve report error:', error);
+
+    const status = reportErrorStatus(error.message);
+    if (status) {
+      return c.json({ success: false, error: error.message }, status);
+    }
+
+    return c.json({ success: false, error: 'Failed to resolve report' }, 500);
+  }
+});
+
+router.post('/reports/:reportId/dismiss', requireRole('moderator'), async (c) => {
+  try {
+    const user = c.get('user')!;
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(dismissReportSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const admin = new AdminService(c.env.DB, c.env.CACHE);
+    await admin.dismissReport(c.req.param('reportId'), user.id, validated.data.reason);
+
+    return c.json({
+      success: true,
+      message: 'Report dismissed'
+    });
+  } catch (error: any) {
+    console.error('Dismiss report error:', error);
+
+    const status = reportErrorStatus(error.message);
+    if (status) {
+      return c.json({ success: false, error: error.message }, status);
+    }
+
+    return c.json({ success: false, error: 'Failed to dismiss report' }, 500);
+  }
+});
+
+// Audit trail, newest first. Filter by ?adminId= or ?targetType=&targetId=
+router.get('/audit-log', requireRole('admin'), async (c) => {
+  try {
+    const page = Math.max(parseInt(c.req.query('page') || '1') || 1, 1);
+    const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 100);
+
+    const admin = new AdminService(c.env.DB, c.env.CACHE);
+    const result = await admin.listAuditLog({
+      adminId: c.req.query('adminId'),
+      targetType: c.req.query('targetType'),
+      targetId: c.req.query('targetId'),
+      page,
+      limit
+    });
+
+    return c.json({
+      success: true,
+      data: result.entries,
+      pagination: {
+        page,
+        limit,
+        hasMore: result.hasMore
+      }
+    });
+  } catch (error) {
+    console.error('Get admin audit log error:', error);
+    return c.json({ success: false, error: 'Failed to fetch audit log' }, 500);
+  }
+});
+
+// Users holding a staff role
+router.get('/staff', requireRole('admin'), async (c) => {
+  try {
+    const admin = new AdminService(c.env.DB, c.env.CACHE);
+    const staff = await admin.listStaff();
+
+    return c.json({
+      success: true,
+      data: staff
+    });
+  } catch (error) {
+    console.error('List staff error:', error);
+    return c.json({ success: false, error: 'Failed to fetch staff' }, 500);
+  }
+});
+
+// Grant or revoke a platform role (role: 'user' revokes)
+router.put('/users/:userId/role', requireRole('admin'), async (c) => {
+  try {
+    const user = c.get('user')!;
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(setRoleSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const admin = new AdminService(c.env.DB, c.env.CACHE);
+    await admin.setUserRole(user.id, c.req.param('userId'), validated.data.role, validated.data.reason);
+
+    return c.json({
+      success: true,
+      message: 'Role updated'
+    });
+  } catch (error: any) {
+    console.error('Set user role error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    if (error.message?.includes('own role')) {
+      return c.json({ success: false, error: error.message }, 403);
+    }
+
+    if (error.message?.includes('already has')) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+
+    return c.json({ success: false, error: 'Failed to update role' }, 500);
+  }
+});
+
+// Sign a user out everywhere: every token issued until now is rejected
+router.post('/users/:userId/revoke-sessions', requireRole('admin'), async (c) => {
+  try {
+    const user = c.get('user')!;
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(revokeSessionsSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const admin = new AdminService(c.env.DB, c.env.CACHE, undefined, createSessionService(c.env));
+    await admin.revokeSessions(user.id, c.req.param('userId'), validated.data.reason);
+
+    return c.json({
+      success: true,
+      message: 'Sessions revoked'
+    });
+  } catch (error: any) {
+    console.error('Revoke sessions error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    return c.json({ success: false, error: 'Failed to revoke sessions' }, 500);
+  }
+});
+
+// Link existing accounts to their Supabase user ids, one page of Supabase
+// users at a time. Call again with the next page while hasMore is true
+router.post('/auth/link-accounts', requireRole('admin'), async (c) => {
+  try {
+    const user = c.get('user')!;
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(linkAccountsSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const { page = 1, perPage = 500 } = validated.data;
+    const result = await createAuthUserService(c.env).linkAccounts(page, perPage);
+
+    if (result.linked > 0) {
+      await new AdminService(c.env.DB, c.env.CACHE).logAction(user.id, {
+        action: 'accounts_linked',
+        targetType: 'auth_provider',
+        targetId: 'supabase',
+        details: { page, perPage, linked: result.linked }
+      });
+    }
+
+    return c.json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    console.error('Link accounts error:', error);
+
+    if (error.message?.includes('not configured')) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+
+    return c.json({ success: false, error: 'Failed to link accounts' }, 500);
+  }
+});
+
+// Replace the active ad configuration (fields left out keep their defaults)
+router.put('/ads/config', requireRole('admin'), async (c) => {
+  try {
+    const user = c.get('user')!;
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(adConfigSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    await new AdsService(c.env.DB, c.env.CACHE).updateAdConfig(validated.data);
+
+    await new AdminService(c.env.DB, c.env.CACHE).logAction(user.id, {
+      action: 'ad_config_updated',
+      targetType: 'ad_config',
+      targetId: 'active',
+      details: validated.data
+    });
+
+    return c.json({
+      success: true,
+      message: 'Ad configuration updated'
+    });
+  } catch (error) {
+    console.error('Update ad config error:', error);
+    return c.json({ success: false, error: 'Failed to update ad configuration' }, 500);
+  }
+});
+
+// Content filter blocklist ('reject') and watchlist ('hold')
+router.get('/content-filter/terms', async (c) => {
+  try {
+    const terms = await new ContentFilterService(c.env.DB, c.env.CACHE).listTerms();
+
+    return c.json({
+      success: true,
+      data: terms
+    });
+  } catch (error) {
+    console.error('List content filter terms error:', error);
+    return c.json({ success: false, error: 'Failed to fetch content filter terms' }, 500);
+  }
+});
+
+router.post('/content-filter/terms', requireRole('admin'), async (c) => {
+  try {
+    const user = c.get('user')!;
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(filterTermSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const term = await new ContentFilterService(c.env.DB, c.env.CACHE)
+      .addTerm(validated.data.term, validated.data.action, user.id);
+
+    await new AdminService(c.env.DB, c.env.CACHE).logAction(user.id, {
+      action: 'filter_term_added',
+      targetType: 'content_filter_term',
+      targetId: term,
+      reason: validated.data.reason,
+      details: { action: validated.data.action }
+    });
+
+    return c.json({
+      success: true,
+      data: { term, action: validated.data.action }
+    }, 201);
+  } catch (error: any) {
+    console.error('Add content filter term error:', error);
+
+    if (error.message?.includes('empty')) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+
+    return c.json({ success: false, error: 'Failed to add content filter term' }, 500);
+  }
+});
+
+router.delete('/content-filter/terms/:term', requireRole('admin'), async (c) => {
+  try {
+    const user = c.get('user')!;
+    const term = c.req.param('term');
+
+    const removed = await new ContentFilterService(c.env.DB, c.env.CACHE).removeTerm(term);
+    if (!removed) {
+      return c.json({ success: false, error: 'Term not found' }, 404);
+    }
+
+    await new AdminService(c.env.DB, c.env.CACHE).logAction(user.id, {
+      action: 'filter_term_removed',
+      targetType: 'content_filter_term',
+      targetId: term
+    });
+
+    return c.json({
+      success: true,
+      message: 'Term removed'
+    });
+  } catch (error) {
+    console.error('Remove content filter term error:', error);
+    return c.json({ success: false, error: 'Failed to remove content filter term' }, 500);
+  }
+});
+
+export { router as adminRouter };
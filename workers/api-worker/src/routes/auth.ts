@@ -1,18 +1,103 @@
 // workers/api-worker/src/routes/auth.ts
 // COMPLETE FIXED VERSION WITH PROPER TOKEN REFRESH
+// Supabase is only reached through SupabaseAuthClient; its errors come
+// back as { success: false, error, code } with the status from
+// SupabaseAuthError
 
 import { Hono } from 'hono';
-import type { Env } from '../types';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import type { Env, PlatformRole } from '../types';
 import { nanoid } from 'nanoid';
 import bcrypt from 'bcryptjs';
-
-const authRouter = new Hono<{ Bindings: Env }>();
+import { createAuthTokenService, isRecoveryToken } from '../services/authToken.service';
+import { createAuthUserService, isPrivateRelayEmail, suggestUsername } from '../services/authUser.service';
+import { createSessionService, sessionClientInfo } from '../services/session.service';
+import { createSupabaseAuthClient, SupabaseAuthError } from '../services/supabaseAuth.service';
+import { validateRequest } from '../utils/validation';
+import { authMiddleware } from '../middleware/auth';
+
+type Variables = {
+  user?: {
+    id: string;
+    email: string;
+    username: string;
+    role?: PlatformRole;
+  };
+  sessionId?: string;
+};
+
+const authRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
 
 // Helper function to get database
 function getDb(c: any) {
   return c.env.DB;
 }
 
+// Supabase failures keep their code and status, anything else is a 500
+function authErrorResponse(c: Context, error: any, fallback: string) {
+  if (error instanceof SupabaseAuthError) {
+    return c.json({ 
+      success: false, 
+      error: error.message,
+      code: error.code
+    }, error.status);
+  }
+
+  return c.json({ 
+    success: false, 
+    error: fallback 
+  }, 500);
+}
+
+const emailSchema = z.string().email().max(255).transform(email => email.toLowerCase());
+
+// Where the link in the email should send the user (must be on the
+// Supabase redirect allow list)
+const redirectSchema = z.string().url().max(500).optional();
+
+const recoverSchema = z.object({
+  email: emailSchema,
+  redirectTo: redirectSchema
+});
+
+const resendVerificationSchema = z.object({
+  email: emailSchema,
+  type: z.enum(['signup', 'email_change']).optional()
+});
+
+const magicLinkSchema = z.object({
+  email: emailSchema,
+  redirectTo: redirectSchema
+});
+
+// token_hash comes from the reset email link. Apps that already have the
+// recovery session from the link can send its access_token instead
+const resetPasswordSchema = z.object({
+  token_hash: z.string().min(1).optional(),
+  access_token: z.string().min(1).optional(),
+  password: z.string().min(8).max(72)
+}).refine(data => !!data.token_hash !== !!data.access_token, {
+  message: 'Provide either token_hash or access_token'
+});
+
+const socialProviderSchema = z.enum(['google', 'apple']);
+
+// id_token from native Google/Apple sign-in, plus the raw nonce if one
+// was used. Apple only shares the user's name on their first sign-in, so
+// the app sends it along as fullName when it has it
+const oauthSignInSchema = z.object({
+  id_token: z.string().min(1),
+  nonce: z.string().min(1).optional(),
+  fullName: z.string().min(1).max(100).optional(),
+  username: z.string().min(3).max(20).regex(/^[a-zA-Z0-9_]+$/).optional()
+});
+
+const linkIdentitySchema = z.object({
+  id_token: z.string().min(1),
+  nonce: z.string().min(1).optional()
+});
+
 // POST /api/auth/signup
 authRouter.post('/signup', async (c) => {
   try {
@@ -60,46 +145,28 @@ authRouter.post('/signup', async (c) => {
       }, 400);
     }
 
-    // Call Supabase to create auth user
-    const supabaseUrl = 'https://adgyxxbjzbhlkypxyilr.supabase.co';
-    const supabaseResponse = await fetch(`${supabaseUrl}/auth/v1/signup`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'apikey': c.env.SUPABASE_ANON_KEY
-      },
-      body: JSON.stringify({
-        email: email.toLowerCase(),
-        password: password
-      })
-    });
-
-    if (!supabaseResponse.ok) {
-      const errorData:any = await supabaseResponse.json();
-      console.error('Supabase signup error:', errorData);
-      return c.json({ 
-        success: false, 
-        error: errorData.msg || 'Failed to create account' 
-      }, 400);
-    }
-
-    const authData:any = await supabaseResponse.json();
+    // Create the Supabase auth user
+    const authData: any = await createSupabaseAuthClient(c.env).signUp(email.toLowerCase(), password, { username });
     
     // Create user in database
     const userId = nanoid();
     const passwordHash = await bcrypt.hash(password, 10);
 
+    // Without email confirmation Supabase returns a session, otherwise the user itself
+    const authUserId = authData.user?.id || authData.id;
+
     await db.prepare(`
       INSERT INTO users (
-        id, email, username, password_hash, profile_image,
+        id, email, username, password_hash, profile_image, auth_provider_id,
         is_active, is_verified, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, 1, 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ) VALUES (?, ?, ?, ?, ?, ?, 1, 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
     `).bind(
       userId,
       email.toLowerCase(),
       username,
       passwordHash,
-      `https://api.dicebear.com/7.x/adventurer/png?seed=${userId}`
+      `https://api.dicebear.com/7.x/adventurer/png?seed=${userId}`,
+      authUserId || null
     ).run();
 
     // Fetch the created user
@@ -123,10 +190,7 @@ authRouter.post('/signup', async (c) => {
 
   } catch (error: any) {
     console.error('Signup error:', error);
-    return c.json({ 
-      success: false, 
-      error: error.message || 'Failed to create account' 
-    }, 500);
+    return authErrorResponse(c, error, 'Failed to create account');
   }
 });
 
@@ -145,100 +209,33 @@ authRouter.post('/login', async (c) => {
     console.log('🔐 Signing in via backend...');
     const db = getDb(c);
 
-    // First check if user exists in database
-    const dbUser = await db.prepare(`
-      SELECT id, email, username, password_hash, profile_image, bio, 
-             is_verified, is_active, followers_count, 
-             following_count, posts_count, flicks_count,
-             created_at, stripe_customer_id
-      FROM users 
-      WHERE email = ?
-    `).bind(email.toLowerCase()).first();
-
-    // Call Supabase for authentication
-    const supabaseUrl = 'https://adgyxxbjzbhlkypxyilr.supabase.co';
-    const supabaseResponse = await fetch(`${supabaseUrl}/auth/v1/token?grant_type=password`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'apikey': c.env.SUPABASE_ANON_KEY
-      },
-      body: JSON.stringify({
-        email: email.toLowerCase(),
-        password: password
-      })
-    });
+    const authData = await createSupabaseAuthClient(c.env).signInWithPassword(email.toLowerCase(), password);
 
-    if (!supabaseResponse.ok) {
-      const errorData = await supabaseResponse.json();
-      console.error('Supabase login error:', errorData);
-      
-      // If Supabase fails but user exists in DB, try local auth
-      if (dbUser && dbUser.password_hash) {
-        const isValidPassword = await bcrypt.compare(password, dbUser.password_hash);
-        if (!isValidPassword) {
-          return c.json({ 
-            success: false, 
-            error: 'Invalid email or password' 
-          }, 401);
-        }
-        // Generate temporary tokens (this is a fallback)
-        // In production, you'd want to generate proper JWTs
-        console.warn('Using fallback authentication - Supabase unavailable');
-      } else {
-        return c.json({ 
-          success: false, 
-          error: 'Invalid email or password' 
-        }, 401);
-      }
-    }
-
-    const authData:any = await supabaseResponse.json();
-
-    // If user doesn't exist in DB, create them
-    if (!dbUser) {
-      const userId = nanoid();
-      const username = email.split('@')[0] + Date.now();
-      
-      await db.prepare(`
-        INSERT INTO users (
-          id, email, username, password_hash,
-          is_active, is_verified, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, 1, 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-      `).bind(
-        userId,
-        email.toLowerCase(),
-        username,
-        'supabase_auth'
-      ).run();
-
-      const newUser = await db.prepare(`
-        SELECT id, email, username, profile_image, bio, 
-               is_verified, followers_count, following_count, 
-               posts_count, flicks_count, created_at
-        FROM users 
-        WHERE id = ?
-      `).bind(userId).first();
-
-      console.log('✅ Login successful');
-      console.log('📦 Response includes refresh_token:', !!authData.refresh_token);
-      
-      return c.json({
-        success: true,
-        token: authData.access_token,
-        refresh_token: authData.refresh_token,
-        user: newUser
-      });
-    }
+    // Our user for the Supabase account that signed in, matched on its id
+    // (linked or created on first login)
+    const authUser = await createAuthUserService(c.env).resolve({
+      sub: authData.user.id,
+      email: authData.user.email || email,
+      user_metadata: authData.user.user_metadata
+    });
 
     // Check if user is active
-    if (!dbUser.is_active) {
+    if (!authUser.isActive) {
       return c.json({ 
         success: false, 
         error: 'Account is deactivated' 
       }, 403);
     }
 
+    const user = await db.prepare(`
+      SELECT id, email, username, profile_image, bio, 
+             is_verified, is_active, followers_count, 
+             following_count, posts_count, flicks_count,
+             created_at, stripe_customer_id
+      FROM users 
+      WHERE id = ?
+    `).bind(authUser.id).first();
+
     console.log('✅ Login successful');
     console.log('📦 Response includes refresh_token:', !!authData.refresh_token);
     
@@ -246,15 +243,12 @@ authRouter.post('/login', async (c) => {
       success: true,
       token: authData.access_token,
       refresh_token: authData.refresh_token,
-      user: dbUser
+      user
     });
 
   } catch (error: any) {
     console.error('Login error:', error);
-    return c.json({ 
-      success: false, 
-      error: error.message || 'Login failed' 
-    }, 500);
+    return authErrorResponse(c, error, 'Login failed');
   }
 });
 
@@ -273,44 +267,9 @@ authRouter.post('/refresh', async (c) => {
 
     const db = getDb(c);
 
-    // Properly call Supabase's token refresh endpoint
-    const supabaseUrl = 'https://adgyxxbjzbhlkypxyilr.supabase.co';
-    const supabaseAnonKey = c.env.SUPABASE_ANON_KEY;
-    
     console.log('🔄 Attempting to refresh token with Supabase...');
     
-    const supabaseResponse = await fetch(`${supabaseUrl}/auth/v1/token?grant_type=refresh_token`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'apikey': supabaseAnonKey
-      },
-      body: JSON.stringify({
-        refresh_token: refresh_token
-      })
-    });
-
-    if (!supabaseResponse.ok) {
-      const errorData:any = await supabaseResponse.json();
-      console.error('Supabase refresh failed:', errorData);
-      
-      // Handle specific error cases
-      if (errorData.error_code === 'invalid_grant' || 
-          errorData.msg?.includes('expired') ||
-          errorData.error === 'Invalid Refresh Token') {
-        return c.json({ 
-          success: false, 
-          error: 'Refresh token expired. Please login again.' 
-        }, 401);
-      }
-      
-      return c.json({ 
-        success: false, 
-        error: errorData.msg || errorData.error || 'Failed to refresh token' 
-      }, 401);
-    }
-
-    const supabaseData:any = await supabaseResponse.json();
+    const supabaseData: any = await createSupabaseAuthClient(c.env).refreshSession(refresh_token);
     
     // Supabase returns:
     // {
@@ -330,42 +289,46 @@ authRouter.post('/refresh', async (c) => {
       }, 500);
     }
     
-    // Extract user info from the new access token
-    let userEmail: string;
-    
-    try {
-      const parts = supabaseData.access_token.split('.');
-      if (parts.length !== 3) {
-        throw new Error('Invalid token format');
-      }
-      
-      const payload = JSON.parse(atob(parts[1]));
-      userEmail = payload.email;
-      
-      if (!userEmail) {
-        throw new Error('No email in token payload');
-      }
-    } catch (parseError) {
-      console.error('Failed to parse access token:', parseError);
+    // Matched on the Supabase user id; picks up an email changed in Supabase
+    if (!supabaseData.user?.id || !supabaseData.user?.email) {
+      console.error('No user in Supabase response:', supabaseData);
       return c.json({ 
         success: false, 
-        error: 'Invalid token format' 
+        error: 'Invalid response from auth provider' 
       }, 500);
     }
-    
-    // Get user from your database
-    const dbUser = await db.prepare(
-      `SELECT * FROM users WHERE email = ?`
-    ).bind(userEmail).first();
 
-    if (!dbUser) {
-      console.error('User not found in database:', userEmail);
-      return c.json({ 
-        success: false, 
-        error: 'User not found. Please login again.' 
-      }, 404);
+    const authUser = await createAuthUserService(c.env).resolve({
+      sub: supabaseData.user.id,
+      email: supabaseData.user.email,
+      user_metadata: supabaseData.user.user_metadata
+    });
+
+    // A revoked session doesn't get new tokens; its refresh tokens are
+    // revoked in Supabase too
+    const refreshed = await createAuthTokenService(c.env).verify(supabaseData.access_token);
+    if (refreshed.status === 'valid' && refreshed.claims.session_id) {
+      const sessions = createSessionService(c.env);
+      const allowed = await sessions.recordRefresh(
+        authUser.id,
+        refreshed.claims.session_id,
+        sessionClientInfo(c.req.raw)
+      );
+
+      if (!allowed) {
+        await sessions.signOutFromSupabase(supabaseData.access_token, 'local');
+        return c.json({ 
+          success: false, 
+          error: 'Session has been revoked. Please login again.',
+          code: 'SESSION_REVOKED'
+        }, 401);
+      }
     }
 
+    const dbUser = await db.prepare(
+      `SELECT * FROM users WHERE id = ?`
+    ).bind(authUser.id).first();
+
     // CRITICAL: Return the NEW access token, not the refresh token!
     const response = {
       success: true,
@@ -382,9 +345,480 @@ authRouter.post('/refresh', async (c) => {
 
   } catch (error: any) {
     console.error('Refresh token error:', error);
+    return authErrorResponse(c, error, 'Failed to refresh token');
+  }
+});
+
+// POST /api/auth/logout - the access token stops working right away
+// (?all=true signs out every session of the user)
+authRouter.post('/logout', async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return c.json({ 
+        success: false, 
+        error: 'Missing or invalid authorization header' 
+      }, 401);
+    }
+
+    const tokens = createAuthTokenService(c.env);
+    const verification = await tokens.verify(authHeader.substring(7));
+
+    // An expired token is already unusable
+    if (verification.status === 'expired') {
+      return c.json({ success: true, message: 'Logged out' });
+    }
+
+    if (verification.status === 'invalid') {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid authentication token',
+        code: 'INVALID_TOKEN'
+      }, 401);
+    }
+
+    const { claims } = verification;
+    const accessToken = authHeader.substring(7);
+    const sessions = createSessionService(c.env);
+
+    await tokens.revokeSession(claims);
+
+    const dbUser = await getDb(c).prepare(
+      'SELECT id FROM users WHERE auth_provider_id = ?'
+    ).bind(claims.sub).first();
+
+    if (c.req.query('all') === 'true') {
+      if (dbUser) {
+        await sessions.revokeAll(dbUser.id as string, accessToken);
+      }
+    } else {
+      if (dbUser && claims.session_id) {
+        await sessions.revoke(dbUser.id as string, claims.session_id, accessToken).catch(async () => {
+          // No row yet if the session never made a request
+          await sessions.signOutFromSupabase(accessToken, 'local');
+        });
+      } else {
+        await sessions.signOutFromSupabase(accessToken, 'local');
+      }
+    }
+
+    return c.json({ success: true, message: 'Logged out' });
+
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    return c.json({ 
+      success: false, 
+      error: 'Failed to log out' 
+    }, 500);
+  }
+});
+
+// POST /api/auth/recover - send a password reset email. The answer is
+// the same whether or not the email has an account
+authRouter.post('/recover', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(recoverSchema, body);
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input',
+        code: 'INVALID_INPUT',
+        details: validated.errors 
+      }, 400);
+    }
+
+    await createSupabaseAuthClient(c.env).recover(validated.data.email, validated.data.redirectTo);
+
+    return c.json({ 
+      success: true, 
+      message: 'If an account exists for this email, a reset link has been sent' 
+    });
+
+  } catch (error: any) {
+    console.error('Password recovery error:', error);
+    return authErrorResponse(c, error, 'Failed to send reset email');
+  }
+});
+
+// POST /api/auth/reset-password - set a new password from a reset link.
+// An access_token is only taken from a recent recovery or OTP sign-in.
+// Other sessions are signed out; a token_hash reset returns a new session
+authRouter.post('/reset-password', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(resetPasswordSchema, body);
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input',
+        code: 'INVALID_INPUT',
+        details: validated.errors 
+      }, 400);
+    }
+
+    const supabase = createSupabaseAuthClient(c.env);
+
+    const session = validated.data.token_hash
+      ? await supabase.verifyOtp(validated.data.token_hash, 'recovery')
+      : null;
+    const accessToken = session?.access_token || validated.data.access_token!;
+
+    const verification = await createAuthTokenService(c.env).verify(accessToken);
+    if (!session && (verification.status !== 'valid' || !isRecoveryToken(verification.claims))) {
+      throw new SupabaseAuthError('Reset link is invalid or has expired', 'LINK_EXPIRED', 401);
+    }
+
+    await supabase.updatePassword(accessToken, validated.data.password);
+
+    const sessions = createSessionService(c.env);
+    await sessions.signOutFromSupabase(accessToken, 'others');
+
+    if (verification.status === 'valid' && verification.claims.session_id) {
+      const authUser = await createAuthUserService(c.env).resolve(verification.claims);
+      await sessions.revokeOthers(authUser.id, verification.claims.session_id);
+    }
+
+    return c.json({ 
+      success: true, 
+      message: 'Password updated',
+      token: session?.access_token,
+      refresh_token: session?.refresh_token,
+      expires_at: session?.expires_at,
+      expires_in: session?.expires_in
+    });
+
+  } catch (error: any) {
+    console.error('Password reset error:', error);
+    return authErrorResponse(c, error, 'Failed to reset password');
+  }
+});
+
+// POST /api/auth/verify/resend - send the signup (or email change)
+// confirmation email again
+authRouter.post('/verify/resend', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(resendVerificationSchema, body);
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input',
+        code: 'INVALID_INPUT',
+        details: validated.errors 
+      }, 400);
+    }
+
+    await createSupabaseAuthClient(c.env).resendVerification(
+      validated.data.email,
+      validated.data.type || 'signup'
+    );
+
+    return c.json({ 
+      success: true, 
+      message: 'If this email is awaiting confirmation, a new link has been sent' 
+    });
+
+  } catch (error: any) {
+    console.error('Resend verification error:', error);
+    return authErrorResponse(c, error, 'Failed to resend verification email');
+  }
+});
+
+// POST /api/auth/magic-link - email a sign-in link to an existing account
+authRouter.post('/magic-link', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(magicLinkSchema, body);
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input',
+        code: 'INVALID_INPUT',
+        details: validated.errors 
+      }, 400);
+    }
+
+    try {
+      await createSupabaseAuthClient(c.env).sendMagicLink(validated.data.email, validated.data.redirectTo);
+    } catch (error) {
+      // Supabase refuses unknown emails; don't tell the caller which ones exist
+      if (!(error instanceof SupabaseAuthError && error.code === 'USER_NOT_FOUND')) {
+        throw error;
+      }
+    }
+
+    return c.json({ 
+      success: true, 
+      message: 'If an account exists for this email, a sign-in link has been sent' 
+    });
+
+  } catch (error: any) {
+    console.error('Magic link error:', error);
+    return authErrorResponse(c, error, 'Failed to send sign-in link');
+  }
+});
+
+// POST /api/auth/oauth/:provider - sign in (or up) with Google or Apple.
+// An existing account with the same email is linked; isNewUser tells the
+// app to show onboarding
+authRouter.post('/oauth/:provider', async (c) => {
+  try {
+    const provider = socialProviderSchema.safeParse(c.req.param('provider'));
+    if (!provider.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Unsupported sign-in provider',
+        code: 'UNSUPPORTED_PROVIDER'
+      }, 404);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const validated = validateRequest(oauthSignInSchema, body);
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input',
+        code: 'INVALID_INPUT',
+        details: validated.errors 
+      }, 400);
+    }
+
+    const { id_token, nonce, fullName, username } = validated.data;
+    const supabase = createSupabaseAuthClient(c.env);
+
+    const session = await supabase.signInWithIdToken(provider.data, id_token, nonce);
+    const email = session.user.email;
+
+    if (!email) {
+      return c.json({ 
+        success: false, 
+        error: 'The sign-in provider did not share an email address',
+        code: 'EMAIL_REQUIRED'
+      }, 400);
+    }
+
+    // Keep Apple's first-login name on the Supabase user, it won't be sent again
+    let metadata = session.user.user_metadata || {};
+    if (fullName && !metadata.full_name) {
+      metadata = { ...metadata, full_name: fullName };
+      await supabase.updateUserMetadata(session.access_token, { full_name: fullName })
+        .catch(error => console.error('Failed to save full name:', error));
+    }
+
+    const users = createAuthUserService(c.env);
+    const isNewUser = !(await users.hasAccount(session.user.id, email));
+
+    const authUser = await users.resolve({
+      sub: session.user.id,
+      email,
+      user_metadata: {
+        ...metadata,
+        username: username || metadata.username || suggestUsername(metadata.full_name || metadata.name, email)
+      }
+    });
+
+    if (!authUser.isActive) {
+      return c.json({ 
+        success: false, 
+        error: 'Account is deactivated' 
+      }, 403);
+    }
+
+    const identity = session.user.identities?.find(i => i.provider === provider.data);
+    if (identity) {
+      await users.recordIdentity(authUser.id, provider.data, identity);
+    }
+
+    const user = await getDb(c).prepare(`
+      SELECT id, email, username, profile_image, bio, 
+             is_verified, is_active, followers_count, 
+             following_count, posts_count, flicks_count,
+             created_at, stripe_customer_id
+      FROM users 
+      WHERE id = ?
+    `).bind(authUser.id).first();
+
+    return c.json({
+      success: true,
+      token: session.access_token,
+      refresh_token: session.refresh_token,
+      expires_at: session.expires_at,
+      expires_in: session.expires_in,
+      user: {
+        ...user,
+        displayName: metadata.full_name || metadata.name || authUser.username
+      },
+      isNewUser,
+      // Apple "Hide my email": the app can offer linking an existing account
+      privateRelayEmail: isPrivateRelayEmail(email)
+    });
+
+  } catch (error: any) {
+    console.error('OAuth sign-in error:', error);
+
+    if (error.message?.includes('linked to another account')) {
+      return c.json({ 
+        success: false, 
+        error: 'An account with this email already exists. Sign in with it and link this provider from your settings.',
+        code: 'ACCOUNT_CONFLICT'
+      }, 409);
+    }
+
+    return authErrorResponse(c, error, 'Social sign-in failed');
+  }
+});
+
+// POST /api/auth/oauth/:provider/link - add Google or Apple sign-in to the
+// signed-in account (e.g. an email/password account, or an Apple account
+// created with a private relay address)
+authRouter.post('/oauth/:provider/link', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')!;
+
+    const provider = socialProviderSchema.safeParse(c.req.param('provider'));
+    if (!provider.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Unsupported sign-in provider',
+        code: 'UNSUPPORTED_PROVIDER'
+      }, 404);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const validated = validateRequest(linkIdentitySchema, body);
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input',
+        code: 'INVALID_INPUT',
+        details: validated.errors 
+      }, 400);
+    }
+
+    const accessToken = c.req.header('Authorization')!.substring(7);
+    const session = await createSupabaseAuthClient(c.env).linkIdentityWithIdToken(
+      accessToken,
+      provider.data,
+      validated.data.id_token,
+      validated.data.nonce
+    );
+
+    const users = createAuthUserService(c.env);
+    const identity = session.user.identities?.find(i => i.provider === provider.data);
+    if (identity) {
+      await users.recordIdentity(user.id, provider.data, identity);
+    }
+
+    return c.json({ 
+      success: true, 
+      data: await users.listIdentities(user.id)
+    });
+
+  } catch (error: any) {
+    console.error('Link identity error:', error);
+    return authErrorResponse(c, error, 'Failed to link sign-in provider');
+  }
+});
+
+// GET /api/auth/identities - social sign-in providers linked to the account
+authRouter.get('/identities', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')!;
+
+    return c.json({ 
+      success: true, 
+      data: await createAuthUserService(c.env).listIdentities(user.id)
+    });
+
+  } catch (error: any) {
+    console.error('List identities error:', error);
+    return c.json({ 
+      success: false, 
+      error: 'Failed to fetch linked providers' 
+    }, 500);
+  }
+});
+
+// GET /api/auth/sessions - where the user is signed in
+authRouter.get('/sessions', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')!;
+
+    const sessions = await createSessionService(c.env).list(user.id, c.get('sessionId'));
+
+    return c.json({
+      success: true,
+      data: sessions
+    });
+
+  } catch (error: any) {
+    console.error('List sessions error:', error);
+    return c.json({ 
+      success: false, 
+      error: 'Failed to fetch sessions' 
+    }, 500);
+  }
+});
+
+// DELETE /api/auth/sessions - log out everywhere, this session included
+authRouter.delete('/sessions', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')!;
+    const accessToken = c.req.header('Authorization')!.substring(7);
+
+    await createSessionService(c.env).revokeAll(user.id, accessToken);
+
+    return c.json({ 
+      success: true, 
+      message: 'Logged out of all sessions' 
+    });
+
+  } catch (error: any) {
+    console.error('Revoke all sessions error:', error);
+    return c.json({ 
+      success: false, 
+      error: 'Failed to log out of all sessions' 
+    }, 500);
+  }
+});
+
+// DELETE /api/auth/sessions/:id - sign out one device
+authRouter.delete('/sessions/:id', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')!;
+    const sessionId = c.req.param('id');
+    const sessions = createSessionService(c.env);
+
+    // The current session signs out with its own token
+    const accessToken = sessionId === c.get('sessionId')
+      ? c.req.header('Authorization')!.substring(7)
+      : undefined;
+
+    await sessions.revoke(user.id, sessionId, accessToken);
+
+    return c.json({ 
+      success: true, 
+      message: 'Session revoked' 
+    });
+
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ 
+        success: false, 
+        error: error.message 
+      }, 404);
+    }
+
     return c.json({ 
       success: false, 
-      error: error.message || 'Failed to refresh token' 
+      error: 'Failed to revoke session' 
     }, 500);
   }
 });
@@ -6,6 +6,9 @@ import { z } from 'zod';
 import { nanoid } from 'nanoid';
 import type { Env } from '../types';
 import { ClanService } from '../services/clan.service';
+import { createNotificationService } from '../services/notification.service';
+import { ClanModerationService } from '../services/clanModeration.service';
+import { ClanReputationService } from '../services/clanReputation.service';
 import { validateRequest } from '../utils/validation';
 import { authMiddleware } from '../middleware/auth';
 
@@ -31,8 +34,11 @@ router.use('/*', async (c, next) => {
   const isGetClanDetails = path.match(/\/clans\/[^\/]+$/) && 
                            c.req.method === 'GET' && 
                            !path.includes('my-clans');
+
+  // Invite previews are shown to people who aren't signed in yet
+  const isGetInvitePreview = path.match(/\/clans\/invites\/[^\/]+$/) && c.req.method === 'GET';
   
-  if (isPublicPath || isGetClanDetails) {
+  if (isPublicPath || isGetClanDetails || isGetInvitePreview) {
     return next();
   }
   return authMiddleware(c, next);
@@ -74,17 +80,66 @@ const updateClanSchema = z.object({
     secondaryColor: z.string().optional(),
     accentColor: z.string().optional()
   }).optional(),
-  settings: z.any().optional()
+  // reputationThresholds turns on auto-promotion once a member's
+  // reputation reaches the given score
+  settings: z.object({
+    reputationThresholds: z.object({
+      moderator: z.number().int().min(1).optional(),
+      admin: z.number().int().min(1).optional()
+    }).optional()
+  }).passthrough().optional()
 });
 
 const updateMemberRoleSchema = z.object({
   role: z.enum(['admin', 'moderator', 'member'])
 });
 
+const awardPointsSchema = z.object({
+  points: z.number().int().min(1).max(100),
+  reason: z.string().min(1).max(500)
+});
+
+const joinClanSchema = z.object({
+  message: z.string().max(500).optional()
+});
+
+// Omit durationHours for a ban/mute that lasts until lifted
 const banUserSchema = z.object({
-  reason: z.string().max(500).optional()
+  reason: z.string().max(500).optional(),
+  durationHours: z.number().int().min(1).max(365 * 24).optional()
+});
+
+const reportContentSchema = z.object({
+  type: z.enum(['post', 'post_comment']),
+  targetId: z.string().min(1),
+  reason: z.string().min(1).max(100),
+  description: z.string().max(1000).optional()
+});
+
+// Every moderation action is logged with the moderator's reason
+const moderationActionSchema = z.object({
+  reason: z.string().min(1).max(500)
+});
+
+const transferOwnershipSchema = z.object({
+  userId: z.string().min(1)
+});
+
+// null means unlimited uses / never expires
+const createInviteSchema = z.object({
+  maxUses: z.number().int().min(1).max(1000).nullable().optional(),
+  expiresInHours: z.number().int().min(1).max(30 * 24).nullable().optional()
 });
 
+// Maps invite errors from the service to status codes
+const inviteErrorStatus = (message?: string): 404 | 410 | 409 | 403 | null => {
+  if (message?.includes('not found')) return 404;
+  if (message?.includes('expired') || message?.includes('usage limit')) return 410;
+  if (message?.includes('already a member')) return 409;
+  if (message?.includes('banned')) return 403;
+  return null;
+};
+
 // ============================================
 // STATIC ROUTES FIRST (no parameters)
 // ============================================
@@ -286,6 +341,62 @@ router.get('/search/query', async (c) => {
   }
 });
 
+// Preview an invite link (public)
+router.get('/invites/:code', async (c) => {
+  try {
+    const code = c.req.param('code');
+
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+    const preview = await clanService.getInvitePreview(code);
+
+    return c.json({
+      success: true,
+      data: preview
+    });
+  } catch (error: any) {
+    const status = inviteErrorStatus(error.message);
+    if (status) {
+      return c.json({ success: false, error: error.message }, status);
+    }
+
+    console.error('Get invite preview error:', error);
+    return c.json({ success: false, error: 'Failed to fetch invite' }, 500);
+  }
+});
+
+// Join a clan with an invite code
+router.post('/join/:code', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const code = c.req.param('code');
+    const clanService = new ClanService(
+      c.env.DB,
+      c.env.CACHE,
+      createNotificationService(c.env, c.executionCtx)
+    );
+
+    const result = await clanService.redeemInvite(code, user.id);
+
+    return c.json({
+      success: true,
+      data: result,
+      message: 'Successfully joined clan'
+    });
+  } catch (error: any) {
+    const status = inviteErrorStatus(error.message);
+    if (status) {
+      return c.json({ success: false, error: error.message }, status);
+    }
+
+    console.error('Redeem invite error:', error);
+    return c.json({ success: false, error: 'Failed to join clan' }, 500);
+  }
+});
+
 // ============================================
 // DYNAMIC ROUTES WITH PARAMETERS (MUST BE LAST)
 // ============================================
@@ -391,18 +502,39 @@ router.post('/:id/join', async (c) => {
     }
     
     const clanId = c.req.param('id');
-    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+    const body = await c.req.json().catch(() => ({}));
     
-    await clanService.joinClan(clanId, user.id);
+    const validated = validateRequest(joinClanSchema, body);
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input', 
+        details: validated.errors 
+      }, 400);
+    }
+    
+    const clanService = new ClanService(
+      c.env.DB,
+      c.env.CACHE,
+      createNotificationService(c.env, c.executionCtx)
+    );
     
+    const result = await clanService.joinClan(clanId, user.id, validated.data.message);
+    
+    // Private clans answer with a pending join request instead
     return c.json({
       success: true,
-      message: 'Successfully joined clan'
-    });
+      data: result,
+      message: result.status === 'joined' ? 'Successfully joined clan' : 'Join request sent'
+    }, result.status === 'joined' ? 200 : 202);
   } catch (error: any) {
     console.error('Join clan error:', error);
     
-    if (error.message?.includes('already a member')) {
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    
+    if (error.message?.includes('already a member') || error.message?.includes('already pending')) {
       return c.json({ success: false, error: error.message }, 409);
     }
     
@@ -470,6 +602,32 @@ router.get('/:id/members', async (c) => {
   }
 });
 
+// Members ranked by reputation (or ?sortBy=contributions)
+router.get('/:id/leaderboard', async (c) => {
+  try {
+    const clanId = c.req.param('id');
+    const sortBy = c.req.query('sortBy') === 'contributions' ? 'contributions' : 'reputation';
+    const page = Math.max(parseInt(c.req.query('page') || '1') || 1, 1);
+    const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 100);
+
+    const reputation = new ClanReputationService(c.env.DB, c.env.CACHE);
+    const result = await reputation.getLeaderboard(clanId, { sortBy, page, limit });
+
+    return c.json({
+      success: true,
+      data: result.members,
+      pagination: {
+        page,
+        limit,
+        hasMore: result.hasMore
+      }
+    });
+  } catch (error) {
+    console.error('Get clan leaderboard error:', error);
+    return c.json({ success: false, error: 'Failed to fetch clan leaderboard' }, 500);
+  }
+});
+
 // Update member role
 router.put('/:id/members/:userId', async (c) => {
   try {
@@ -540,6 +698,56 @@ router.delete('/:id/members/:userId', async (c) => {
   }
 });
 
+// Award reputation to a member for something worth recognising
+router.post('/:id/members/:userId/award', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const targetUserId = c.req.param('userId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(awardPointsSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const reputation = new ClanReputationService(c.env.DB, c.env.CACHE, clanService);
+    await reputation.awardPoints(clanId, user.id, targetUserId, validated.data.points, validated.data.reason);
+
+    return c.json({
+      success: true,
+      message: 'Points awarded'
+    });
+  } catch (error: any) {
+    console.error('Award clan points error:', error);
+
+    if (error.message?.includes('not a member')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    if (error.message?.includes('yourself')) {
+      return c.json({ success: false, error: error.message }, 403);
+    }
+
+    return c.json({ success: false, error: 'Failed to award points' }, 500);
+  }
+});
+
 // Ban user from clan
 router.post('/:id/ban', async (c) => {
   try {
@@ -555,7 +763,14 @@ router.post('/:id/ban', async (c) => {
       return c.json({ success: false, error: 'User ID required' }, 400);
     }
     
-    const validated = validateRequest(banUserSchema, { reason: body.reason });
+    const validated = validateRequest(banUserSchema, { reason: body.reason, durationHours: body.durationHours });
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input', 
+        details: validated.errors 
+      }, 400);
+    }
     
     const clanService = new ClanService(c.env.DB, c.env.CACHE);
     
@@ -564,8 +779,8 @@ router.post('/:id/ban', async (c) => {
       return c.json({ success: false, error: 'Insufficient permissions' }, 403);
     }
     
-    const reason = validated.success ? validated.data.reason : undefined;
-    await clanService.banUser(clanId, body.userId, user.id, reason);
+    await clanService.banUser(clanId, body.userId, user.id, validated.data.reason, validated.data.durationHours);
+    await new ClanReputationService(c.env.DB, c.env.CACHE, clanService).applyBanPenalty(clanId, body.userId, user.id);
     
     return c.json({
       success: true,
@@ -616,50 +831,752 @@ router.post('/:id/unban', async (c) => {
   }
 });
 
-// Get banned users
-router.get('/:id/banned', async (c) => {
+// Report a clan post or comment to the clan's moderators (members only)
+router.post('/:id/reports', async (c) => {
   try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
     const clanId = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(reportContentSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const moderation = new ClanModerationService(c.env.DB, c.env.CACHE);
+    const reportId = await moderation.reportContent(clanId, user.id, validated.data);
+
+    return c.json({
+      success: true,
+      data: { id: reportId },
+      message: 'Report submitted'
+    }, 201);
+  } catch (error: any) {
+    console.error('Report clan content error:', error);
+
+    if (error.message?.includes('Only clan members')) {
+      return c.json({ success: false, error: error.message }, 403);
+    }
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    if (error.message?.includes('already reported')) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+
+    return c.json({ success: false, error: 'Failed to submit report' }, 500);
+  }
+});
+
+// Moderation queue
+router.get('/:id/reports', async (c) => {
+  try {
     const user = c.get('user');
-    
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const status = c.req.query('status') || 'pending';
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 100);
+
+    if (!['pending', 'reviewed', 'resolved', 'dismissed'].includes(status)) {
+      return c.json({ success: false, error: 'Invalid status' }, 400);
+    }
+
     const clanService = new ClanService(c.env.DB, c.env.CACHE);
-    
-    // Check if user has permission to view banned list
-    if (user) {
-      const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
-      if (!hasPermission) {
-        return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const moderation = new ClanModerationService(c.env.DB, c.env.CACHE, clanService);
+    const result = await moderation.listReports(clanId, { status, page, limit });
+
+    return c.json({
+      success: true,
+      data: result.reports,
+      pagination: {
+        page,
+        limit,
+        hasMore: result.hasMore
       }
+    });
+  } catch (error) {
+    console.error('List clan reports error:', error);
+    return c.json({ success: false, error: 'Failed to fetch reports' }, 500);
+  }
+});
+
+// Dismiss a report without acting on the content
+router.post('/:id/reports/:reportId/dismiss', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
     }
-    
-    // Get banned users from database
-    const db = c.env.DB;
-    const bannedUsers = await db.prepare(`
-      SELECT 
-        bu.user_id,
-        bu.reason,
-        bu.banned_at,
-        bu.banned_by,
-        u.username,
-        u.profile_image,
-        banner.username as banned_by_username
-      FROM clan_banned_users bu
-      JOIN users u ON bu.user_id = u.id
-      JOIN users banner ON bu.banned_by = banner.id
-      WHERE bu.clan_id = ?
-      ORDER BY bu.banned_at DESC
-    `).bind(clanId).all();
-    
-    return c.json({
-      success: true,
-      data: bannedUsers.results.map(user => ({
-        uid: user.user_id,
-        username: user.username,
-        profileImage: user.profile_image,
-        reason: user.reason,
-        bannedAt: user.banned_at,
-        bannedBy: user.banned_by,
-        bannedByUsername: user.banned_by_username
+
+    const clanId = c.req.param('id');
+    const reportId = c.req.param('reportId');
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(moderationActionSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const moderation = new ClanModerationService(c.env.DB, c.env.CACHE, clanService);
+    await moderation.dismissReport(clanId, reportId, user.id, validated.data.reason);
+
+    return c.json({
+      success: true,
+      message: 'Report dismissed'
+    });
+  } catch (error: any) {
+    console.error('Dismiss clan report error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    return c.json({ success: false, error: 'Failed to dismiss report' }, 500);
+  }
+});
+
+// Remove or restore a clan post or comment
+router.post('/:id/:contentType{posts|comments}/:targetId/:action{remove|restore}', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const type = c.req.param('contentType') === 'posts' ? 'post' : 'post_comment';
+    const targetId = c.req.param('targetId');
+    const action = c.req.param('action');
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(moderationActionSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const moderation = new ClanModerationService(c.env.DB, c.env.CACHE, clanService);
+    if (action === 'remove') {
+      await moderation.removeContent(clanId, user.id, type, targetId, validated.data.reason);
+    } else {
+      await moderation.restoreContent(clanId, user.id, type, targetId, validated.data.reason);
+    }
+
+    return c.json({
+      success: true,
+      message: action === 'remove' ? 'Content removed' : 'Content restored'
+    });
+  } catch (error: any) {
+    console.error('Moderate clan content error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    if (error.message?.includes('already removed') || error.message?.includes('not removed')) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+
+    return c.json({ success: false, error: 'Failed to moderate content' }, 500);
+  }
+});
+
+// Pin/unpin a post in the clan feed, or lock/unlock its comments
+router.post('/:id/posts/:postId/:action{pin|unpin|lock|unlock}', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const postId = c.req.param('postId');
+    const action = c.req.param('action');
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(moderationActionSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const moderation = new ClanModerationService(c.env.DB, c.env.CACHE, clanService);
+    const reason = validated.data.reason;
+
+    if (action === 'pin' || action === 'unpin') {
+      await moderation.setPinned(clanId, user.id, postId, action === 'pin', reason);
+    } else {
+      await moderation.setCommentsLocked(clanId, user.id, postId, action === 'lock', reason);
+    }
+
+    const messages: Record<string, string> = {
+      pin: 'Post pinned',
+      unpin: 'Post unpinned',
+      lock: 'Comments locked',
+      unlock: 'Comments unlocked'
+    };
+
+    return c.json({
+      success: true,
+      message: messages[action]
+    });
+  } catch (error: any) {
+    console.error('Update clan post error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    if (error.message?.includes('at most') || error.message?.includes('Only active')) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+
+    return c.json({ success: false, error: 'Failed to update post' }, 500);
+  }
+});
+
+// Offer clan ownership to another member (founder only)
+router.post('/:id/transfer', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(transferOwnershipSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const clanService = new ClanService(
+      c.env.DB,
+      c.env.CACHE,
+      createNotificationService(c.env, c.executionCtx)
+    );
+
+    const transfer = await clanService.requestOwnershipTransfer(clanId, user.id, validated.data.userId);
+
+    // Nothing changes until the recipient accepts
+    return c.json({
+      success: true,
+      data: transfer,
+      message: 'Ownership transfer requested'
+    }, 202);
+  } catch (error: any) {
+    console.error('Transfer ownership error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    if (error.message?.includes('Only the founder')) {
+      return c.json({ success: false, error: error.message }, 403);
+    }
+
+    if (error.message?.includes('not a member') || error.message?.includes('yourself')) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+
+    return c.json({ success: false, error: 'Failed to transfer ownership' }, 500);
+  }
+});
+
+// Pending ownership transfer (visible to the founder and the recipient)
+router.get('/:id/transfer', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const transfer = await clanService.getPendingOwnershipTransfer(clanId);
+    if (!transfer || (transfer.fromUserId !== user.id && transfer.toUserId !== user.id)) {
+      return c.json({ success: false, error: 'Ownership transfer not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: transfer
+    });
+  } catch (error) {
+    console.error('Get ownership transfer error:', error);
+    return c.json({ success: false, error: 'Failed to fetch ownership transfer' }, 500);
+  }
+});
+
+// Recipient accepts or declines the transfer
+router.post('/:id/transfer/:decision{accept|decline}', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const decision = c.req.param('decision');
+
+    const clanService = new ClanService(
+      c.env.DB,
+      c.env.CACHE,
+      createNotificationService(c.env, c.executionCtx)
+    );
+
+    if (decision === 'accept') {
+      await clanService.acceptOwnershipTransfer(clanId, user.id);
+    } else {
+      await clanService.closeOwnershipTransfer(clanId, user.id, 'declined');
+    }
+
+    return c.json({
+      success: true,
+      message: decision === 'accept' ? 'You are now the clan owner' : 'Ownership transfer declined'
+    });
+  } catch (error: any) {
+    console.error('Respond to ownership transfer error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    if (error.message?.includes('not a member')) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+
+    return c.json({ success: false, error: 'Failed to respond to ownership transfer' }, 500);
+  }
+});
+
+// Founder withdraws the transfer
+router.delete('/:id/transfer', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    await clanService.closeOwnershipTransfer(clanId, user.id, 'cancelled');
+
+    return c.json({
+      success: true,
+      message: 'Ownership transfer cancelled'
+    });
+  } catch (error: any) {
+    console.error('Cancel ownership transfer error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    return c.json({ success: false, error: 'Failed to cancel ownership transfer' }, 500);
+  }
+});
+
+// List join requests (private clans)
+router.get('/:id/join-requests', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const status = c.req.query('status') || 'pending';
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 100);
+
+    if (!['pending', 'approved', 'rejected', 'cancelled'].includes(status)) {
+      return c.json({ success: false, error: 'Invalid status' }, 400);
+    }
+
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const result = await clanService.listJoinRequests(clanId, { status, page, limit });
+
+    return c.json({
+      success: true,
+      data: result.requests,
+      pagination: {
+        page,
+        limit,
+        hasMore: result.hasMore
+      }
+    });
+  } catch (error) {
+    console.error('List join requests error:', error);
+    return c.json({ success: false, error: 'Failed to fetch join requests' }, 500);
+  }
+});
+
+// Approve or reject a join request
+router.post('/:id/join-requests/:requestId/:decision{approve|reject}', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const requestId = c.req.param('requestId');
+    const decision = c.req.param('decision');
+
+    const clanService = new ClanService(
+      c.env.DB,
+      c.env.CACHE,
+      createNotificationService(c.env, c.executionCtx)
+    );
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    if (decision === 'approve') {
+      await clanService.approveJoinRequest(clanId, requestId, user.id);
+    } else {
+      await clanService.rejectJoinRequest(clanId, requestId, user.id);
+    }
+
+    return c.json({
+      success: true,
+      message: decision === 'approve' ? 'Join request approved' : 'Join request rejected'
+    });
+  } catch (error: any) {
+    console.error('Review join request error:', error);
+
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    if (error.message?.includes('banned') || error.message?.includes('already a member')) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+
+    return c.json({ success: false, error: 'Failed to review join request' }, 500);
+  }
+});
+
+// Create invite link
+router.post('/:id/invites', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const body = await c.req.json().catch(() => ({}));
+
+    const validated = validateRequest(createInviteSchema, body);
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const invite = await clanService.createInvite(clanId, user.id, validated.data);
+
+    return c.json({
+      success: true,
+      data: invite
+    }, 201);
+  } catch (error) {
+    console.error('Create invite error:', error);
+    return c.json({ success: false, error: 'Failed to create invite' }, 500);
+  }
+});
+
+// List invite links
+router.get('/:id/invites', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const invites = await clanService.listInvites(clanId);
+
+    return c.json({
+      success: true,
+      data: invites
+    });
+  } catch (error) {
+    console.error('List invites error:', error);
+    return c.json({ success: false, error: 'Failed to fetch invites' }, 500);
+  }
+});
+
+// Revoke invite link
+router.delete('/:id/invites/:inviteId', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const clanId = c.req.param('id');
+    const inviteId = c.req.param('inviteId');
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    const revoked = await clanService.revokeInvite(clanId, inviteId);
+    if (!revoked) {
+      return c.json({ success: false, error: 'Invite not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Invite revoked successfully'
+    });
+  } catch (error) {
+    console.error('Revoke invite error:', error);
+    return c.json({ success: false, error: 'Failed to revoke invite' }, 500);
+  }
+});
+
+// Mute a member: they stay in the clan but can't post or comment
+router.post('/:id/mute', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const clanId = c.req.param('id');
+    const body = await c.req.json();
+    
+    if (!body.userId) {
+      return c.json({ success: false, error: 'User ID required' }, 400);
+    }
+    
+    const validated = validateRequest(banUserSchema, { reason: body.reason, durationHours: body.durationHours });
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input', 
+        details: validated.errors 
+      }, 400);
+    }
+    
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+    
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+    
+    await clanService.muteMember(clanId, body.userId, user.id, validated.data.reason, validated.data.durationHours);
+    
+    return c.json({
+      success: true,
+      message: 'Member muted successfully'
+    });
+  } catch (error: any) {
+    console.error('Mute member error:', error);
+    
+    if (error.message?.includes('Cannot mute')) {
+      return c.json({ success: false, error: error.message }, 403);
+    }
+    
+    if (error.message?.includes('not a member')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    
+    return c.json({ success: false, error: 'Failed to mute member' }, 500);
+  }
+});
+
+// Unmute a member
+router.post('/:id/unmute', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const clanId = c.req.param('id');
+    const body = await c.req.json();
+    
+    if (!body.userId) {
+      return c.json({ success: false, error: 'User ID required' }, 400);
+    }
+    
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+    
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+    
+    await clanService.unmuteMember(clanId, body.userId, user.id);
+    
+    return c.json({
+      success: true,
+      message: 'Member unmuted successfully'
+    });
+  } catch (error) {
+    console.error('Unmute member error:', error);
+    return c.json({ success: false, error: 'Failed to unmute member' }, 500);
+  }
+});
+
+// Get muted members
+router.get('/:id/muted', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const clanId = c.req.param('id');
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+    
+    const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+    if (!hasPermission) {
+      return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+    
+    const mutes = await clanService.listRestrictions('mute', clanId);
+    
+    return c.json({
+      success: true,
+      data: mutes.map(mute => ({
+        uid: mute.uid,
+        username: mute.username,
+        profileImage: mute.profileImage,
+        reason: mute.reason,
+        mutedAt: mute.issuedAt,
+        mutedBy: mute.issuedBy,
+        mutedByUsername: mute.issuedByUsername,
+        expiresAt: mute.expiresAt,
+        remainingSeconds: mute.remainingSeconds
+      }))
+    });
+  } catch (error) {
+    console.error('Get muted members error:', error);
+    return c.json({ success: false, error: 'Failed to fetch muted members' }, 500);
+  }
+});
+
+// Get banned users
+router.get('/:id/banned', async (c) => {
+  try {
+    const clanId = c.req.param('id');
+    const user = c.get('user');
+    
+    const clanService = new ClanService(c.env.DB, c.env.CACHE);
+    
+    // Check if user has permission to view banned list
+    if (user) {
+      const hasPermission = await clanService.checkUserPermission(clanId, user.id, 'moderator');
+      if (!hasPermission) {
+        return c.json({ success: false, error: 'Insufficient permissions' }, 403);
+      }
+    }
+    
+    const bans = await clanService.listRestrictions('ban', clanId);
+    
+    return c.json({
+      success: true,
+      data: bans.map(ban => ({
+        uid: ban.uid,
+        username: ban.username,
+        profileImage: ban.profileImage,
+        reason: ban.reason,
+        bannedAt: ban.issuedAt,
+        bannedBy: ban.issuedBy,
+        bannedByUsername: ban.issuedByUsername,
+        expiresAt: ban.expiresAt,
+        remainingSeconds: ban.remainingSeconds
       }))
     });
   } catch (error) {
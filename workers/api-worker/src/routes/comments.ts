@@ -3,7 +3,12 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { nanoid } from 'nanoid';
-import type { Env } from '../types';
+import type { Env, MentionEntity } from '../types';
+import { NotificationService, createNotificationService } from '../services/notification.service';
+import { BlockService, hiddenUsersFilter } from '../services/block.service';
+import { MentionService } from '../services/mention.service';
+import { createContentFilter } from '../services/contentFilter.service';
+import { contentRejectedResponse } from '../utils/response';
 
 type Variables = {
   user: {
@@ -39,6 +44,12 @@ commentsRouter.post('/', async (c) => {
       'SELECT username, profile_image FROM users WHERE id = ?'
     ).bind(user.id).first<{ username: string; profile_image: string | null }>();
 
+    const contentFilter = createContentFilter(c.env);
+    const moderation = await contentFilter.check('comment', user.id, content);
+    if (moderation.verdict === 'reject') {
+      return contentRejectedResponse(c);
+    }
+
     // Create comment
     const commentId = nanoid();
     const now = new Date().toISOString();
@@ -46,8 +57,8 @@ commentsRouter.post('/', async (c) => {
     await c.env.DB.prepare(`
       INSERT INTO flick_comments (
         id, flick_id, user_id, username, profile_image, 
-        content, parent_id, likes, is_deleted, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        content, parent_id, likes, is_deleted, is_held, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       commentId,
       flickId,
@@ -58,6 +69,7 @@ commentsRouter.post('/', async (c) => {
       parentId || null,
       0,
       0,
+      moderation.verdict === 'hold' ? 1 : 0,
       now,
       now
     ).run();
@@ -81,24 +93,27 @@ commentsRouter.post('/', async (c) => {
       'SELECT user_id, title FROM flicks WHERE id = ?'
     ).bind(flickId).first<{ user_id: string; title: string }>();
 
+    const notifications = createNotificationService(c.env, c.executionCtx);
+
     if (flick && flick.user_id !== user.id) {
       // Create notification
-      await c.env.DB.prepare(`
-        INSERT INTO notifications (
-          id, recipient_id, sender_id, type, target_type, target_id,
-          message, is_read, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).bind(
-        nanoid(),
-        flick.user_id,
-        user.id,
-        'comment',
-        'flick',
-        flickId,
-        `commented on your flick "${flick.title}"`,
-        0,
-        now
-      ).run();
+      await notifications.create({
+        recipientId: flick.user_id,
+        senderId: user.id,
+        type: 'comment',
+        targetType: 'flick',
+        targetId: flickId,
+        action: `commented on your flick "${flick.title}"`
+      });
+    }
+
+    // Held comments notify the people they mention on release (AdminService)
+    let mentions: MentionEntity[] = [];
+    if (moderation.verdict === 'hold') {
+      await contentFilter.holdForReview('comment', commentId, moderation);
+    } else {
+      mentions = await new MentionService(c.env.DB, notifications)
+        .syncMentions('flick_comment', commentId, user.id, { content });
     }
 
     return c.json({
@@ -113,6 +128,7 @@ commentsRouter.post('/', async (c) => {
         likes: 0,
         createdAt: now,
         isLiked: false,
+        mentions,
       },
     }, 201);
   } catch (error) {
@@ -138,20 +154,30 @@ commentsRouter.get('/flick/:flickId', async (c) => {
   const offset = (page - 1) * limit;
 
   try {
+    const hiddenFilter = hiddenUsersFilter('c.user_id', user.id);
+
     const commentsData = await c.env.DB.prepare(`
       SELECT 
         c.*,
         CASE WHEN cl.user_id IS NOT NULL THEN 1 ELSE 0 END as isLiked,
-        (SELECT COUNT(*) FROM flick_comments WHERE parent_id = c.id AND is_deleted = 0) as replyCount
+        (SELECT COUNT(*) FROM flick_comments WHERE parent_id = c.id AND is_deleted = 0 AND is_held = 0) as replyCount
       FROM flick_comments c
       LEFT JOIN flick_comment_likes cl ON c.id = cl.comment_id AND cl.user_id = ?
-      WHERE c.flick_id = ? AND c.is_deleted = 0 AND c.parent_id IS NULL
+      WHERE c.flick_id = ? AND c.is_deleted = 0 AND c.is_held = 0 AND c.parent_id IS NULL
+        AND ${hiddenFilter.sql}
       ORDER BY c.created_at DESC
       LIMIT ? OFFSET ?
-    `).bind(user.id, flickId, limit + 1, offset).all();
+    `).bind(user.id, flickId, ...hiddenFilter.params, limit + 1, offset).all();
 
     const hasMore = commentsData.results.length > limit;
-    const comments = commentsData.results.slice(0, limit).map((comment: any) => ({
+    const pageResults = commentsData.results.slice(0, limit);
+    const mentions = await new MentionService(c.env.DB, createNotificationService(c.env))
+      .getMentionsForMany('flick_comment', pageResults.map((comment: any) => ({
+        id: comment.id,
+        fields: { content: comment.content }
+      })));
+
+    const comments = pageResults.map((comment: any) => ({
       id: comment.id,
       userId: comment.user_id,
       username: comment.username,
@@ -160,6 +186,7 @@ commentsRouter.get('/flick/:flickId', async (c) => {
       likes: comment.likes || 0,
       isLiked: !!comment.isLiked,
       replyCount: comment.replyCount || 0,
+      mentions: mentions.get(comment.id) || [],
       createdAt: comment.created_at,
       updatedAt: comment.updated_at,
     }));
@@ -186,15 +213,24 @@ commentsRouter.get('/:commentId/replies', async (c) => {
   const commentId = c.req.param('commentId');
 
   try {
+    const hiddenFilter = hiddenUsersFilter('c.user_id', user.id);
+
     const replies = await c.env.DB.prepare(`
       SELECT 
         c.*,
         CASE WHEN cl.user_id IS NOT NULL THEN 1 ELSE 0 END as isLiked
       FROM flick_comments c
       LEFT JOIN flick_comment_likes cl ON c.id = cl.comment_id AND cl.user_id = ?
-      WHERE c.parent_id = ? AND c.is_deleted = 0
+      WHERE c.parent_id = ? AND c.is_deleted = 0 AND c.is_held = 0
+        AND ${hiddenFilter.sql}
       ORDER BY c.created_at ASC
-    `).bind(user.id, commentId).all();
+    `).bind(user.id, commentId, ...hiddenFilter.params).all();
+
+    const mentions = await new MentionService(c.env.DB, createNotificationService(c.env))
+      .getMentionsForMany('flick_comment', replies.results.map((reply: any) => ({
+        id: reply.id,
+        fields: { content: reply.content }
+      })));
 
     const processedReplies = replies.results.map((reply: any) => ({
       id: reply.id,
@@ -204,6 +240,7 @@ commentsRouter.get('/:commentId/replies', async (c) => {
       content: reply.content,
       likes: reply.likes || 0,
       isLiked: !!reply.isLiked,
+      mentions: mentions.get(reply.id) || [],
       createdAt: reply.created_at,
       updatedAt: reply.updated_at,
     }));
@@ -247,6 +284,14 @@ commentsRouter.post('/:commentId/like', async (c) => {
         },
       });
     } else {
+      const comment = await c.env.DB.prepare(
+        'SELECT user_id FROM flick_comments WHERE id = ?'
+      ).bind(commentId).first();
+
+      if (comment && await new BlockService(c.env.DB).isBlockedEitherWay(user.id, comment.user_id as string)) {
+        return c.json({ success: false, error: 'Cannot interact with this user' }, 403);
+      }
+
       // Like
       await c.env.DB.prepare(
         'INSERT INTO flick_comment_likes (id, comment_id, user_id, created_at) VALUES (?, ?, ?, ?)'
@@ -292,15 +337,31 @@ commentsRouter.patch('/:commentId', async (c) => {
       return c.json({ success: false, error: 'Unauthorized' }, 403);
     }
 
+    const contentFilter = createContentFilter(c.env);
+    const moderation = await contentFilter.check('comment', user.id, content, { excludeId: commentId });
+    if (moderation.verdict === 'reject') {
+      return contentRejectedResponse(c);
+    }
+
     // Update comment
     await c.env.DB.prepare(
       'UPDATE flick_comments SET content = ?, updated_at = ? WHERE id = ?'
     ).bind(content, new Date().toISOString(), commentId).run();
 
+    // Only users newly mentioned by the edit are notified
+    let mentions: MentionEntity[] = [];
+    if (moderation.verdict === 'hold') {
+      await contentFilter.holdForReview('comment', commentId, moderation);
+    } else {
+      mentions = await new MentionService(c.env.DB, createNotificationService(c.env, c.executionCtx))
+        .syncMentions('flick_comment', commentId, user.id, { content });
+    }
+
     return c.json({
       success: true,
       data: {
         message: 'Comment updated',
+        mentions,
       },
     });
   } catch (error) {
@@ -3,6 +3,7 @@
 import { Hono } from 'hono';
 import type { Env } from '../types';
 import { FeedService } from '../services/feed.service';
+import { decodeFeedCursor } from '../utils/feedCursor';
 
 // FIX: Define the Variables type
 type Variables = {
@@ -19,23 +20,26 @@ const router = new Hono<{ Bindings: Env; Variables: Variables }>();
 router.get('/home', async (c) => {
   try {
     const user = c.get('user');
-    const page = parseInt(c.req.query('page') || '1');
+    const cursor = c.req.query('cursor');
+    if (cursor && !decodeFeedCursor(cursor)) {
+      return c.json({ success: false, error: 'Invalid cursor', data: [] }, 400);
+    }
+    
     const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100);
     
     const feedService = new FeedService(c.env.DB, c.env.CACHE);
     
     // Both logged-in and anonymous users see all public posts
     // This is how X works - everyone sees everything
-    const result = await feedService.getPublicFeed(user?.id, page, limit);
+    const result = await feedService.getPublicFeed(user?.id, { cursor, limit });
     
     return c.json({
       success: true,
       data: result.posts,
       pagination: {
-        page,
         limit,
-        total: result.total,
-        hasMore: result.hasMore
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor
       }
     });
     
@@ -62,20 +66,23 @@ router.get('/following', async (c) => {
       }, 401);
     }
     
-    const page = parseInt(c.req.query('page') || '1');
+    const cursor = c.req.query('cursor');
+    if (cursor && !decodeFeedCursor(cursor)) {
+      return c.json({ success: false, error: 'Invalid cursor', data: [] }, 400);
+    }
+    
     const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100);
     
     const feedService = new FeedService(c.env.DB, c.env.CACHE);
-    const result = await feedService.getFollowingFeed(user.id, page, limit);
+    const result = await feedService.getFollowingFeed(user.id, { cursor, limit });
     
     return c.json({
       success: true,
       data: result.posts,
       pagination: {
-        page,
         limit,
-        total: result.total,
-        hasMore: result.hasMore
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor
       }
     });
     
@@ -92,21 +99,24 @@ router.get('/following', async (c) => {
 // Get trending feed
 router.get('/trending', async (c) => {
   try {
-    const page = parseInt(c.req.query('page') || '1');
+    const cursor = c.req.query('cursor');
+    if (cursor && !decodeFeedCursor(cursor)) {
+      return c.json({ success: false, error: 'Invalid cursor', data: [] }, 400);
+    }
+    
     const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100);
     const timeframe = c.req.query('timeframe') || '24h';
     
     const feedService = new FeedService(c.env.DB, c.env.CACHE);
-    const result = await feedService.getTrendingFeed(timeframe, page, limit);
+    const result = await feedService.getTrendingFeed(timeframe, { cursor, limit }, c.get('user')?.id);
     
     return c.json({
       success: true,
       data: result.posts,  // FIX: Always use 'data' field
       pagination: {
-        page,
         limit,
-        total: result.total,
-        hasMore: result.hasMore
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor
       }
     });
     
@@ -124,20 +134,23 @@ router.get('/trending', async (c) => {
 router.get('/discover', async (c) => {
   try {
     const user = c.get('user');
-    const page = parseInt(c.req.query('page') || '1');
+    const cursor = c.req.query('cursor');
+    if (cursor && !decodeFeedCursor(cursor)) {
+      return c.json({ success: false, error: 'Invalid cursor', data: [] }, 400);
+    }
+    
     const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100);
     
     const feedService = new FeedService(c.env.DB, c.env.CACHE);
-    const result = await feedService.getDiscoverFeed(user?.id, page, limit);
+    const result = await feedService.getDiscoverFeed(user?.id, { cursor, limit });
     
     return c.json({
       success: true,
       data: result.posts,  // FIX: Always use 'data' field
       pagination: {
-        page,
         limit,
-        total: result.total,
-        hasMore: result.hasMore
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor
       }
     });
     
@@ -156,7 +169,11 @@ router.get('/clan/:clanId', async (c) => {
   try {
     const clanId = c.req.param('clanId');
     const user = c.get('user');
-    const page = parseInt(c.req.query('page') || '1');
+    const cursor = c.req.query('cursor');
+    if (cursor && !decodeFeedCursor(cursor)) {
+      return c.json({ success: false, error: 'Invalid cursor', data: [] }, 400);
+    }
+    
     const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100);
     
     // Check if clan exists and is accessible
@@ -172,8 +189,8 @@ router.get('/clan/:clanId', async (c) => {
       }, 404);
     }
     
-    // If clan is private, check membership
-    if (clan.is_private && user) {
+    // Clan posts (visibility 'clan') are for members only, public clan or not
+    if (user) {
       const membership = await c.env.DB.prepare(
         'SELECT 1 FROM clan_members WHERE clan_id = ? AND user_id = ?'
       ).bind(clanId, user.id).first();
@@ -185,25 +202,26 @@ router.get('/clan/:clanId', async (c) => {
           data: []  // FIX: Include empty data array
         }, 403);
       }
-    } else if (clan.is_private && !user) {
+    } else {
       return c.json({ 
         success: false, 
-        error: 'Authentication required to view private clan',
+        error: clan.is_private
+          ? 'Authentication required to view private clan'
+          : 'Authentication required to view clan posts',
         data: []  // FIX: Include empty data array
       }, 401);
     }
     
     const feedService = new FeedService(c.env.DB, c.env.CACHE);
-    const result = await feedService.getClanFeed(clanId, page, limit);
+    const result = await feedService.getClanFeed(clanId, { cursor, limit }, user?.id);
     
     return c.json({
       success: true,
       data: result.posts,  // FIX: Always use 'data' field
       pagination: {
-        page,
         limit,
-        total: result.total,
-        hasMore: result.hasMore
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor
       }
     });
     
@@ -6,6 +6,10 @@ import { nanoid } from 'nanoid';
 import type { Env } from '../types';
 import { FlicksService } from '../services/flicks.service';
 import { AnalyticsService } from '../services/analytics.service';
+import { createNotificationService } from '../services/notification.service';
+import { createContentFilter, flickFilterText } from '../services/contentFilter.service';
+import { decodeFeedCursor } from '../utils/feedCursor';
+import { contentRejectedResponse } from '../utils/response';
 
 type Variables = {
   user: {
@@ -32,8 +36,8 @@ const registerFlickSchema = z.object({
 });
 
 // Initialize services
-const getServices = (env: Env) => ({
-  flicks: new FlicksService(env.DB, env.CACHE, env.CLOUDFLARE_ACCOUNT_ID, env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_STREAM_CUSTOMER_CODE),
+const getServices = (env: Env, ctx?: ExecutionContext) => ({
+  flicks: new FlicksService(env.DB, env.CACHE, env.CLOUDFLARE_ACCOUNT_ID, env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_STREAM_CUSTOMER_CODE, createNotificationService(env, ctx)),
   analytics: new AnalyticsService(env.DB, env.VIEWER_TRACKER),
 });
 
@@ -68,20 +72,32 @@ flicksRouter.post('/upload-url', async (c) => {
 // Register flick after upload
 flicksRouter.post('/register', async (c) => {
   const user = c.get('user');
-  const services = getServices(c.env);
+  const services = getServices(c.env, c.executionCtx);
 
   try {
     const body = await c.req.json();
     const data :any= registerFlickSchema.parse(body);
 
+    const contentFilter = createContentFilter(c.env);
+    const moderation = await contentFilter.check('flick', user.id, flickFilterText(data.title, data.description));
+    if (moderation.verdict === 'reject') {
+      return contentRejectedResponse(c);
+    }
+
     // In flicks.ts route handler, update line 73-77:
 const flick = await services.flicks.registerFlick(user.id, {
   videoId: data.video_id,
   title: data.title,
   description: data.description,
   hashtags: data.hashtags,
-  skipProcessingWait: data.skip_processing_wait
+  skipProcessingWait: data.skip_processing_wait,
+  held: moderation.verdict === 'hold'
 });
+
+    if (moderation.verdict === 'hold') {
+      await contentFilter.holdForReview('flick', flick.id, moderation);
+    }
+
     return c.json({
       success: true,
       data: {
@@ -197,20 +213,28 @@ flicksRouter.get('/', async (c) => {
   const user = c.get('user');
   const services = getServices(c.env);
   
-  const page = parseInt(c.req.query('page') || '1');
+  const cursor = c.req.query('cursor');
   const limit = Math.min(parseInt(c.req.query('limit') || '20'), 50);
 
+  if (cursor && !decodeFeedCursor(cursor)) {
+    return c.json({ success: false, error: 'Invalid cursor' }, 400);
+  }
+
   try {
-    const result = await services.flicks.getFeed(user.id, page, limit);
+    const reshowAfterHours = parseInt(c.env.SMART_FEED_RESHOW_HOURS || '');
+    const result = await services.flicks.getFeed(user.id, {
+      cursor,
+      limit,
+      reshowAfterHours: isNaN(reshowAfterHours) ? undefined : reshowAfterHours,
+    });
 
     return c.json({
       success: true,
       data: result.flicks,
       pagination: {
-        page,
         limit,
-        total: result.total,
         hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
       },
     });
   } catch (error) {
@@ -274,7 +298,7 @@ flicksRouter.get('/:flickId', async (c) => {
 flicksRouter.post('/:flickId/like', async (c) => {
   const user = c.get('user');
   const flickId = c.req.param('flickId');
-  const services = getServices(c.env);
+  const services = getServices(c.env, c.executionCtx);
 
   try {
     const result = await services.flicks.toggleLike(flickId, user.id);
@@ -295,7 +319,10 @@ flicksRouter.post('/:flickId/like', async (c) => {
         message: result.liked ? 'Flick liked' : 'Flick unliked',
       },
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message?.includes('Cannot interact')) {
+      return c.json({ success: false, error: error.message }, 403);
+    }
     console.error('Error liking flick:', error);
     return c.json({ success: false, error: 'Failed to like flick' }, 500);
   }
@@ -337,6 +364,7 @@ flicksRouter.post('/:flickId/view', async (c) => {
       duration: duration || 0,
       watchTime: watchTime || 0,
     });
+    await services.flicks.markSeen(user.id, flickId);
 
     return c.json({ success: true });
   } catch (error) {
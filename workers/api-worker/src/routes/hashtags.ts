@@ -0,0 +1,106 @@
+// workers/api-worker/src/routes/hashtags.ts
+
+import { Hono } from 'hono';
+import type { Env } from '../types';
+import { HashtagService } from '../services/hashtag.service';
+import { FlicksService } from '../services/flicks.service';
+import { normalizeHashtag } from '../utils/hashtags';
+
+type Variables = {
+  user?: {
+    id: string;
+    email: string;
+    username: string;
+  };
+};
+
+const router = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Trending hashtags across flicks and posts
+router.get('/trending', async (c) => {
+  try {
+    const period = c.req.query('period') || '7d';
+    const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 50);
+
+    const hashtagService = new HashtagService(c.env.DB);
+    const trending = await hashtagService.getTrending(period, limit);
+
+    return c.json({
+      success: true,
+      data: {
+        trending,
+        period
+      }
+    });
+  } catch (error) {
+    console.error('Get trending hashtags error:', error);
+    return c.json({ success: false, error: 'Failed to load trending hashtags' }, 500);
+  }
+});
+
+// Hashtag page: flicks and public posts carrying the tag, newest first.
+// ?type=flicks|posts narrows it to one list; both lists share page/limit
+router.get('/:tag', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const rawTag = c.req.param('tag');
+    if (!normalizeHashtag(rawTag)) {
+      return c.json({ success: false, error: 'Invalid hashtag' }, 400);
+    }
+
+    const type = c.req.query('type') || 'all';
+    if (!['all', 'flicks', 'posts'].includes(type)) {
+      return c.json({ success: false, error: 'Invalid type' }, 400);
+    }
+
+    const page = Math.max(parseInt(c.req.query('page') || '1') || 1, 1);
+    const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 100);
+
+    const hashtagService = new HashtagService(c.env.DB);
+    const hashtag = await hashtagService.getHashtag(rawTag);
+
+    if (!hashtag) {
+      return c.json({ success: false, error: 'Hashtag not found' }, 404);
+    }
+
+    const flicksService = new FlicksService(
+      c.env.DB,
+      c.env.CACHE,
+      c.env.CLOUDFLARE_ACCOUNT_ID,
+      c.env.CLOUDFLARE_API_TOKEN,
+      c.env.CLOUDFLARE_STREAM_CUSTOMER_CODE
+    );
+
+    const [flicks, posts] = await Promise.all([
+      type !== 'posts'
+        ? flicksService.getFlicksByHashtag(rawTag, user.id, page, limit)
+        : { flicks: [], hasMore: false },
+      type !== 'flicks'
+        ? hashtagService.getPosts(rawTag, user.id, page, limit)
+        : { posts: [], hasMore: false }
+    ]);
+
+    return c.json({
+      success: true,
+      data: {
+        hashtag,
+        flicks: flicks.flicks,
+        posts: posts.posts
+      },
+      pagination: {
+        page,
+        limit,
+        hasMore: flicks.hasMore || posts.hasMore
+      }
+    });
+  } catch (error) {
+    console.error('Get hashtag error:', error);
+    return c.json({ success: false, error: 'Failed to load hashtag' }, 500);
+  }
+});
+
+export { router as hashtagsRouter };
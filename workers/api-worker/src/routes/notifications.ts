@@ -0,0 +1,226 @@
+// workers/api-worker/src/routes/notifications.ts
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { Env } from '../types';
+import { NotificationService } from '../services/notification.service';
+import { PushService } from '../services/push.service';
+import { createPushTransports } from '../services/push.transport';
+import { decodeCursor } from '../utils/cursor';
+import { validateRequest } from '../utils/validation';
+
+type Variables = {
+  user?: {
+    id: string;
+    email: string;
+    username: string;
+  };
+};
+
+const router = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const pushSettingsSchema = z.object({
+  pushEnabled: z.boolean().optional(),
+  quietHoursStart: timeOfDaySchema.nullable().optional(),
+  quietHoursEnd: timeOfDaySchema.nullable().optional(),
+  timezone: z.string().refine(tz => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: tz });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Unknown timezone').optional()
+});
+
+// Split a comma-separated query param (e.g. ?type=like,comment) into values
+function parseListParam(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  const items = value.split(',').map(v => v.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+// List notifications (newest first, cursor paginated)
+router.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const cursor = c.req.query('cursor');
+    if (cursor && !decodeCursor(cursor)) {
+      return c.json({ success: false, error: 'Invalid cursor' }, 400);
+    }
+
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '20') || 20, 1), 50);
+    const notificationService = new NotificationService(c.env.DB, c.env.CACHE);
+
+    const result = await notificationService.listNotifications(user.id, {
+      cursor,
+      limit,
+      types: parseListParam(c.req.query('type')),
+      targetTypes: parseListParam(c.req.query('target_type')),
+      unreadOnly: c.req.query('unread') === 'true'
+    });
+
+    return c.json({
+      success: true,
+      data: result.notifications,
+      pagination: {
+        limit,
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return c.json({ success: false, error: 'Failed to fetch notifications' }, 500);
+  }
+});
+
+// Unread count (total and per type, for tab badges)
+router.get('/unread-count', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const notificationService = new NotificationService(c.env.DB, c.env.CACHE);
+    const counts = await notificationService.getUnreadCount(user.id);
+
+    return c.json({
+      success: true,
+      data: counts
+    });
+  } catch (error) {
+    console.error('Get unread count error:', error);
+    return c.json({ success: false, error: 'Failed to fetch unread count' }, 500);
+  }
+});
+
+// Mark all as read (optionally scoped with ?type= / ?target_type=)
+router.post('/read-all', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const notificationService = new NotificationService(c.env.DB, c.env.CACHE);
+    const updated = await notificationService.markAllAsRead(user.id, {
+      types: parseListParam(c.req.query('type')),
+      targetTypes: parseListParam(c.req.query('target_type'))
+    });
+
+    return c.json({
+      success: true,
+      data: { updated }
+    });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    return c.json({ success: false, error: 'Failed to mark notifications as read' }, 500);
+  }
+});
+
+// Push delivery settings (master switch, quiet hours). Per-type opt-outs
+// live in /api/users/me/notification-preferences
+router.get('/push-settings', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const pushService = new PushService(c.env.DB, createPushTransports(c.env));
+    const settings = await pushService.getSettings(user.id);
+
+    return c.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    console.error('Get push settings error:', error);
+    return c.json({ success: false, error: 'Failed to fetch push settings' }, 500);
+  }
+});
+
+router.put('/push-settings', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json();
+    const validated = validateRequest(pushSettingsSchema, body);
+
+    if (!validated.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid input',
+        details: validated.errors
+      }, 400);
+    }
+
+    const pushService = new PushService(c.env.DB, createPushTransports(c.env));
+    const settings = await pushService.updateSettings(user.id, validated.data);
+
+    return c.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    console.error('Update push settings error:', error);
+    return c.json({ success: false, error: 'Failed to update push settings' }, 500);
+  }
+});
+
+// Mark a single notification as read
+router.post('/:id/read', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const notificationService = new NotificationService(c.env.DB, c.env.CACHE);
+    const updated = await notificationService.markAsRead(user.id, c.req.param('id'));
+
+    if (!updated) {
+      return c.json({ success: false, error: 'Notification not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    return c.json({ success: false, error: 'Failed to mark notification as read' }, 500);
+  }
+});
+
+// Delete a notification
+router.delete('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const notificationService = new NotificationService(c.env.DB, c.env.CACHE);
+    const deleted = await notificationService.deleteNotification(user.id, c.req.param('id'));
+
+    if (!deleted) {
+      return c.json({ success: false, error: 'Notification not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Delete notification error:', error);
+    return c.json({ success: false, error: 'Failed to delete notification' }, 500);
+  }
+});
+
+export { router as notificationsRouter };
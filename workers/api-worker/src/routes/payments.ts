@@ -44,7 +44,9 @@ const registerDeviceSchema = z.object({
   device_id: z.string().min(1),
   device_model: z.string().optional(),
   platform: z.enum(['ios', 'android']),
-  app_version: z.string().optional()
+  app_version: z.string().optional(),
+  // APNs device token / FCM registration token, when the app has one
+  push_token: z.string().min(1).optional()
 });
 
 const createMobileSessionSchema = z.object({
@@ -274,6 +276,16 @@ router.get('/config', async (c) => {
 // NEW: MOBILE DEVICE ENDPOINTS
 // ============================
 
+// A push token belongs to one install; when it shows up on another
+// device row (e.g. a different account signed in) stop pushing to the old one
+async function releasePushToken(db: D1Database, pushToken: string, keepDeviceId: string) {
+  await db.prepare(`
+    UPDATE device_tokens
+    SET push_token = NULL
+    WHERE push_token = ? AND id != ?
+  `).bind(pushToken, keepDeviceId).run();
+}
+
 // NEW: Register device
 router.post('/device/register', async (c) => {
   try {
@@ -292,13 +304,24 @@ router.post('/device/register', async (c) => {
     `).bind(user.id, validated.device_id).first();
 
     if (existingDevice) {
-      // Update last used
+      // Update last used (and the push token if the app sent a fresh one)
       await c.env.DB.prepare(`
         UPDATE device_tokens 
         SET last_used_at = CURRENT_TIMESTAMP,
-            app_version = ?
+            app_version = ?,
+            push_token = COALESCE(?, push_token),
+            push_token_invalidated_at = CASE WHEN ? IS NULL THEN push_token_invalidated_at ELSE NULL END
         WHERE id = ?
-      `).bind(validated.app_version || '', existingDevice.id).run();
+      `).bind(
+        validated.app_version || '',
+        validated.push_token || null,
+        validated.push_token || null,
+        existingDevice.id
+      ).run();
+
+      if (validated.push_token) {
+        await releasePushToken(c.env.DB, validated.push_token, existingDevice.id as string);
+      }
 
       return c.json({
         success: true,
@@ -313,8 +336,8 @@ router.post('/device/register', async (c) => {
     await c.env.DB.prepare(`
       INSERT INTO device_tokens (
         id, user_id, token, device_id, device_model, 
-        platform, app_version, is_active
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+        platform, app_version, push_token, is_active
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1)
     `).bind(
       deviceId,
       user.id,
@@ -322,9 +345,14 @@ router.post('/device/register', async (c) => {
       validated.device_id,
       validated.device_model || '',
       validated.platform,
-      validated.app_version || ''
+      validated.app_version || '',
+      validated.push_token || null
     ).run();
 
+    if (validated.push_token) {
+      await releasePushToken(c.env.DB, validated.push_token, deviceId);
+    }
+
     console.log(`Device registered for user ${user.id}: ${deviceToken}`);
 
     return c.json({
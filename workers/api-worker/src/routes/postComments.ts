@@ -3,7 +3,14 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { nanoid } from 'nanoid';
-import type { Env } from '../types';
+import type { Env, MentionEntity } from '../types';
+import { NotificationService, createNotificationService } from '../services/notification.service';
+import { BlockService, hiddenUsersFilter } from '../services/block.service';
+import { MentionService } from '../services/mention.service';
+import { createContentFilter } from '../services/contentFilter.service';
+import { ClanService } from '../services/clan.service';
+import { ClanReputationService } from '../services/clanReputation.service';
+import { contentRejectedResponse } from '../utils/response';
 
 type Variables = {
   user: {
@@ -36,27 +43,47 @@ router.post('/', async (c) => {
 
     // Check if post exists
     const post = await c.env.DB.prepare(
-      'SELECT id, user_id FROM posts WHERE id = ?'
+      'SELECT id, user_id, clan_id, comments_locked FROM posts WHERE id = ?'
     ).bind(postId).first();
 
     if (!post) {
       return c.json({ success: false, error: 'Post not found' }, 404);
     }
 
+    if (post.comments_locked) {
+      return c.json({ success: false, error: 'Comments are locked on this post' }, 403);
+    }
+
+    // Comments on clan posts need an unmuted member
+    if (post.clan_id) {
+      try {
+        await new ClanService(c.env.DB, c.env.CACHE).assertCanPost(post.clan_id as string, user.id);
+      } catch (error) {
+        return c.json({ success: false, error: (error as Error).message }, 403);
+      }
+    }
+
+    const contentFilter = createContentFilter(c.env);
+    const moderation = await contentFilter.check('post_comment', user.id, content);
+    if (moderation.verdict === 'reject') {
+      return contentRejectedResponse(c);
+    }
+
     // Create comment
     const commentId = nanoid();
     const now = new Date().toISOString();
 
     await c.env.DB.prepare(`
       INSERT INTO post_comments (
-        id, post_id, user_id, content, parent_id, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        id, post_id, user_id, content, parent_id, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       commentId,
       postId,
       user.id,
       content,
       parentId || null,
+      moderation.verdict === 'hold' ? 'held' : 'active',
       now,
       now
     ).run();
@@ -80,24 +107,33 @@ router.post('/', async (c) => {
       'SELECT username, profile_image FROM users WHERE id = ?'
     ).bind(user.id).first();
 
+    const notifications = createNotificationService(c.env, c.executionCtx);
+
     // Create notification if not commenting on own post - FIXED
     if (post.user_id !== user.id) {
-      await c.env.DB.prepare(`
-        INSERT INTO notifications (
-          id, recipient_id, sender_id, type, target_type, target_id,
-          message, is_read, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).bind(
-        nanoid(),
-        post.user_id,
-        user.id,
-        'post_comment',
-        'post',
-        postId,
-        `${userInfo?.username || 'Someone'} commented on your post`,
-        0,
-        now
-      ).run();
+      await notifications.create({
+        recipientId: post.user_id as string,
+        senderId: user.id,
+        type: 'post_comment',
+        targetType: 'post',
+        targetId: postId,
+        action: 'commented on your post'
+      });
+    }
+
+    // Held comments mention and score on release (AdminService)
+    let mentions: MentionEntity[] = [];
+    if (moderation.verdict === 'hold') {
+      await contentFilter.holdForReview('post_comment', commentId, moderation);
+    } else {
+      mentions = await new MentionService(c.env.DB, notifications)
+        .syncMentions('post_comment', commentId, user.id, { content });
+    }
+
+    if (post.clan_id && moderation.verdict !== 'hold') {
+      const reputation = new ClanReputationService(c.env.DB, c.env.CACHE);
+      await reputation.recordEvent(post.clan_id as string, user.id, 'comment_created', { sourceId: commentId });
+      await reputation.recordPostInteraction(postId, user.id, 'comment_received', { sourceId: commentId });
     }
 
     // Invalidate cache
@@ -123,6 +159,7 @@ router.post('/', async (c) => {
         isLiked: false,
         replies: [],
         replyCount: 0,
+        mentions,
         createdAt: now,
         updatedAt: now,
       },
@@ -150,10 +187,14 @@ router.get('/post/:postId', async (c) => {
   const offset = (page - 1) * limit;
 
   try {
+    const hiddenFilter = user ? hiddenUsersFilter('c.user_id', user.id) : null;
+
     // Get total count
-    const totalResult = await c.env.DB.prepare(
-      'SELECT COUNT(*) as total FROM post_comments WHERE post_id = ? AND parent_id IS NULL'
-    ).bind(postId).first();
+    const totalResult = await c.env.DB.prepare(`
+      SELECT COUNT(*) as total FROM post_comments c
+      WHERE c.post_id = ? AND c.parent_id IS NULL AND c.status = 'active'
+        ${hiddenFilter ? `AND ${hiddenFilter.sql}` : ''}
+    `).bind(postId, ...(hiddenFilter?.params || [])).first();
     
     const total = totalResult?.total as number || 0;
 
@@ -164,14 +205,21 @@ router.get('/post/:postId', async (c) => {
         u.username,
         u.profile_image,
         CASE WHEN pcl.user_id IS NOT NULL THEN 1 ELSE 0 END as is_liked,
-        (SELECT COUNT(*) FROM post_comments WHERE parent_id = c.id) as reply_count
+        (SELECT COUNT(*) FROM post_comments WHERE parent_id = c.id AND status = 'active') as reply_count
       FROM post_comments c
       JOIN users u ON c.user_id = u.id
       LEFT JOIN post_comment_likes pcl ON c.id = pcl.comment_id AND pcl.user_id = ?
-      WHERE c.post_id = ? AND c.parent_id IS NULL
+      WHERE c.post_id = ? AND c.parent_id IS NULL AND c.status = 'active'
+        ${hiddenFilter ? `AND ${hiddenFilter.sql}` : ''}
       ORDER BY c.created_at DESC
       LIMIT ? OFFSET ?
-    `).bind(user?.id || '', postId, limit, offset).all();
+    `).bind(user?.id || '', postId, ...(hiddenFilter?.params || []), limit, offset).all();
+
+    const mentions = await new MentionService(c.env.DB, createNotificationService(c.env))
+      .getMentionsForMany('post_comment', commentsData.results.map((comment: any) => ({
+        id: comment.id,
+        fields: { content: comment.content }
+      })));
 
     const comments = commentsData.results.map((comment: any) => ({
       id: comment.id,
@@ -189,6 +237,7 @@ router.get('/post/:postId', async (c) => {
       likesCount: comment.likes_count || 0,
       isLiked: !!comment.is_liked,
       replyCount: comment.reply_count || 0,
+      mentions: mentions.get(comment.id) || [],
       createdAt: comment.created_at,
       updatedAt: comment.updated_at,
     }));
@@ -215,6 +264,8 @@ router.get('/:commentId/replies', async (c) => {
   const commentId = c.req.param('commentId');
 
   try {
+    const hiddenFilter = user ? hiddenUsersFilter('c.user_id', user.id) : null;
+
     const replies = await c.env.DB.prepare(`
       SELECT 
         c.*,
@@ -224,9 +275,16 @@ router.get('/:commentId/replies', async (c) => {
       FROM post_comments c
       JOIN users u ON c.user_id = u.id
       LEFT JOIN post_comment_likes pcl ON c.id = pcl.comment_id AND pcl.user_id = ?
-      WHERE c.parent_id = ?
+      WHERE c.parent_id = ? AND c.status = 'active'
+        ${hiddenFilter ? `AND ${hiddenFilter.sql}` : ''}
       ORDER BY c.created_at ASC
-    `).bind(user?.id || '', commentId).all();
+    `).bind(user?.id || '', commentId, ...(hiddenFilter?.params || [])).all();
+
+    const mentions = await new MentionService(c.env.DB, createNotificationService(c.env))
+      .getMentionsForMany('post_comment', replies.results.map((reply: any) => ({
+        id: reply.id,
+        fields: { content: reply.content }
+      })));
 
     const processedReplies = replies.results.map((reply: any) => ({
       id: reply.id,
@@ -243,6 +301,7 @@ router.get('/:commentId/replies', async (c) => {
       likes: reply.likes_count || 0,
       likesCount: reply.likes_count || 0,
       isLiked: !!reply.is_liked,
+      mentions: mentions.get(reply.id) || [],
       createdAt: reply.created_at,
       updatedAt: reply.updated_at,
     }));
@@ -292,6 +351,8 @@ router.post('/:commentId/like', async (c) => {
         'UPDATE post_comments SET likes_count = GREATEST(0, likes_count - 1) WHERE id = ?'
       ).bind(commentId).run();
 
+      await new NotificationService(c.env.DB, c.env.CACHE).removeActor(user.id, 'comment_like', commentId);
+
       // Invalidate cache
       await c.env.CACHE.delete(`post:comments:${comment.post_id}`);
 
@@ -303,6 +364,10 @@ router.post('/:commentId/like', async (c) => {
         },
       });
     } else {
+      if (await new BlockService(c.env.DB).isBlockedEitherWay(user.id, comment.user_id as string)) {
+        return c.json({ success: false, error: 'Cannot interact with this user' }, 403);
+      }
+
       // Like
       await c.env.DB.prepare(
         'INSERT INTO post_comment_likes (id, comment_id, user_id, created_at) VALUES (?, ?, ?, ?)'
@@ -315,26 +380,14 @@ router.post('/:commentId/like', async (c) => {
 
       // Create notification if not liking own comment
       if (comment.user_id !== user.id) {
-        const userInfo = await c.env.DB.prepare(
-          'SELECT username FROM users WHERE id = ?'
-        ).bind(user.id).first();
-
-        await c.env.DB.prepare(`
-          INSERT INTO notifications (
-            id, recipient_id, sender_id, type, target_type, target_id,
-            message, is_read, created_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `).bind(
-          nanoid(),
-          comment.user_id,
-          user.id,
-          'comment_like',
-          'comment',
-          commentId,
-          `${userInfo?.username || 'Someone'} liked your comment`,
-          0,
-          new Date().toISOString()
-        ).run();
+        await createNotificationService(c.env, c.executionCtx).create({
+          recipientId: comment.user_id as string,
+          senderId: user.id,
+          type: 'comment_like',
+          targetType: 'comment',
+          targetId: commentId,
+          action: 'liked your comment'
+        });
       }
 
       // Invalidate cache
@@ -380,11 +433,26 @@ router.patch('/:commentId', async (c) => {
       return c.json({ success: false, error: 'Unauthorized' }, 403);
     }
 
+    const contentFilter = createContentFilter(c.env);
+    const moderation = await contentFilter.check('post_comment', user.id, content, { excludeId: commentId });
+    if (moderation.verdict === 'reject') {
+      return contentRejectedResponse(c);
+    }
+
     // Update comment
     await c.env.DB.prepare(
       'UPDATE post_comments SET content = ?, updated_at = ? WHERE id = ?'
     ).bind(content, new Date().toISOString(), commentId).run();
 
+    // Only users newly mentioned by the edit are notified
+    let mentions: MentionEntity[] = [];
+    if (moderation.verdict === 'hold') {
+      await contentFilter.holdForReview('post_comment', commentId, moderation);
+    } else {
+      mentions = await new MentionService(c.env.DB, createNotificationService(c.env, c.executionCtx))
+        .syncMentions('post_comment', commentId, user.id, { content });
+    }
+
     // Invalidate cache
     await c.env.CACHE.delete(`post:comments:${comment.post_id}`);
 
@@ -392,6 +460,7 @@ router.patch('/:commentId', async (c) => {
       success: true,
       data: {
         message: 'Comment updated',
+        mentions,
       },
     });
   } catch (error) {
@@ -432,6 +501,12 @@ router.delete('/:commentId', async (c) => {
 
     // Delete comment and its replies
     await c.env.DB.batch([
+      // Delete mentions in the comment and its replies
+      c.env.DB.prepare(`
+        DELETE FROM mentions
+        WHERE content_type = 'post_comment'
+          AND (content_id = ? OR content_id IN (SELECT id FROM post_comments WHERE parent_id = ?))
+      `).bind(commentId, commentId),
       // Delete the comment
       c.env.DB.prepare('DELETE FROM post_comments WHERE id = ?').bind(commentId),
       // Delete replies
@@ -453,6 +528,23 @@ router.delete('/:commentId', async (c) => {
       body: JSON.stringify({ field: 'comments' }),
     }));
 
+    // Take back the reputation the comment earned in a clan
+    const clanPost = await c.env.DB.prepare(
+      'SELECT clan_id FROM posts WHERE id = ?'
+    ).bind(comment.post_id).first();
+
+    if (clanPost?.clan_id) {
+      const reputation = new ClanReputationService(c.env.DB, c.env.CACHE);
+      await reputation.recordEvent(clanPost.clan_id as string, user.id, 'comment_created', {
+        sourceId: commentId,
+        reverse: true
+      });
+      await reputation.recordPostInteraction(comment.post_id as string, user.id, 'comment_received', {
+        sourceId: commentId,
+        reverse: true
+      });
+    }
+
     // Invalidate cache
     await c.env.CACHE.delete(`post:${comment.post_id}`);
     await c.env.CACHE.delete(`post:comments:${comment.post_id}`);
@@ -4,7 +4,12 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import type { Env } from '../types';
 import { PostService } from '../services/post.service';
+import { ClanService } from '../services/clan.service';
+import { ClanReputationService } from '../services/clanReputation.service';
+import { createNotificationService } from '../services/notification.service';
+import { createContentFilter } from '../services/contentFilter.service';
 import { validateRequest } from '../utils/validation';
+import { contentRejectedResponse } from '../utils/response';
 
 type Variables = {
   user?: {
@@ -50,16 +55,45 @@ router.post('/', async (c) => {
       }, 400);
     }
     
-    const postService = new PostService(c.env.DB, c.env.CACHE, c.env.POST_COUNTERS);
+    // Clan posts need an unmuted member
+    if (validated.data.clan_id) {
+      try {
+        await new ClanService(c.env.DB, c.env.CACHE).assertCanPost(validated.data.clan_id, user.id);
+      } catch (error) {
+        return c.json({ success: false, error: (error as Error).message }, 403);
+      }
+    }
+    
+    const contentFilter = createContentFilter(c.env);
+    const moderation = await contentFilter.check('post', user.id, validated.data.content);
+    if (moderation.verdict === 'reject') {
+      return contentRejectedResponse(c);
+    }
+    
+    const postService = new PostService(
+      c.env.DB,
+      c.env.CACHE,
+      c.env.POST_COUNTERS,
+      createNotificationService(c.env, c.executionCtx)
+    );
     const post = await postService.createPost({
       user_id: user.id,
       content: validated.data.content,
       media_urls: validated.data.media_urls,
       type: validated.data.type as 'text' | 'image' | 'video',
       visibility: validated.data.visibility as 'public' | 'followers' | 'clan',
-      clan_id: validated.data.clan_id
+      clan_id: validated.data.clan_id,
+      held: moderation.verdict === 'hold'
     });
     
+    // Held posts score on release (AdminService)
+    if (moderation.verdict === 'hold') {
+      await contentFilter.holdForReview('post', post.id, moderation);
+    } else if (validated.data.clan_id) {
+      await new ClanReputationService(c.env.DB, c.env.CACHE)
+        .recordEvent(validated.data.clan_id, user.id, 'post_created', { sourceId: post.id });
+    }
+    
     // Fetch complete post data with user info
     const enrichedPost = await c.env.DB.prepare(`
       SELECT 
@@ -76,7 +110,7 @@ router.post('/', async (c) => {
     
     return c.json({ 
       success: true, 
-      data: enrichedPost
+      data: { ...enrichedPost, mentions: post.mentions || [] }
     }, 201);
     
   } catch (error) {
@@ -120,7 +154,7 @@ router.get('/:id', async (c) => {
     
     return c.json({ 
       success: true, 
-      data: enrichedPost
+      data: { ...enrichedPost, mentions: post.mentions || [] }
     });
     
   } catch (error) {
@@ -151,7 +185,12 @@ router.put('/:id', async (c) => {
       }, 400);
     }
     
-    const postService = new PostService(c.env.DB, c.env.CACHE, c.env.POST_COUNTERS);
+    const postService = new PostService(
+      c.env.DB,
+      c.env.CACHE,
+      c.env.POST_COUNTERS,
+      createNotificationService(c.env, c.executionCtx)
+    );
     
     // Check if user owns the post
     const existingPost = await postService.getPost(postId, user.id);
@@ -169,8 +208,22 @@ router.put('/:id', async (c) => {
       }, 403);
     }
     
+    const contentFilter = createContentFilter(c.env);
+    const moderation = validated.data.content !== undefined
+      ? await contentFilter.check('post', user.id, validated.data.content, { excludeId: postId })
+      : null;
+    if (moderation?.verdict === 'reject') {
+      return contentRejectedResponse(c);
+    }
+    
     // Update the post
-    const updatedPost = await postService.updatePost(postId, validated.data);
+    const updatedPost = await postService.updatePost(postId, validated.data, {
+      held: moderation?.verdict === 'hold'
+    });
+    
+    if (moderation?.verdict === 'hold') {
+      await contentFilter.holdForReview('post', postId, moderation);
+    }
     
     // Fetch complete post data with user info
     const enrichedPost = await c.env.DB.prepare(`
@@ -188,7 +241,7 @@ router.put('/:id', async (c) => {
     
     return c.json({ 
       success: true, 
-      data: enrichedPost
+      data: { ...enrichedPost, mentions: updatedPost.mentions || [] }
     });
     
   } catch (error) {
@@ -229,6 +282,11 @@ router.delete('/:id', async (c) => {
     
     await postService.deletePost(postId);
     
+    if (existingPost.clan_id) {
+      await new ClanReputationService(c.env.DB, c.env.CACHE)
+        .recordEvent(existingPost.clan_id, user.id, 'post_created', { sourceId: postId, reverse: true });
+    }
+    
     return c.json({ 
       success: true, 
       message: 'Post deleted successfully' 
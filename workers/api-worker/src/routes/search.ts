@@ -0,0 +1,69 @@
+// workers/api-worker/src/routes/search.ts
+
+import { Hono } from 'hono';
+import type { Env } from '../types';
+import { createSearchService, SEARCH_TYPES, type SearchType } from '../services/search.service';
+import { buildFtsQuery } from '../utils/search';
+
+type Variables = {
+  user?: {
+    id: string;
+    email: string;
+    username: string;
+  };
+};
+
+const router = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Unified search. ?type=users,posts limits which sections are returned
+// (default: all of users, posts, flicks and clans)
+router.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const query = c.req.query('q')?.trim();
+    if (!query || query.length < 2 || !buildFtsQuery(query)) {
+      return c.json({
+        success: false,
+        error: 'Search query must be at least 2 characters'
+      }, 400);
+    }
+
+    const types = (c.req.query('type') || '')
+      .split(',')
+      .map(type => type.trim())
+      .filter(Boolean);
+
+    const invalidType = types.find(type => !(SEARCH_TYPES as readonly string[]).includes(type));
+    if (invalidType) {
+      return c.json({ success: false, error: `Invalid search type: ${invalidType}` }, 400);
+    }
+
+    const page = Math.max(parseInt(c.req.query('page') || '1') || 1, 1);
+    const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 50);
+
+    const results = await createSearchService(c.env).search(query, user.id, {
+      types: types as SearchType[],
+      page,
+      limit
+    });
+
+    return c.json({
+      success: true,
+      data: results,
+      pagination: {
+        page,
+        limit,
+        hasMore: Object.values(results).some(section => section?.hasMore)
+      }
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+    return c.json({ success: false, error: 'Failed to search' }, 500);
+  }
+});
+
+export { router as searchRouter };
@@ -4,6 +4,9 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { nanoid } from 'nanoid';
 import type { Env } from '../types';
+import { NotificationService, createNotificationService } from '../services/notification.service';
+import { BlockService } from '../services/block.service';
+import { ClanReputationService } from '../services/clanReputation.service';
 
 type Variables = {
   user?: {
@@ -65,6 +68,11 @@ router.post('/posts/:postId/like', async (c) => {
         // Durable Object might not be available, continue
       }
       
+      // Un-group the like notification
+      await new NotificationService(c.env.DB, c.env.CACHE).removeActor(user.id, 'post_like', postId);
+      await new ClanReputationService(c.env.DB, c.env.CACHE)
+        .recordPostInteraction(postId, user.id, 'like_received', { reverse: true });
+      
       // Invalidate caches
       await c.env.CACHE.delete(`post:${postId}`);
       await c.env.CACHE.delete(`post:${postId}:${user.id}`);
@@ -75,6 +83,10 @@ router.post('/posts/:postId/like', async (c) => {
         message: 'Post unliked'
       });
     } else {
+      if (await new BlockService(c.env.DB).isBlockedEitherWay(user.id, post.user_id as string)) {
+        return c.json({ success: false, error: 'Cannot interact with this user' }, 403);
+      }
+      
       // Like - add the like (FIXED: no id column)
       await c.env.DB.prepare(`
         INSERT INTO post_likes (post_id, user_id, created_at)
@@ -98,24 +110,19 @@ router.post('/posts/:postId/like', async (c) => {
         // Durable Object might not be available, continue
       }
       
+      await new ClanReputationService(c.env.DB, c.env.CACHE)
+        .recordPostInteraction(postId, user.id, 'like_received');
+      
       // Create notification if not liking own post
       if (post.user_id !== user.id) {
-        await c.env.DB.prepare(`
-          INSERT INTO notifications (
-            id, recipient_id, sender_id, type, target_type, target_id,
-            message, is_read, created_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `).bind(
-          nanoid(),
-          post.user_id,
-          user.id,
-          'post_like',
-          'post',
-          postId,
-          `${user.username} liked your post`,
-          0,
-          new Date().toISOString()
-        ).run();
+        await createNotificationService(c.env, c.executionCtx).create({
+          recipientId: post.user_id as string,
+          senderId: user.id,
+          type: 'post_like',
+          targetType: 'post',
+          targetId: postId,
+          action: 'liked your post'
+        });
       }
       
       // Invalidate caches
@@ -169,6 +176,11 @@ router.delete('/posts/:postId/like', async (c) => {
         // Durable Object might not be available
       }
       
+      // Un-group the like notification
+      await new NotificationService(c.env.DB, c.env.CACHE).removeActor(user.id, 'post_like', postId);
+      await new ClanReputationService(c.env.DB, c.env.CACHE)
+        .recordPostInteraction(postId, user.id, 'like_received', { reverse: true });
+      
       // Invalidate caches
       await c.env.CACHE.delete(`post:${postId}`);
       await c.env.CACHE.delete(`post:${postId}:${user.id}`);
@@ -326,22 +338,14 @@ router.post('/posts/:postId/share', async (c) => {
     
     // Create notification if not sharing own post
     if (post.user_id !== user.id) {
-      await c.env.DB.prepare(`
-        INSERT INTO notifications (
-          id, recipient_id, sender_id, type, target_type, target_id,
-          message, is_read, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).bind(
-        nanoid(),
-        post.user_id,
-        user.id,
-        'share',
-        'post',
-        postId,
-        `${user.username} shared your post`,
-        0,
-        new Date().toISOString()
-      ).run();
+      await createNotificationService(c.env, c.executionCtx).create({
+        recipientId: post.user_id as string,
+        senderId: user.id,
+        type: 'share',
+        targetType: 'post',
+        targetId: postId,
+        action: 'shared your post'
+      });
     }
     
     // Invalidate cache
@@ -400,12 +404,18 @@ router.post('/comments/:commentId/like', async (c) => {
         'UPDATE post_comments SET likes_count = CASE WHEN likes_count > 0 THEN likes_count - 1 ELSE 0 END WHERE id = ?'
       ).bind(commentId).run();
       
+      await new NotificationService(c.env.DB, c.env.CACHE).removeActor(user.id, 'comment_like', commentId);
+      
       return c.json({ 
         success: true, 
         data: { liked: false },
         message: 'Comment unliked'
       });
     } else {
+      if (await new BlockService(c.env.DB).isBlockedEitherWay(user.id, comment.user_id as string)) {
+        return c.json({ success: false, error: 'Cannot interact with this user' }, 403);
+      }
+      
       // Like (post_comment_likes HAS an id column)
       const likeId = nanoid();
       await c.env.DB.prepare(`
@@ -420,22 +430,14 @@ router.post('/comments/:commentId/like', async (c) => {
       
       // Create notification if not liking own comment
       if (comment.user_id !== user.id) {
-        await c.env.DB.prepare(`
-          INSERT INTO notifications (
-            id, recipient_id, sender_id, type, target_type, target_id,
-            message, is_read, created_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `).bind(
-          nanoid(),
-          comment.user_id,
-          user.id,
-          'comment_like',
-          'comment',
-          commentId,
-          `${user.username} liked your comment`,
-          0,
-          new Date().toISOString()
-        ).run();
+        await createNotificationService(c.env, c.executionCtx).create({
+          recipientId: comment.user_id as string,
+          senderId: user.id,
+          type: 'comment_like',
+          targetType: 'comment',
+          targetId: commentId,
+          action: 'liked your comment'
+        });
       }
       
       // Invalidate cache
@@ -484,6 +486,10 @@ router.post('/users/:targetUserId/follow', async (c) => {
       return c.json({ success: false, error: 'User not found' }, 404);
     }
     
+    if (await new BlockService(c.env.DB).isBlockedEitherWay(user.id, targetUserId)) {
+      return c.json({ success: false, error: 'Cannot follow this user' }, 403);
+    }
+    
     // Check if already following (follows table has no id column)
     const existingFollow = await c.env.DB.prepare(
       'SELECT 1 FROM follows WHERE follower_id = ? AND following_id = ?'
@@ -513,22 +519,14 @@ router.post('/users/:targetUserId/follow', async (c) => {
     ]);
     
     // Create notification
-    await c.env.DB.prepare(`
-      INSERT INTO notifications (
-        id, recipient_id, sender_id, type, target_type, target_id,
-        message, is_read, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      nanoid(),
-      targetUserId,
-      user.id,
-      'follow',
-      'user',
-      targetUserId,
-      `${user.username} started following you`,
-      0,
-      new Date().toISOString()
-    ).run();
+    await createNotificationService(c.env, c.executionCtx).create({
+      recipientId: targetUserId,
+      senderId: user.id,
+      type: 'follow',
+      targetType: 'user',
+      targetId: targetUserId,
+      action: 'started following you'
+    });
     
     return c.json({ 
       success: true, 
@@ -618,6 +616,178 @@ router.get('/users/:targetUserId/follow', async (c) => {
   }
 });
 
+// Block a user
+router.post('/users/:targetUserId/block', async (c) => {
+  try {
+    const targetUserId = c.req.param('targetUserId');
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const blockService = new BlockService(c.env.DB);
+    await blockService.blockUser(user.id, targetUserId);
+    
+    return c.json({ 
+      success: true, 
+      data: { blocked: true },
+      message: 'User blocked'
+    });
+    
+  } catch (error: any) {
+    if (error.message?.includes('yourself')) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error('Block user error:', error);
+    return c.json({ 
+      success: false, 
+      error: 'Failed to block user' 
+    }, 500);
+  }
+});
+
+// Unblock a user
+router.delete('/users/:targetUserId/block', async (c) => {
+  try {
+    const targetUserId = c.req.param('targetUserId');
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const blockService = new BlockService(c.env.DB);
+    const removed = await blockService.unblockUser(user.id, targetUserId);
+    
+    if (!removed) {
+      return c.json({ 
+        success: false, 
+        error: 'User is not blocked' 
+      }, 400);
+    }
+    
+    return c.json({ 
+      success: true, 
+      data: { blocked: false },
+      message: 'User unblocked'
+    });
+    
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    return c.json({ 
+      success: false, 
+      error: 'Failed to unblock user' 
+    }, 500);
+  }
+});
+
+// Mute a user
+router.post('/users/:targetUserId/mute', async (c) => {
+  try {
+    const targetUserId = c.req.param('targetUserId');
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const blockService = new BlockService(c.env.DB);
+    await blockService.muteUser(user.id, targetUserId);
+    
+    return c.json({ 
+      success: true, 
+      data: { muted: true },
+      message: 'User muted'
+    });
+    
+  } catch (error: any) {
+    if (error.message?.includes('yourself')) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    if (error.message?.includes('not found')) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+    console.error('Mute user error:', error);
+    return c.json({ 
+      success: false, 
+      error: 'Failed to mute user' 
+    }, 500);
+  }
+});
+
+// Unmute a user
+router.delete('/users/:targetUserId/mute', async (c) => {
+  try {
+    const targetUserId = c.req.param('targetUserId');
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const blockService = new BlockService(c.env.DB);
+    const removed = await blockService.unmuteUser(user.id, targetUserId);
+    
+    if (!removed) {
+      return c.json({ 
+        success: false, 
+        error: 'User is not muted' 
+      }, 400);
+    }
+    
+    return c.json({ 
+      success: true, 
+      data: { muted: false },
+      message: 'User unmuted'
+    });
+    
+  } catch (error) {
+    console.error('Unmute user error:', error);
+    return c.json({ 
+      success: false, 
+      error: 'Failed to unmute user' 
+    }, 500);
+  }
+});
+
+// List users the current user has blocked
+router.get('/blocks', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const blockService = new BlockService(c.env.DB);
+    const users = await blockService.getBlockedUsers(user.id);
+    
+    return c.json({ success: true, data: users });
+    
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    return c.json({ success: false, error: 'Failed to get blocked users' }, 500);
+  }
+});
+
+// List users the current user has muted
+router.get('/mutes', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const blockService = new BlockService(c.env.DB);
+    const users = await blockService.getMutedUsers(user.id);
+    
+    return c.json({ success: true, data: users });
+    
+  } catch (error) {
+    console.error('Get muted users error:', error);
+    return c.json({ success: false, error: 'Failed to get muted users' }, 500);
+  }
+});
+
 // Get post likes
 router.get('/posts/:postId/likes', async (c) => {
   try {
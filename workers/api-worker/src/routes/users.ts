@@ -4,6 +4,10 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import type { Env, User } from '../types';
 import { validateRequest } from '../utils/validation';
+import { NotificationService, NOTIFICATION_PREFERENCE_TYPES } from '../services/notification.service';
+import { BlockService } from '../services/block.service';
+import { createSearchService } from '../services/search.service';
+import { createAuthUserService } from '../services/authUser.service';
 
 type Variables = {
   user?: {
@@ -22,6 +26,19 @@ const updateProfileSchema = z.object({
   profile_image: z.string().url().optional()
 });
 
+// Notification preferences schema: { [type]: { inApp?, push?, email? } }
+const notificationPreferencesSchema = z.record(
+  z.string(),
+  z.object({
+    inApp: z.boolean().optional(),
+    push: z.boolean().optional(),
+    email: z.boolean().optional()
+  })
+).refine(
+  prefs => Object.keys(prefs).every(type => NOTIFICATION_PREFERENCE_TYPES.includes(type)),
+  { message: `Type must be one of: ${NOTIFICATION_PREFERENCE_TYPES.join(', ')}` }
+);
+
 // workers/api-worker/src/routes/users.ts
 // Fixed /me endpoint with better error handling
 
@@ -145,7 +162,6 @@ router.get('/search', async (c) => {
     const query = c.req.query('q');
     const page = parseInt(c.req.query('page') || '1');
     const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100);
-    const offset = (page - 1) * limit;
     
     if (!query || query.length < 2) {
       return c.json({ 
@@ -154,26 +170,16 @@ router.get('/search', async (c) => {
       }, 400);
     }
     
-    // Search by username (prefix match)
-    const users = await c.env.DB.prepare(`
-      SELECT 
-        id, username, profile_image, bio,
-        followers_count, is_verified
-      FROM users
-      WHERE username LIKE ?
-      ORDER BY 
-        CASE WHEN username = ? THEN 0 ELSE 1 END,
-        followers_count DESC
-      LIMIT ? OFFSET ?
-    `).bind(`${query}%`, query, limit, offset).all();
+    const user = c.get('user');
+    const result = await createSearchService(c.env).searchUsers(query, user?.id, page, limit);
     
     return c.json({
       success: true,
-      data: users.results,
+      data: result.users,
       pagination: {
         page,
         limit,
-        hasMore: users.results.length === limit
+        hasMore: result.hasMore
       }
     });
     
@@ -253,8 +259,9 @@ router.put('/me', async (c) => {
       WHERE id = ?
     `).bind(...values).run();
     
-    // Invalidate cache
+    // Invalidate cache (auth keeps its own copy of the username)
     await c.env.CACHE.delete(`user:${user.id}`);
+    await createAuthUserService(c.env).invalidate(user.id);
     
     // Get updated user
     const updatedUser = await c.env.DB.prepare(`
@@ -273,6 +280,55 @@ router.put('/me', async (c) => {
     return c.json({ success: false, error: 'Failed to update profile' }, 500);
   }
 });
+
+// Get notification preferences (every configurable type, defaults filled in)
+router.get('/me/notification-preferences', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const notificationService = new NotificationService(c.env.DB, c.env.CACHE);
+    const preferences = await notificationService.getPreferences(user.id);
+    
+    return c.json({ success: true, data: preferences });
+    
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    return c.json({ success: false, error: 'Failed to fetch notification preferences' }, 500);
+  }
+});
+
+// Update notification preferences (partial - only the types/channels sent)
+router.put('/me/notification-preferences', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+    
+    const body = await c.req.json();
+    const validated = validateRequest(notificationPreferencesSchema, body);
+    
+    if (!validated.success) {
+      return c.json({ 
+        success: false, 
+        error: 'Invalid input', 
+        details: validated.errors 
+      }, 400);
+    }
+    
+    const notificationService = new NotificationService(c.env.DB, c.env.CACHE);
+    const preferences = await notificationService.updatePreferences(user.id, validated.data);
+    
+    return c.json({ success: true, data: preferences });
+    
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    return c.json({ success: false, error: 'Failed to update notification preferences' }, 500);
+  }
+});
 // Get user by ID
 router.get('/:userId', async (c) => {
   try {
@@ -444,6 +500,10 @@ router.post('/:userId/follow', async (c) => {
       return c.json({ success: false, error: 'User not found' }, 404);
     }
     
+    if (await new BlockService(c.env.DB).isBlockedEitherWay(currentUser.id, targetUserId)) {
+      return c.json({ success: false, error: 'Cannot follow this user' }, 403);
+    }
+    
     // Check if already following
     const existingFollow = await c.env.DB.prepare(
       'SELECT 1 FROM follows WHERE follower_id = ? AND following_id = ?'
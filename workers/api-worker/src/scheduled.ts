@@ -0,0 +1,70 @@
+// workers/api-worker/src/scheduled.ts
+
+import type { Env } from './types';
+import { ClanService } from './services/clan.service';
+import { FlicksService } from './services/flicks.service';
+
+// Cron entry point (see [triggers] in wrangler.toml). Runs hourly; each run
+// refreshes the current day's clan_stats snapshot, lifts expired clan bans
+// and mutes, hands clans whose founder was deactivated to a successor and
+// prunes flick_seen rows past the smart feed's re-show window.
+// Jobs run independently so one failing doesn't skip the others
+export async function scheduled(
+  controller: ScheduledController,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<void> {
+  const clanService = new ClanService(env.DB, env.CACHE);
+  const failures: unknown[] = [];
+
+  try {
+    const written = await clanService.recordDailyStats(new Date(controller.scheduledTime));
+    console.log(`Recorded clan stats for ${written} clans`);
+  } catch (error) {
+    console.error('Clan stats snapshot error:', error);
+    failures.push(error);
+  }
+
+  try {
+    const lifted = await clanService.sweepExpiredRestrictions();
+    if (lifted > 0) {
+      console.log(`Lifted ${lifted} expired clan bans/mutes`);
+    }
+  } catch (error) {
+    console.error('Clan restriction sweep error:', error);
+    failures.push(error);
+  }
+
+  try {
+    const succeeded = await clanService.succeedInactiveFounders();
+    if (succeeded > 0) {
+      console.log(`Promoted new founders in ${succeeded} clans`);
+    }
+  } catch (error) {
+    console.error('Founder succession error:', error);
+    failures.push(error);
+  }
+
+  try {
+    const flicksService = new FlicksService(
+      env.DB,
+      env.CACHE,
+      env.CLOUDFLARE_ACCOUNT_ID,
+      env.CLOUDFLARE_API_TOKEN,
+      env.CLOUDFLARE_STREAM_CUSTOMER_CODE
+    );
+    const reshowAfterHours = parseInt(env.SMART_FEED_RESHOW_HOURS || '');
+    const pruned = await flicksService.pruneSeen(isNaN(reshowAfterHours) ? undefined : reshowAfterHours);
+    if (pruned > 0) {
+      console.log(`Pruned ${pruned} flick_seen rows`);
+    }
+  } catch (error) {
+    console.error('Flick seen prune error:', error);
+    failures.push(error);
+  }
+
+  // Surface failures so the cron run is reported as failed
+  if (failures.length > 0) {
+    throw failures[0];
+  }
+}
@@ -0,0 +1,656 @@
+// workers/api-worker/src/services/admin.service.ts
+
+import { nanoid } from 'nanoid';
+import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import type { PlatformRole } from '../types';
+import { NotificationService } from './notification.service';
+import { ClanService } from './clan.service';
+import { AuthTokenService } from './authToken.service';
+import { SessionService } from './session.service';
+import { MentionService } from './mention.service';
+import { HashtagService } from './hashtag.service';
+import { ClanReputationService } from './clanReputation.service';
+import { extractHashtags } from '../utils/hashtags';
+
+export const REPORT_TYPES = ['flick', 'comment', 'post', 'post_comment', 'user', 'clan'] as const;
+export type ReportType = typeof REPORT_TYPES[number];
+
+export const REPORT_ACTIONS = ['none', 'remove_content', 'deactivate_user', 'warn'] as const;
+export type ReportAction = typeof REPORT_ACTIONS[number];
+
+// Report types whose target is a piece of content that can be taken down
+const REMOVABLE_TYPES: ReportType[] = ['flick', 'comment', 'post', 'post_comment'];
+
+export interface AdminReport {
+  id: string;
+  type: ReportType;
+  targetId: string;
+  reason: string;
+  description?: string;
+  status: 'pending' | 'reviewed' | 'resolved' | 'dismissed';
+  resolution?: ReportAction;
+  clanId?: string;
+  reporter: {
+    id: string;
+    username?: string;
+  };
+  // Other reports still pending against the same target
+  pendingReports: number;
+  // null once the content itself is gone
+  target: {
+    authorId?: string;
+    authorUsername?: string;
+    authorActive?: boolean;
+    title?: string;
+    content?: string;
+    status: string;
+  } | null;
+  reviewedBy?: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  admin: {
+    id: string;
+    username?: string;
+  };
+  action: string;
+  targetType: string;
+  targetId: string;
+  reportId?: string;
+  reason?: string;
+  details?: any;
+  createdAt: string;
+}
+
+export interface StaffMember {
+  id: string;
+  username: string;
+  email: string;
+  role: PlatformRole;
+  isActive: boolean;
+}
+
+// Platform-wide moderation and staff management. Access is checked by the
+// routes (requireRole); this service assumes the caller is allowed
+export class AdminService {
+  private tokens: AuthTokenService;
+
+  // `sessions` needs a Supabase client (createSessionService) for
+  // revocations to reach Supabase
+  constructor(
+    private db: D1Database,
+    private cache: KVNamespace,
+    private notifications?: NotificationService,
+    private sessions?: SessionService
+  ) {
+    this.tokens = new AuthTokenService(cache);
+  }
+
+  async listReports(options: {
+    type?: ReportType;
+    status?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ reports: AdminReport[]; hasMore: boolean }> {
+    const offset = (options.page - 1) * options.limit;
+    const conditions = ['r.status = ?'];
+    const params: any[] = [options.status || 'pending'];
+
+    if (options.type) {
+      conditions.push('r.type = ?');
+      params.push(options.type);
+    }
+
+    const reports = await this.db.prepare(`
+      ${this.reportSelect()}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY r.created_at ${options.status && options.status !== 'pending' ? 'DESC' : 'ASC'}
+      LIMIT ? OFFSET ?
+    `).bind(...params, options.limit + 1, offset).all();
+
+    return {
+      reports: reports.results.slice(0, options.limit).map(report => this.formatReport(report)),
+      hasMore: reports.results.length > options.limit
+    };
+  }
+
+  async getReport(reportId: string): Promise<AdminReport | null> {
+    const report = await this.db.prepare(`
+      ${this.reportSelect()}
+      WHERE r.id = ?
+    `).bind(reportId).first();
+
+    return report ? this.formatReport(report) : null;
+  }
+
+  // Applies the action to the reported target and resolves every pending
+  // report against it, so duplicates don't have to be worked one by one
+  async resolveReport(
+    reportId: string,
+    adminId: string,
+    data: { action: ReportAction; reason: string; message?: string }
+  ): Promise<void> {
+    const report = await this.getReport(reportId);
+    if (!report) {
+      throw new Error('Report not found');
+    }
+    if (report.status !== 'pending') {
+      throw new Error('Report is already closed');
+    }
+
+    const authorId = report.target?.authorId;
+
+    switch (data.action) {
+      case 'remove_content':
+        if (!REMOVABLE_TYPES.includes(report.type)) {
+          throw new Error(`Reports on a ${report.type} have no content to remove`);
+        }
+        if (!report.target) {
+          throw new Error('Reported content not found');
+        }
+        if (report.target.status !== 'active' && report.target.status !== 'held') {
+          throw new Error('Content is already removed');
+        }
+        await this.removeContent(report.type, report.targetId);
+        break;
+
+      case 'deactivate_user':
+        if (!authorId) {
+          throw new Error('Reported user not found');
+        }
+        await this.deactivateUser(authorId);
+        break;
+
+      case 'warn':
+        if (!authorId) {
+          throw new Error('Reported user not found');
+        }
+        await this.getNotificationService().create({
+          recipientId: authorId,
+          senderId: adminId,
+          type: 'moderation_warning',
+          targetType: report.type,
+          targetId: report.targetId,
+          action: `sent you a warning: ${data.message || data.reason}`
+        });
+        break;
+    }
+
+    // Content held by the filter goes back up unless it was taken down
+    const released = data.action !== 'remove_content' && report.target?.status === 'held';
+    if (released) {
+      await this.releaseContent(report.type, report.targetId);
+    }
+
+    const resolved = await this.db.prepare(`
+      UPDATE reports SET status = 'resolved', resolution = ?, reviewed_by = ?, resolved_at = ?
+      WHERE type = ? AND target_id = ? AND status = 'pending'
+    `).bind(data.action, adminId, new Date().toISOString(), report.type, report.targetId).run();
+
+    await this.logAction(adminId, {
+      action: data.action === 'none' ? 'report_resolved' : data.action,
+      targetType: data.action === 'deactivate_user' || data.action === 'warn' ? 'user' : report.type,
+      targetId: data.action === 'deactivate_user' || data.action === 'warn' ? authorId! : report.targetId,
+      reportId,
+      reason: data.reason,
+      details: {
+        reportType: report.type,
+        reportTargetId: report.targetId,
+        resolvedReports: resolved.meta.changes,
+        message: data.message,
+        released
+      }
+    });
+  }
+
+  // A dismissed report on held content releases it
+  async dismissReport(reportId: string, adminId: string, reason: string): Promise<void> {
+    const report = await this.getReport(reportId);
+
+    if (!report) {
+      throw new Error('Report not found');
+    }
+    if (report.status !== 'pending') {
+      throw new Error('Report is already closed');
+    }
+
+    await this.db.prepare(`
+      UPDATE reports SET status = 'dismissed', reviewed_by = ?, resolved_at = ?
+      WHERE id = ?
+    `).bind(adminId, new Date().toISOString(), reportId).run();
+
+    const released = report.target?.status === 'held';
+    if (released) {
+      await this.releaseContent(report.type, report.targetId);
+    }
+
+    await this.logAction(adminId, {
+      action: 'report_dismissed',
+      targetType: report.type,
+      targetId: report.targetId,
+      reportId,
+      reason,
+      details: released ? { released } : undefined
+    });
+  }
+
+  // Everyone holding a role other than 'user'
+  async listStaff(): Promise<StaffMember[]> {
+    const staff = await this.db.prepare(`
+      SELECT id, username, email, role, is_active
+      FROM users
+      WHERE role != 'user'
+      ORDER BY role, username
+    `).all();
+
+    return staff.results.map((member: any) => ({
+      id: member.id,
+      username: member.username,
+      email: member.email,
+      role: member.role,
+      isActive: Boolean(member.is_active)
+    }));
+  }
+
+  async setUserRole(adminId: string, userId: string, role: PlatformRole, reason: string): Promise<void> {
+    if (adminId === userId) {
+      throw new Error('You cannot change your own role');
+    }
+
+    const user = await this.db.prepare(`
+      SELECT role, auth_provider_id FROM users WHERE id = ?
+    `).bind(userId).first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const previousRole = (user.role as PlatformRole) || 'user';
+    if (previousRole === role) {
+      throw new Error(`User already has the ${role} role`);
+    }
+
+    await this.db.prepare(`
+      UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).bind(role, userId).run();
+
+    // Takes effect on the user's next request, not when the cache expires
+    if (user.auth_provider_id) {
+      await this.tokens.invalidateUser(user.auth_provider_id as string);
+    }
+
+    await this.logAction(adminId, {
+      action: 'role_changed',
+      targetType: 'user',
+      targetId: userId,
+      reason,
+      details: { previousRole, role }
+    });
+  }
+
+  // Every token the user holds stops working; they have to sign in again
+  async revokeSessions(adminId: string, userId: string, reason: string): Promise<void> {
+    const user = await this.db.prepare(`
+      SELECT id FROM users WHERE id = ?
+    `).bind(userId).first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await this.getSessionService().revokeAll(userId);
+
+    await this.logAction(adminId, {
+      action: 'sessions_revoked',
+      targetType: 'user',
+      targetId: userId,
+      reason
+    });
+  }
+
+  async listAuditLog(options: {
+    adminId?: string;
+    targetType?: string;
+    targetId?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ entries: AdminAuditEntry[]; hasMore: boolean }> {
+    const offset = (options.page - 1) * options.limit;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.adminId) {
+      conditions.push('l.admin_id = ?');
+      params.push(options.adminId);
+    }
+    if (options.targetType) {
+      conditions.push('l.target_type = ?');
+      params.push(options.targetType);
+    }
+    if (options.targetId) {
+      conditions.push('l.target_id = ?');
+      params.push(options.targetId);
+    }
+
+    const entries = await this.db.prepare(`
+      SELECT l.*, u.username as admin_username
+      FROM admin_audit_log l
+      LEFT JOIN users u ON l.admin_id = u.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY l.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, options.limit + 1, offset).all();
+
+    return {
+      entries: entries.results.slice(0, options.limit).map((entry: any) => ({
+        id: entry.id,
+        admin: {
+          id: entry.admin_id,
+          username: entry.admin_username || undefined
+        },
+        action: entry.action,
+        targetType: entry.target_type,
+        targetId: entry.target_id,
+        reportId: entry.report_id || undefined,
+        reason: entry.reason || undefined,
+        details: entry.details ? JSON.parse(entry.details) : undefined,
+        createdAt: entry.created_at
+      })),
+      hasMore: entries.results.length > options.limit
+    };
+  }
+
+  async logAction(
+    adminId: string,
+    entry: {
+      action: string;
+      targetType: string;
+      targetId: string;
+      reportId?: string;
+      reason?: string;
+      details?: any;
+    }
+  ): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO admin_audit_log (id, admin_id, action, target_type, target_id, report_id, reason, details, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      nanoid(),
+      adminId,
+      entry.action,
+      entry.targetType,
+      entry.targetId,
+      entry.reportId || null,
+      entry.reason || null,
+      entry.details ? JSON.stringify(entry.details) : null,
+      new Date().toISOString()
+    ).run();
+  }
+
+  // Soft deletes, matching what each content type's own delete does
+  private async removeContent(type: ReportType, targetId: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    switch (type) {
+      case 'flick':
+        await this.db.prepare(`
+          UPDATE flicks SET status = 'deleted', updated_at = ? WHERE id = ?
+        `).bind(now, targetId).run();
+        await this.cache.delete(`flick:${targetId}`);
+        break;
+
+      case 'comment': {
+        const comment = await this.db.prepare(`
+          SELECT flick_id FROM flick_comments WHERE id = ?
+        `).bind(targetId).first();
+
+        await this.db.batch([
+          this.db.prepare(`
+            UPDATE flick_comments SET is_deleted = 1, updated_at = ? WHERE id = ?
+          `).bind(now, targetId),
+          this.db.prepare(`
+            UPDATE flick_analytics SET comments = MAX(0, comments - 1) WHERE flick_id = ?
+          `).bind(comment?.flick_id || null)
+        ]);
+        break;
+      }
+
+      case 'post':
+        await this.db.prepare(`
+          UPDATE posts SET status = 'removed', is_pinned = 0, pinned_at = NULL, updated_at = ? WHERE id = ?
+        `).bind(now, targetId).run();
+        await this.cache.delete(`post:${targetId}`);
+        break;
+
+      case 'post_comment': {
+        const comment = await this.db.prepare(`
+          SELECT post_id FROM post_comments WHERE id = ?
+        `).bind(targetId).first();
+
+        await this.db.batch([
+          this.db.prepare(`
+            UPDATE post_comments SET status = 'removed' WHERE id = ?
+          `).bind(targetId),
+          this.db.prepare(`
+            UPDATE posts SET comments_count = MAX(0, comments_count - 1) WHERE id = ?
+          `).bind(comment?.post_id || null)
+        ]);
+        await this.cache.delete(`post:comments:${comment?.post_id}`);
+        break;
+      }
+    }
+  }
+
+  // Puts content held by the content filter back up, along with what was
+  // held back with it: mentions, hashtags and clan reputation
+  private async releaseContent(type: ReportType, targetId: string): Promise<void> {
+    const mentions = new MentionService(this.db, this.getNotificationService());
+    const hashtags = new HashtagService(this.db);
+    const reputation = new ClanReputationService(this.db, this.cache);
+
+    switch (type) {
+      case 'flick': {
+        const flick = await this.db.prepare(`
+          SELECT user_id, title, description, hashtags, created_at FROM flicks WHERE id = ?
+        `).bind(targetId).first();
+
+        await this.db.prepare(`
+          UPDATE flicks SET is_held = 0 WHERE id = ?
+        `).bind(targetId).run();
+        await this.cache.delete(`flick:${targetId}`);
+
+        if (flick) {
+          await mentions.syncMentions('flick', targetId, flick.user_id as string, {
+            title: flick.title as string,
+            description: flick.description as string | null
+          });
+          await hashtags.syncHashtags(
+            'flick', targetId, JSON.parse((flick.hashtags as string) || '[]'), flick.created_at as string
+          );
+        }
+        break;
+      }
+
+      case 'comment': {
+        const comment = await this.db.prepare(`
+          SELECT user_id, content FROM flick_comments WHERE id = ?
+        `).bind(targetId).first();
+
+        await this.db.prepare(`
+          UPDATE flick_comments SET is_held = 0 WHERE id = ?
+        `).bind(targetId).run();
+
+        if (comment) {
+          await mentions.syncMentions('flick_comment', targetId, comment.user_id as string, {
+            content: comment.content as string
+          });
+        }
+        break;
+      }
+
+      case 'post': {
+        const post = await this.db.prepare(`
+          SELECT user_id, content, clan_id, created_at FROM posts WHERE id = ?
+        `).bind(targetId).first();
+
+        await this.db.prepare(`
+          UPDATE posts SET status = 'active' WHERE id = ? AND status = 'held'
+        `).bind(targetId).run();
+        await this.cache.delete(`post:${targetId}`);
+
+        if (post) {
+          await mentions.syncMentions('post', targetId, post.user_id as string, { content: post.content as string });
+          await hashtags.syncHashtags(
+            'post', targetId, extractHashtags(post.content as string), post.created_at as string
+          );
+
+          // Posts held from the start haven't scored yet
+          if (post.clan_id && !(await reputation.hasEvent(targetId, 'post_created'))) {
+            await reputation.recordEvent(post.clan_id as string, post.user_id as string, 'post_created', {
+              sourceId: targetId
+            });
+          }
+        }
+        break;
+      }
+
+      case 'post_comment': {
+        const comment = await this.db.prepare(`
+          SELECT pc.post_id, pc.user_id, pc.content, p.clan_id
+          FROM post_comments pc
+          LEFT JOIN posts p ON pc.post_id = p.id
+          WHERE pc.id = ?
+        `).bind(targetId).first();
+
+        await this.db.prepare(`
+          UPDATE post_comments SET status = 'active' WHERE id = ? AND status = 'held'
+        `).bind(targetId).run();
+        await this.cache.delete(`post:comments:${comment?.post_id}`);
+
+        if (comment) {
+          await mentions.syncMentions('post_comment', targetId, comment.user_id as string, {
+            content: comment.content as string
+          });
+
+          if (comment.clan_id && !(await reputation.hasEvent(targetId, 'comment_created'))) {
+            await reputation.recordEvent(comment.clan_id as string, comment.user_id as string, 'comment_created', {
+              sourceId: targetId
+            });
+            await reputation.recordPostInteraction(comment.post_id as string, comment.user_id as string, 'comment_received', {
+              sourceId: targetId
+            });
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  // Deactivated users can't sign in and their current tokens stop working;
+  // clans they founded are handed over
+  private async deactivateUser(userId: string): Promise<void> {
+    const user = await this.db.prepare(`
+      SELECT role, is_active, auth_provider_id FROM users WHERE id = ?
+    `).bind(userId).first();
+
+    if (!user) {
+      throw new Error('Reported user not found');
+    }
+    if (user.role === 'admin') {
+      throw new Error('Cannot deactivate an admin');
+    }
+    if (!user.is_active) {
+      throw new Error('User is already deactivated');
+    }
+
+    await this.db.prepare(`
+      UPDATE users SET is_active = 0, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).bind(userId).run();
+
+    if (user.auth_provider_id) {
+      await this.tokens.invalidateUser(user.auth_provider_id as string);
+    }
+    await this.getSessionService().revokeAll(userId);
+
+    await new ClanService(this.db, this.cache).succeedInactiveFounders(userId);
+  }
+
+  // One row per report with its target joined in. Comments on flicks are
+  // reported as 'comment', comments on posts as 'post_comment'
+  private reportSelect(): string {
+    return `
+      SELECT
+        r.*,
+        ru.username as reporter_username,
+        COALESCE(f.user_id, fc.user_id, p.user_id, pc.user_id, cl.founder_id, tu.id) as target_author_id,
+        au.username as target_author_username,
+        au.is_active as target_author_active,
+        COALESCE(f.title, cl.display_name) as target_title,
+        COALESCE(f.description, fc.content, p.content, pc.content, cl.description, tu.bio) as target_content,
+        CASE r.type
+          WHEN 'flick' THEN CASE WHEN f.status = 'active' AND f.is_held = 1 THEN 'held' ELSE f.status END
+          WHEN 'comment' THEN CASE WHEN fc.is_deleted = 1 THEN 'deleted' WHEN fc.is_held = 1 THEN 'held' ELSE 'active' END
+          WHEN 'post' THEN COALESCE(p.status, 'active')
+          WHEN 'post_comment' THEN COALESCE(pc.status, 'active')
+          WHEN 'clan' THEN CASE WHEN cl.is_active = 1 THEN 'active' ELSE 'suspended' END
+          WHEN 'user' THEN CASE WHEN tu.is_active = 1 THEN 'active' ELSE 'deactivated' END
+        END as target_status,
+        COALESCE(f.id, fc.id, p.id, pc.id, cl.id, tu.id) as target_found,
+        (
+          SELECT COUNT(*) FROM reports r2
+          WHERE r2.type = r.type AND r2.target_id = r.target_id AND r2.status = 'pending'
+        ) as pending_reports
+      FROM reports r
+      LEFT JOIN users ru ON r.reporter_id = ru.id
+      LEFT JOIN flicks f ON r.type = 'flick' AND f.id = r.target_id
+      LEFT JOIN flick_comments fc ON r.type = 'comment' AND fc.id = r.target_id
+      LEFT JOIN posts p ON r.type = 'post' AND p.id = r.target_id
+      LEFT JOIN post_comments pc ON r.type = 'post_comment' AND pc.id = r.target_id
+      LEFT JOIN clans cl ON r.type = 'clan' AND cl.id = r.target_id
+      LEFT JOIN users tu ON r.type = 'user' AND tu.id = r.target_id
+      LEFT JOIN users au ON au.id = COALESCE(f.user_id, fc.user_id, p.user_id, pc.user_id, cl.founder_id, tu.id)
+    `;
+  }
+
+  private formatReport(report: any): AdminReport {
+    return {
+      id: report.id,
+      type: report.type,
+      targetId: report.target_id,
+      reason: report.reason,
+      description: report.description || undefined,
+      status: report.status,
+      resolution: report.resolution || undefined,
+      clanId: report.clan_id || undefined,
+      reporter: {
+        id: report.reporter_id,
+        username: report.reporter_username || undefined
+      },
+      pendingReports: report.pending_reports || 0,
+      target: report.target_found
+        ? {
+            authorId: report.target_author_id || undefined,
+            authorUsername: report.target_author_username || undefined,
+            authorActive: report.target_author_active === null ? undefined : Boolean(report.target_author_active),
+            title: report.target_title || undefined,
+            content: report.target_content || undefined,
+            status: report.target_status
+          }
+        : null,
+      reviewedBy: report.reviewed_by || undefined,
+      createdAt: report.created_at,
+      resolvedAt: report.resolved_at || undefined
+    };
+  }
+
+  private getNotificationService(): NotificationService {
+    return this.notifications ?? new NotificationService(this.db, this.cache);
+  }
+
+  private getSessionService(): SessionService {
+    return this.sessions ?? new SessionService(this.db, this.cache);
+  }
+}
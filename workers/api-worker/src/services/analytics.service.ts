@@ -1,6 +1,7 @@
 // workers/api-worker/src/services/analytics.service.ts
 
 import { nanoid } from 'nanoid';
+import { HashtagService } from './hashtag.service';
 
 export class AnalyticsService {
   constructor(
@@ -214,67 +215,7 @@ export class AnalyticsService {
   }
 
   async getTrendingHashtags(period: string = '7d') {
-    let dateFilter = '';
-    switch (period) {
-      case '24h':
-        dateFilter = "WHERE f.created_at >= datetime('now', '-1 day')";
-        break;
-      case '7d':
-        dateFilter = "WHERE f.created_at >= datetime('now', '-7 days')";
-        break;
-      case '30d':
-        dateFilter = "WHERE f.created_at >= datetime('now', '-30 days')";
-        break;
-    }
-
-    // Get flicks with hashtags
-    const flicksWithTags = await this.db.prepare(`
-      SELECT 
-        f.hashtags,
-        fa.views,
-        fa.likes,
-        fa.comments,
-        fa.shares,
-        fa.saves
-      FROM flicks f
-      LEFT JOIN flick_analytics fa ON f.id = fa.flick_id
-      ${dateFilter}
-      ${dateFilter ? 'AND' : 'WHERE'} f.status = 'active' AND f.hashtags IS NOT NULL
-    `).all();
-
-    // Parse and aggregate hashtags
-    const tagMap = new Map<string, { count: number; engagement: number; views: number }>();
-    
-    flicksWithTags.results.forEach((row: any) => {
-      try {
-        const tags = JSON.parse(row.hashtags);
-        const engagement = (row.likes || 0) + (row.comments || 0) * 2 + (row.shares || 0) * 3 + (row.saves || 0) * 2;
-        
-        tags.forEach((tag: string) => {
-          const existing = tagMap.get(tag) || { count: 0, engagement: 0, views: 0 };
-          tagMap.set(tag, {
-            count: existing.count + 1,
-            engagement: existing.engagement + engagement,
-            views: existing.views + (row.views || 0),
-          });
-        });
-      } catch (e) {
-        // Skip invalid JSON
-      }
-    });
-
-    const sortedTags = Array.from(tagMap.entries())
-      .map(([tag, data]) => ({
-        tag,
-        count: data.count,
-        engagement: data.engagement,
-        views: data.views,
-        score: data.engagement + data.views * 0.1, // Weighted score
-      }))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 20);
-
-    return sortedTags;
+    return new HashtagService(this.db).getTrending(period);
   }
 
   async getTrendingFlicks(period: string = '24h', limit: number = 20) {
@@ -0,0 +1,240 @@
+// workers/api-worker/src/services/authToken.service.ts
+
+import jwt from '@tsndr/cloudflare-worker-jwt';
+import type { KVNamespace } from '@cloudflare/workers-types';
+import type { Env, PlatformRole } from '../types';
+
+// Claims we rely on in a Supabase access token
+export interface AccessTokenClaims {
+  sub: string;
+  email: string;
+  exp: number;
+  iat?: number;
+  session_id?: string;
+  jti?: string;
+  // How the session was signed in to, e.g. 'password', 'otp', 'recovery'
+  amr?: Array<{ method: string; timestamp: number }>;
+  user_metadata?: Record<string, any>;
+}
+
+export type TokenVerification =
+  | { status: 'valid'; claims: AccessTokenClaims }
+  | { status: 'expired' }
+  | { status: 'invalid'; reason: string };
+
+// What authMiddleware needs about the D1 user behind a token
+export interface CachedAuthUser {
+  id: string;
+  email: string;
+  username: string;
+  role: PlatformRole;
+  isActive: boolean;
+}
+
+const JWKS_CACHE_KEY = 'auth:jwks';
+const JWKS_CACHE_TTL = 60 * 60; // 1 hour
+
+// A token signed with a kid we don't know usually means the keys were
+// rotated; refetch, but not more than once a minute
+const JWKS_REFETCH_COOLDOWN_MS = 60 * 1000;
+
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+// Short, so role changes, deactivations and email changes that skip
+// invalidateUser() still take effect quickly
+const USER_CACHE_TTL = 60;
+
+// Upper bound on an access token's lifetime. "Sign out everywhere" only
+// has to outlive the tokens issued before it
+export const MAX_TOKEN_LIFETIME_SECONDS = 24 * 60 * 60;
+
+// KV refuses expirationTtl under 60 seconds
+const MIN_KV_TTL = 60;
+
+// How recently a recovery or OTP sign-in must have happened for its
+// tokens to set a new password
+const RECOVERY_MAX_AGE_SECONDS = 60 * 60;
+
+type Jwk = JsonWebKey & { kid?: string };
+
+// Per-isolate copy so most requests don't touch KV for the keys. A failed
+// fetch is recorded too (fetchedAt), so it's retried after the cooldown
+// rather than on every request
+let jwksMemo: { keys: Jwk[]; fetchedAt: number } | null = null;
+
+// Verifies access tokens locally (no call to Supabase) and keeps the
+// auth-related state in KV: the signing keys, the resolved D1 user and
+// the revocation list
+export class AuthTokenService {
+  constructor(
+    private cache: KVNamespace,
+    private options: { supabaseUrl?: string; jwtSecret?: string } = {}
+  ) {}
+
+  async verify(token: string): Promise<TokenVerification> {
+    let header: { alg?: string; kid?: string };
+    try {
+      header = jwt.decode(token).header as { alg?: string; kid?: string };
+    } catch {
+      return { status: 'invalid', reason: 'Malformed token' };
+    }
+
+    // The algorithm comes from the key, never from the token alone
+    let key: string | JsonWebKeyWithKid;
+    let algorithm: string;
+
+    if (!this.options.supabaseUrl) {
+      return { status: 'invalid', reason: 'Token verification is not configured' };
+    }
+
+    if (header.alg === 'HS256') {
+      if (!this.options.jwtSecret) {
+        return { status: 'invalid', reason: 'HS256 tokens are not accepted' };
+      }
+      key = this.options.jwtSecret;
+      algorithm = 'HS256';
+    } else {
+      const jwk = header.kid ? await this.getSigningKey(header.kid) : null;
+      if (!jwk) {
+        return { status: 'invalid', reason: 'Unknown signing key' };
+      }
+      key = jwk;
+      algorithm = jwk.alg || (jwk.kty === 'EC' ? 'ES256' : 'RS256');
+    }
+
+    let payload: Record<string, any>;
+    try {
+      const verified = await jwt.verify(token, key, {
+        algorithm,
+        clockTolerance: CLOCK_TOLERANCE_SECONDS,
+        throwError: true
+      });
+      payload = verified!.payload as Record<string, any>;
+    } catch (error: any) {
+      if (error?.message === 'EXPIRED') {
+        return { status: 'expired' };
+      }
+      return { status: 'invalid', reason: error?.message || 'Invalid signature' };
+    }
+
+    if (payload.iss !== `${this.options.supabaseUrl}/auth/v1`) {
+      return { status: 'invalid', reason: 'Unexpected issuer' };
+    }
+
+    const audience = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audience.includes('authenticated')) {
+      return { status: 'invalid', reason: 'Unexpected audience' };
+    }
+
+    if (!payload.sub || !payload.email || !payload.exp) {
+      return { status: 'invalid', reason: 'Missing claims' };
+    }
+
+    return { status: 'valid', claims: payload as AccessTokenClaims };
+  }
+
+  // Revoked sessions, plus tokens issued before a user-wide revocation
+  async isRevoked(claims: AccessTokenClaims, userId: string): Promise<boolean> {
+    const sessionKey = this.sessionKey(claims);
+    if (sessionKey && await this.cache.get(`auth:revoked:${sessionKey}`)) {
+      return true;
+    }
+
+    const revokedBefore = await this.cache.get(`auth:revoked_before:${userId}`);
+    return !!revokedBefore && (claims.iat || 0) <= parseInt(revokedBefore);
+  }
+
+  // Kept only until the token would have expired anyway
+  async revokeSession(claims: AccessTokenClaims): Promise<void> {
+    const sessionKey = this.sessionKey(claims);
+    if (!sessionKey) return;
+
+    const ttl = Math.max(claims.exp - Math.floor(Date.now() / 1000) + CLOCK_TOLERANCE_SECONDS, MIN_KV_TTL);
+    await this.cache.put(`auth:revoked:${sessionKey}`, '1', { expirationTtl: ttl });
+  }
+
+  // Every token the user holds right now stops working
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.cache.put(
+      `auth:revoked_before:${userId}`,
+      String(Math.floor(Date.now() / 1000)),
+      { expirationTtl: MAX_TOKEN_LIFETIME_SECONDS }
+    );
+  }
+
+  // Keyed by the Supabase user id (the token's sub)
+  async getCachedUser(sub: string): Promise<CachedAuthUser | null> {
+    const cached = await this.cache.get(`auth:user:${sub}`);
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  async cacheUser(sub: string, user: CachedAuthUser): Promise<void> {
+    await this.cache.put(`auth:user:${sub}`, JSON.stringify(user), { expirationTtl: USER_CACHE_TTL });
+  }
+
+  async invalidateUser(sub: string): Promise<void> {
+    await this.cache.delete(`auth:user:${sub}`);
+  }
+
+  // Supabase puts the session id in every access token; jti is a fallback
+  private sessionKey(claims: AccessTokenClaims): string | null {
+    return claims.session_id || claims.jti || null;
+  }
+
+  private async getSigningKey(kid: string): Promise<JsonWebKeyWithKid | null> {
+    let jwks = jwksMemo;
+
+    if (!jwks || Date.now() - jwks.fetchedAt > JWKS_CACHE_TTL * 1000) {
+      const cached = await this.cache.get(JWKS_CACHE_KEY);
+      jwks = cached ? JSON.parse(cached) as { keys: Jwk[]; fetchedAt: number } : await this.fetchJwks(jwks);
+      jwksMemo = jwks;
+    }
+
+    let key = jwks.keys.find((k): k is JsonWebKeyWithKid => k.kid === kid);
+    if (!key && Date.now() - jwks.fetchedAt > JWKS_REFETCH_COOLDOWN_MS) {
+      jwks = await this.fetchJwks(jwks);
+      jwksMemo = jwks;
+      key = jwks.keys.find((k): k is JsonWebKeyWithKid => k.kid === kid);
+    }
+
+    return key || null;
+  }
+
+  // On failure the keys we already have are kept, stamped with the time of
+  // the attempt
+  private async fetchJwks(
+    previous: { keys: Jwk[]; fetchedAt: number } | null
+  ): Promise<{ keys: Jwk[]; fetchedAt: number }> {
+    try {
+      const response = await fetch(`${this.options.supabaseUrl}/auth/v1/.well-known/jwks.json`);
+      if (!response.ok) {
+        throw new Error(`JWKS request failed with ${response.status}`);
+      }
+
+      const body = await response.json() as { keys?: Jwk[] };
+      const jwks = { keys: body.keys || [], fetchedAt: Date.now() };
+
+      await this.cache.put(JWKS_CACHE_KEY, JSON.stringify(jwks), { expirationTtl: JWKS_CACHE_TTL });
+      return jwks;
+    } catch (error) {
+      console.error('Failed to fetch JWKS:', error);
+      return { keys: previous?.keys || [], fetchedAt: Date.now() };
+    }
+  }
+}
+
+// Whether the token's session started from a password recovery or email
+// OTP link within the last hour, rather than from a normal sign-in
+export function isRecoveryToken(claims: AccessTokenClaims): boolean {
+  const since = Math.floor(Date.now() / 1000) - RECOVERY_MAX_AGE_SECONDS;
+  return !!claims.amr?.some(entry =>
+    (entry.method === 'recovery' || entry.method === 'otp') && entry.timestamp >= since
+  );
+}
+
+export function createAuthTokenService(env: Env): AuthTokenService {
+  return new AuthTokenService(env.CACHE, {
+    supabaseUrl: env.SUPABASE_URL,
+    jwtSecret: env.SUPABASE_JWT_SECRET
+  });
+}
@@ -0,0 +1,284 @@
+// workers/api-worker/src/services/authUser.service.ts
+
+import { customAlphabet, nanoid } from 'nanoid';
+import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import type { Env, PlatformRole } from '../types';
+import { AuthTokenService, type CachedAuthUser } from './authToken.service';
+import {
+  createSupabaseAuthClient,
+  type SocialProvider,
+  type SupabaseAuthClient,
+  type SupabaseIdentity
+} from './supabaseAuth.service';
+import { usernameSchema } from '../utils/validation';
+
+// The Supabase auth user a request comes from. `sub` is the stable part;
+// the email can change on the Supabase side at any time
+export interface AuthIdentity {
+  sub: string;
+  email: string;
+  user_metadata?: Record<string, any>;
+}
+
+export interface LinkAccountsResult {
+  scanned: number;
+  linked: number;
+  hasMore: boolean;
+}
+
+export interface LinkedIdentity {
+  provider: SocialProvider;
+  email?: string;
+  isPrivateRelay: boolean;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+const USER_COLUMNS = 'id, email, username, is_active, role, auth_provider_id';
+
+// "Hide my email" addresses from Sign in with Apple
+const APPLE_PRIVATE_RELAY_DOMAIN = '@privaterelay.appleid.com';
+
+export function isPrivateRelayEmail(email?: string | null): boolean {
+  return !!email && email.toLowerCase().endsWith(APPLE_PRIVATE_RELAY_DOMAIN);
+}
+
+const USERNAME_MAX_LENGTH = 20;
+
+const randomUsernamePart = customAlphabet('0123456789abcdefghijklmnopqrstuvwxyz', 6);
+
+// `text` as a valid username, or null when too little of it is left,
+// e.g. a name written in a script other than Latin
+function toUsername(text: string | undefined | null): string | null {
+  if (!text) return null;
+  if (usernameSchema.safeParse(text).success) return text;
+
+  // NFKD splits accents off ("José" -> "Jose" + accent), which are dropped
+  const username = text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+/, '')
+    .slice(0, USERNAME_MAX_LENGTH)
+    .replace(/_+$/, '');
+  return usernameSchema.safeParse(username).success ? username : null;
+}
+
+// Username for a new social account: from the person's name when we have
+// it, else the email (unless it's a random relay address), else random.
+// Collisions are handled on insert
+export function suggestUsername(fullName: string | undefined, email: string): string {
+  return toUsername(fullName) ||
+    (isPrivateRelayEmail(email) ? null : toUsername(email.split('@')[0])) ||
+    `user_${randomUsernamePart()}`;
+}
+
+// Maps Supabase auth users onto our users rows by users.auth_provider_id,
+// provisioning and linking them as needed
+export class AuthUserService {
+  private tokens: AuthTokenService;
+
+  constructor(
+    private db: D1Database,
+    private cache: KVNamespace,
+    private supabase?: SupabaseAuthClient
+  ) {
+    this.tokens = new AuthTokenService(cache);
+  }
+
+  // Our user for a Supabase identity. Accounts from before auth_provider_id
+  // are linked by email on first sight; unknown identities get a new user.
+  // Deactivated users are returned as well, the caller turns them away
+  async resolve(identity: AuthIdentity): Promise<CachedAuthUser> {
+    const email = identity.email.toLowerCase();
+
+    const user = await this.findByProviderId(identity.sub);
+    if (user) {
+      return user.email === email ? user : this.syncEmail(identity.sub, user, email);
+    }
+
+    const legacy = await this.db.prepare(`
+      SELECT id, auth_provider_id FROM users WHERE email = ?
+    `).bind(email).first();
+
+    if (legacy) {
+      if (legacy.auth_provider_id) {
+        throw new Error('Email is linked to another account');
+      }
+
+      await this.db.prepare(`
+        UPDATE users SET auth_provider_id = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND auth_provider_id IS NULL
+      `).bind(identity.sub, legacy.id).run();
+
+      // A concurrent request may have linked it first; either way it's ours now
+      const linked = await this.findByProviderId(identity.sub);
+      if (!linked) {
+        throw new Error('Email is linked to another account');
+      }
+      return linked;
+    }
+
+    return this.provision(identity, email);
+  }
+
+  // Whether resolve() would find an account (by Supabase id or email)
+  // rather than create one
+  async hasAccount(sub: string, email: string): Promise<boolean> {
+    const user = await this.db.prepare(`
+      SELECT id FROM users WHERE auth_provider_id = ? OR email = ? LIMIT 1
+    `).bind(sub, email.toLowerCase()).first();
+
+    return !!user;
+  }
+
+  // Remembers that the user signs in with this provider. An identity
+  // recorded for another user is left alone
+  async recordIdentity(userId: string, provider: SocialProvider, identity: SupabaseIdentity): Promise<void> {
+    const email = (identity.identity_data?.email as string | undefined)?.toLowerCase() || null;
+
+    await this.db.prepare(`
+      INSERT INTO user_identities (id, user_id, provider, provider_user_id, email, is_private_relay, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT (provider, provider_user_id) DO UPDATE SET
+        email = COALESCE(excluded.email, user_identities.email),
+        is_private_relay = excluded.is_private_relay,
+        last_used_at = CURRENT_TIMESTAMP
+      WHERE user_identities.user_id = excluded.user_id
+    `).bind(
+      nanoid(),
+      userId,
+      provider,
+      identity.id,
+      email,
+      isPrivateRelayEmail(email) ? 1 : 0
+    ).run();
+  }
+
+  async listIdentities(userId: string): Promise<LinkedIdentity[]> {
+    const identities = await this.db.prepare(`
+      SELECT provider, email, is_private_relay, created_at, last_used_at
+      FROM user_identities
+      WHERE user_id = ?
+      ORDER BY created_at
+    `).bind(userId).all();
+
+    return identities.results.map((identity: any) => ({
+      provider: identity.provider,
+      email: identity.email || undefined,
+      isPrivateRelay: !!identity.is_private_relay,
+      createdAt: identity.created_at,
+      lastUsedAt: identity.last_used_at
+    }));
+  }
+
+  // Drops the cached auth user after a change to their row
+  async invalidate(userId: string): Promise<void> {
+    const user = await this.db.prepare(`
+      SELECT auth_provider_id FROM users WHERE id = ?
+    `).bind(userId).first();
+
+    if (user?.auth_provider_id) {
+      await this.tokens.invalidateUser(user.auth_provider_id as string);
+    }
+  }
+
+  // Links one page of Supabase auth users to existing accounts by email.
+  // Needs the service key; safe to run repeatedly
+  async linkAccounts(page: number, perPage: number): Promise<LinkAccountsResult> {
+    if (!this.supabase) {
+      throw new Error('Supabase service key is not configured');
+    }
+
+    const users = await this.supabase.listUsers(page, perPage);
+    const authUsers = users.filter(u => u.email);
+
+    let linked = 0;
+    if (authUsers.length > 0) {
+      const results = await this.db.batch(authUsers.map(u =>
+        this.db.prepare(`
+          UPDATE users SET auth_provider_id = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE email = ? AND auth_provider_id IS NULL
+            AND NOT EXISTS (SELECT 1 FROM users WHERE auth_provider_id = ?)
+        `).bind(u.id, u.email!.toLowerCase(), u.id)
+      ));
+      linked = results.reduce((sum, result) => sum + (result.meta.changes || 0), 0);
+    }
+
+    return {
+      scanned: users.length,
+      linked,
+      hasMore: users.length === perPage
+    };
+  }
+
+  private async findByProviderId(sub: string): Promise<CachedAuthUser | null> {
+    const user = await this.db.prepare(`
+      SELECT ${USER_COLUMNS} FROM users WHERE auth_provider_id = ?
+    `).bind(sub).first();
+
+    return user ? this.formatUser(user) : null;
+  }
+
+  // The email was changed in Supabase. If another account already holds
+  // the new address we keep the old one rather than fail the request
+  private async syncEmail(sub: string, user: CachedAuthUser, email: string): Promise<CachedAuthUser> {
+    const taken = await this.db.prepare(`
+      SELECT id FROM users WHERE email = ? AND id != ?
+    `).bind(email, user.id).first();
+
+    if (taken) {
+      console.error('Email change not synced, address in use:', user.id, email);
+      return user;
+    }
+
+    await this.db.prepare(`
+      UPDATE users SET email = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).bind(email, user.id).run();
+
+    await this.cache.delete(`user:${user.id}`);
+    await this.tokens.invalidateUser(sub);
+
+    return { ...user, email };
+  }
+
+  // INSERT OR IGNORE plus the unique auth_provider_id make this safe to
+  // race: whichever request inserts first wins, the others read its row.
+  // A taken username is retried once with a random suffix, shortened to
+  // stay within the 20 characters
+  private async provision(identity: AuthIdentity, email: string): Promise<CachedAuthUser> {
+    const username = toUsername(identity.user_metadata?.username) || suggestUsername(undefined, email);
+    const suffix = `_${randomUsernamePart()}`;
+
+    for (const candidate of [username, username.slice(0, USERNAME_MAX_LENGTH - suffix.length) + suffix]) {
+      const result = await this.db.prepare(`
+        INSERT OR IGNORE INTO users (
+          id, email, username, password_hash, auth_provider_id,
+          is_active, is_verified, created_at, updated_at
+        ) VALUES (?, ?, ?, 'supabase_auth', ?, 1, 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      `).bind(nanoid(), email, candidate, identity.sub).run();
+
+      const user = await this.findByProviderId(identity.sub);
+      if (user) {
+        if (result.meta.changes > 0) {
+          console.log('Created new user:', user.id, email);
+        }
+        return user;
+      }
+    }
+
+    throw new Error('Failed to create user');
+  }
+
+  private formatUser(user: Record<string, unknown>): CachedAuthUser {
+    return {
+      id: user.id as string,
+      email: user.email as string,
+      username: user.username as string,
+      role: (user.role as PlatformRole) || 'user',
+      isActive: !!user.is_active
+    };
+  }
+}
+
+export function createAuthUserService(env: Env): AuthUserService {
+  return new AuthUserService(env.DB, env.CACHE, createSupabaseAuthClient(env));
+}
@@ -0,0 +1,192 @@
+// workers/api-worker/src/services/block.service.ts
+
+import type { D1Database } from '@cloudflare/workers-types';
+
+export interface BlockedUser {
+  id: string;
+  username: string;
+  profileImage: string | null;
+  since: string;
+}
+
+// SQL condition that drops rows authored by users hidden from the viewer:
+// anyone they blocked, anyone who blocked them and (optionally) anyone
+// they muted. `column` is the author column, e.g. 'p.user_id'
+export function hiddenUsersFilter(
+  column: string,
+  viewerId: string,
+  options: { includeMuted?: boolean } = {}
+): { sql: string; params: string[] } {
+  const includeMuted = options.includeMuted ?? true;
+
+  const sql = `${column} NOT IN (
+    SELECT blocked_id FROM user_blocks WHERE blocker_id = ?
+    UNION
+    SELECT blocker_id FROM user_blocks WHERE blocked_id = ?
+    ${includeMuted ? 'UNION SELECT muted_id FROM user_mutes WHERE muter_id = ?' : ''}
+  )`;
+
+  return {
+    sql,
+    params: includeMuted ? [viewerId, viewerId, viewerId] : [viewerId, viewerId]
+  };
+}
+
+export class BlockService {
+  constructor(private db: D1Database) {}
+
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    if (blockerId === blockedId) {
+      throw new Error('Cannot block yourself');
+    }
+
+    const target = await this.db.prepare(
+      'SELECT id FROM users WHERE id = ?'
+    ).bind(blockedId).first();
+
+    if (!target) {
+      throw new Error('User not found');
+    }
+
+    // Blocking ends follows in both directions
+    const follows = await this.db.prepare(`
+      SELECT follower_id, following_id FROM follows
+      WHERE (follower_id = ? AND following_id = ?)
+         OR (follower_id = ? AND following_id = ?)
+    `).bind(blockerId, blockedId, blockedId, blockerId).all();
+
+    const statements = [
+      this.db.prepare(`
+        INSERT OR IGNORE INTO user_blocks (blocker_id, blocked_id, created_at)
+        VALUES (?, ?, ?)
+      `).bind(blockerId, blockedId, new Date().toISOString())
+    ];
+
+    for (const follow of follows.results) {
+      statements.push(
+        this.db.prepare(
+          'DELETE FROM follows WHERE follower_id = ? AND following_id = ?'
+        ).bind(follow.follower_id, follow.following_id),
+        this.db.prepare(
+          'UPDATE users SET following_count = CASE WHEN following_count > 0 THEN following_count - 1 ELSE 0 END WHERE id = ?'
+        ).bind(follow.follower_id),
+        this.db.prepare(
+          'UPDATE users SET followers_count = CASE WHEN followers_count > 0 THEN followers_count - 1 ELSE 0 END WHERE id = ?'
+        ).bind(follow.following_id)
+      );
+    }
+
+    // Drop pending notifications between the two users
+    statements.push(
+      this.db.prepare(`
+        DELETE FROM notifications
+        WHERE (recipient_id = ? AND sender_id = ?)
+           OR (recipient_id = ? AND sender_id = ?)
+      `).bind(blockerId, blockedId, blockedId, blockerId)
+    );
+
+    await this.db.batch(statements);
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<boolean> {
+    const result = await this.db.prepare(
+      'DELETE FROM user_blocks WHERE blocker_id = ? AND blocked_id = ?'
+    ).bind(blockerId, blockedId).run();
+
+    return !!result.meta.changes;
+  }
+
+  async muteUser(muterId: string, mutedId: string): Promise<void> {
+    if (muterId === mutedId) {
+      throw new Error('Cannot mute yourself');
+    }
+
+    const target = await this.db.prepare(
+      'SELECT id FROM users WHERE id = ?'
+    ).bind(mutedId).first();
+
+    if (!target) {
+      throw new Error('User not found');
+    }
+
+    await this.db.prepare(`
+      INSERT OR IGNORE INTO user_mutes (muter_id, muted_id, created_at)
+      VALUES (?, ?, ?)
+    `).bind(muterId, mutedId, new Date().toISOString()).run();
+  }
+
+  async unmuteUser(muterId: string, mutedId: string): Promise<boolean> {
+    const result = await this.db.prepare(
+      'DELETE FROM user_mutes WHERE muter_id = ? AND muted_id = ?'
+    ).bind(muterId, mutedId).run();
+
+    return !!result.meta.changes;
+  }
+
+  // True if either user has blocked the other
+  async isBlockedEitherWay(userA: string, userB: string): Promise<boolean> {
+    const row = await this.db.prepare(`
+      SELECT 1 FROM user_blocks
+      WHERE (blocker_id = ? AND blocked_id = ?)
+         OR (blocker_id = ? AND blocked_id = ?)
+      LIMIT 1
+    `).bind(userA, userB, userB, userA).first();
+
+    return !!row;
+  }
+
+  async isMuted(muterId: string, mutedId: string): Promise<boolean> {
+    const row = await this.db.prepare(
+      'SELECT 1 FROM user_mutes WHERE muter_id = ? AND muted_id = ?'
+    ).bind(muterId, mutedId).first();
+
+    return !!row;
+  }
+
+  // IDs whose content the viewer should not see (for filtering cached results)
+  async getHiddenUserIds(viewerId: string, options: { includeMuted?: boolean } = {}): Promise<Set<string>> {
+    const includeMuted = options.includeMuted ?? true;
+
+    const rows = await this.db.prepare(`
+      SELECT blocked_id as user_id FROM user_blocks WHERE blocker_id = ?
+      UNION
+      SELECT blocker_id as user_id FROM user_blocks WHERE blocked_id = ?
+      ${includeMuted ? 'UNION SELECT muted_id as user_id FROM user_mutes WHERE muter_id = ?' : ''}
+    `).bind(...(includeMuted ? [viewerId, viewerId, viewerId] : [viewerId, viewerId])).all();
+
+    return new Set(rows.results.map(row => row.user_id as string));
+  }
+
+  async getBlockedUsers(userId: string): Promise<BlockedUser[]> {
+    const rows = await this.db.prepare(`
+      SELECT u.id, u.username, u.profile_image, b.created_at
+      FROM user_blocks b
+      JOIN users u ON b.blocked_id = u.id
+      WHERE b.blocker_id = ?
+      ORDER BY b.created_at DESC
+    `).bind(userId).all();
+
+    return rows.results.map(row => this.formatUser(row));
+  }
+
+  async getMutedUsers(userId: string): Promise<BlockedUser[]> {
+    const rows = await this.db.prepare(`
+      SELECT u.id, u.username, u.profile_image, m.created_at
+      FROM user_mutes m
+      JOIN users u ON m.muted_id = u.id
+      WHERE m.muter_id = ?
+      ORDER BY m.created_at DESC
+    `).bind(userId).all();
+
+    return rows.results.map(row => this.formatUser(row));
+  }
+
+  private formatUser(row: any): BlockedUser {
+    return {
+      id: row.id,
+      username: row.username,
+      profileImage: row.profile_image || null,
+      since: row.created_at
+    };
+  }
+}
@@ -2,6 +2,8 @@
 
 import { nanoid } from 'nanoid';
 import type { D1Database } from '@cloudflare/workers-types';
+import { buildFtsQuery } from '../utils/search';
+import { NotificationService } from './notification.service';
 
 export interface Clan {
   id: string;
@@ -65,6 +67,96 @@ export interface ClanStats {
   recentMembers: number;
 }
 
+const DEFAULT_INVITE_EXPIRY_HOURS = 7 * 24;
+
+const RESTRICTION_TABLES = {
+  ban: { name: 'clan_banned_users', issuedAt: 'banned_at', issuedBy: 'banned_by' },
+  mute: { name: 'clan_mutes', issuedAt: 'muted_at', issuedBy: 'muted_by' }
+} as const;
+
+// How long the recipient has to accept an ownership transfer
+const OWNERSHIP_TRANSFER_EXPIRY_HOURS = 72;
+
+const STATS_TIMEFRAME_DAYS: Record<string, number> = {
+  day: 1,
+  week: 7,
+  month: 30
+};
+
+export interface ClanInvite {
+  id: string;
+  clanId: string;
+  code: string;
+  invitedBy: {
+    id: string;
+    username?: string;
+  };
+  maxUses: number | null; // null = unlimited
+  usesCount: number;
+  expiresAt: string | null; // null = never
+  createdAt: string;
+  isValid: boolean;
+}
+
+export interface ClanInvitePreview {
+  code: string;
+  clan: {
+    id: string;
+    name: string;
+    displayName: string;
+    description: string;
+    avatar?: string;
+    banner?: string;
+    memberCount: number;
+    isPrivate: boolean;
+    verificationStatus?: string;
+  };
+  invitedBy: {
+    id: string;
+    username?: string;
+    profileImage?: string;
+  };
+  expiresAt: string | null;
+}
+
+export interface ClanJoinRequest {
+  id: string;
+  clanId: string;
+  user: {
+    id: string;
+    username?: string;
+    profileImage?: string;
+  };
+  message?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reviewedBy?: string;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+export interface ClanOwnershipTransfer {
+  id: string;
+  clanId: string;
+  fromUserId: string;
+  toUserId: string;
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled';
+  expiresAt: string;
+  createdAt: string;
+}
+
+// A clan ban or mute. expiresAt null = until lifted by a moderator
+export interface ClanRestriction {
+  uid: string;
+  username?: string;
+  profileImage?: string;
+  reason?: string;
+  issuedAt: string;
+  issuedBy: string;
+  issuedByUsername?: string;
+  expiresAt: string | null;
+  remainingSeconds: number | null;
+}
+
 interface ListClansOptions {
   page: number;
   limit: number;
@@ -77,7 +169,8 @@ interface ListClansOptions {
 export class ClanService {
   constructor(
     private db: D1Database,
-    private cache: KVNamespace
+    private cache: KVNamespace,
+    private notifications?: NotificationService
   ) {}
 
   async createClan(founderId: string, data: any): Promise<Clan> {
@@ -184,8 +277,9 @@ export class ClanService {
     
     // Get banned users
     const bannedResult = await this.db.prepare(`
-      SELECT user_id FROM clan_banned_users WHERE clan_id = ?
-    `).bind(clanId).all();
+      SELECT user_id FROM clan_banned_users
+      WHERE clan_id = ? AND (expires_at IS NULL OR expires_at > ?)
+    `).bind(clanId, new Date().toISOString()).all();
     
     const bannedUsers = bannedResult.results.map(b => b.user_id as string);
     
@@ -317,7 +411,173 @@ export class ClanService {
     await this.clearClanCache(clanId);
   }
 
-  async joinClan(clanId: string, userId: string): Promise<void> {
+  // Public clans are joined straight away; private ones get a join request
+  // that a moderator has to approve
+  async joinClan(
+    clanId: string,
+    userId: string,
+    message?: string
+  ): Promise<{ status: 'joined' | 'requested'; requestId?: string }> {
+    const clan = await this.db.prepare(`
+      SELECT is_private, name, display_name FROM clans WHERE id = ? AND is_active = 1
+    `).bind(clanId).first();
+
+    if (!clan) {
+      throw new Error('Clan not found');
+    }
+
+    await this.assertCanJoin(clanId, userId);
+
+    if (!clan.is_private) {
+      await this.addMember(clanId, userId);
+      return { status: 'joined' };
+    }
+
+    const pending = await this.db.prepare(`
+      SELECT 1 FROM clan_join_requests
+      WHERE clan_id = ? AND user_id = ? AND status = 'pending'
+    `).bind(clanId, userId).first();
+
+    if (pending) {
+      throw new Error('Join request already pending');
+    }
+
+    const requestId = nanoid();
+    await this.db.prepare(`
+      INSERT INTO clan_join_requests (id, clan_id, user_id, message, status, created_at)
+      VALUES (?, ?, ?, ?, 'pending', ?)
+    `).bind(requestId, clanId, userId, message || null, new Date().toISOString()).run();
+
+    await this.logActivity(clanId, userId, 'join_request', requestId, message ? { message } : undefined);
+
+    // Let everyone who can approve it know
+    const moderators = await this.db.prepare(`
+      SELECT user_id FROM clan_members
+      WHERE clan_id = ? AND role IN ('founder', 'admin', 'moderator')
+    `).bind(clanId).all();
+
+    const notifications = this.getNotificationService();
+    for (const moderator of moderators.results) {
+      await notifications.create({
+        recipientId: moderator.user_id as string,
+        senderId: userId,
+        type: 'clan_join_request',
+        targetType: 'clan',
+        targetId: clanId,
+        action: `requested to join ${clan.display_name || clan.name}`
+      });
+    }
+
+    return { status: 'requested', requestId };
+  }
+
+  async listJoinRequests(
+    clanId: string,
+    options: { status?: string; page: number; limit: number }
+  ): Promise<{ requests: ClanJoinRequest[]; hasMore: boolean }> {
+    const offset = (options.page - 1) * options.limit;
+
+    const requests = await this.db.prepare(`
+      SELECT
+        r.*,
+        u.username,
+        u.profile_image
+      FROM clan_join_requests r
+      JOIN users u ON r.user_id = u.id
+      WHERE r.clan_id = ? AND r.status = ?
+      ORDER BY r.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(clanId, options.status || 'pending', options.limit + 1, offset).all();
+
+    return {
+      requests: requests.results.slice(0, options.limit).map(request => ({
+        id: request.id as string,
+        clanId: request.clan_id as string,
+        user: {
+          id: request.user_id as string,
+          username: request.username as string,
+          profileImage: request.profile_image as string || undefined
+        },
+        message: request.message as string || undefined,
+        status: request.status as ClanJoinRequest['status'],
+        reviewedBy: request.reviewed_by as string || undefined,
+        reviewedAt: request.reviewed_at as string || undefined,
+        createdAt: request.created_at as string
+      })),
+      hasMore: requests.results.length > options.limit
+    };
+  }
+
+  async approveJoinRequest(clanId: string, requestId: string, reviewerId: string): Promise<void> {
+    const request = await this.getPendingJoinRequest(clanId, requestId);
+    const userId = request.user_id as string;
+
+    await this.assertCanJoin(clanId, userId);
+    await this.markJoinRequest(requestId, reviewerId, 'approved');
+    await this.addMember(clanId, userId);
+
+    await this.logActivity(clanId, reviewerId, 'join_request_approved', userId, { requestId });
+
+    await this.getNotificationService().create({
+      recipientId: userId,
+      senderId: reviewerId,
+      type: 'clan_join_approved',
+      targetType: 'clan',
+      targetId: clanId,
+      action: `approved your request to join ${request.display_name || request.name}`
+    });
+  }
+
+  async rejectJoinRequest(clanId: string, requestId: string, reviewerId: string): Promise<void> {
+    const request = await this.getPendingJoinRequest(clanId, requestId);
+    await this.markJoinRequest(requestId, reviewerId, 'rejected');
+
+    await this.logActivity(clanId, reviewerId, 'join_request_rejected', request.user_id as string, { requestId });
+
+    await this.getNotificationService().create({
+      recipientId: request.user_id as string,
+      senderId: reviewerId,
+      type: 'clan_join_rejected',
+      targetType: 'clan',
+      targetId: clanId,
+      action: `declined your request to join ${request.display_name || request.name}`
+    });
+  }
+
+  private async getPendingJoinRequest(clanId: string, requestId: string): Promise<Record<string, unknown>> {
+    const request = await this.db.prepare(`
+      SELECT r.*, c.name, c.display_name
+      FROM clan_join_requests r
+      JOIN clans c ON r.clan_id = c.id
+      WHERE r.id = ? AND r.clan_id = ? AND r.status = 'pending'
+    `).bind(requestId, clanId).first();
+
+    if (!request) {
+      throw new Error('Join request not found');
+    }
+
+    return request;
+  }
+
+  // The status check is part of the UPDATE so two moderators can't both act
+  // on the same request
+  private async markJoinRequest(
+    requestId: string,
+    reviewerId: string,
+    status: 'approved' | 'rejected'
+  ): Promise<void> {
+    const reviewed = await this.db.prepare(`
+      UPDATE clan_join_requests
+      SET status = ?, reviewed_by = ?, reviewed_at = ?
+      WHERE id = ? AND status = 'pending'
+    `).bind(status, reviewerId, new Date().toISOString(), requestId).run();
+
+    if (!reviewed.meta.changes) {
+      throw new Error('Join request not found');
+    }
+  }
+
+  private async assertCanJoin(clanId: string, userId: string): Promise<void> {
     // Check if already member
     const existing = await this.db.prepare(`
       SELECT 1 FROM clan_members 
@@ -329,39 +589,239 @@ export class ClanService {
     }
     
     // Check if user is banned
-    const banned = await this.db.prepare(`
-      SELECT 1 FROM clan_banned_users 
-      WHERE clan_id = ? AND user_id = ?
-    `).bind(clanId, userId).first();
+    const banned = await this.getActiveRestriction('ban', clanId, userId);
     
     if (banned) {
       throw new Error('You are banned from this clan');
     }
-    
-    // Add member and update count in transaction
+  }
+
+  // Posting or commenting in a clan: members only, and not while muted
+  async assertCanPost(clanId: string, userId: string): Promise<void> {
+    const isMember = await this.checkUserPermission(clanId, userId, 'member');
+    if (!isMember) {
+      throw new Error('You must be a member of this clan to post in it');
+    }
+
+    const muted = await this.getActiveRestriction('mute', clanId, userId);
+    if (muted) {
+      throw new Error(
+        muted.expires_at ? `You are muted in this clan until ${muted.expires_at}` : 'You are muted in this clan'
+      );
+    }
+  }
+
+  private async addMember(clanId: string, userId: string, invite?: { id: string; code: string }): Promise<void> {
+    // Add member and update count in transaction. Reputation earned in an
+    // earlier membership (less any ban penalty) carries over
     const statements = [
       this.db.prepare(`
         INSERT INTO clan_members (clan_id, user_id, role, reputation, contributions, joined_at)
-        VALUES (?, ?, 'member', 0, 0, CURRENT_TIMESTAMP)
-      `).bind(clanId, userId),
+        SELECT ?, ?, 'member',
+          MAX(0, COALESCE(SUM(reputation_delta), 0)),
+          MAX(0, COALESCE(SUM(contributions_delta), 0)),
+          CURRENT_TIMESTAMP
+        FROM clan_reputation_events
+        WHERE clan_id = ? AND user_id = ?
+      `).bind(clanId, userId, clanId, userId),
       
       this.db.prepare(`
         UPDATE clans 
         SET member_count = member_count + 1, updated_at = CURRENT_TIMESTAMP
         WHERE id = ?
-      `).bind(clanId)
+      `).bind(clanId),
+
+      // Joining some other way settles any request still waiting for review
+      this.db.prepare(`
+        UPDATE clan_join_requests SET status = 'cancelled'
+        WHERE clan_id = ? AND user_id = ? AND status = 'pending'
+      `).bind(clanId, userId)
     ];
     
     await this.db.batch(statements);
     
     // Log activity
-    await this.logActivity(clanId, userId, 'join', null);
+    await this.logActivity(clanId, userId, 'join', invite?.id || null, invite ? { inviteCode: invite.code } : undefined);
     
     // Clear caches
     await this.clearClanCache(clanId);
     await this.invalidateClanCaches(userId);
   }
 
+  async createInvite(
+    clanId: string,
+    invitedBy: string,
+    options: { maxUses?: number | null; expiresInHours?: number | null } = {}
+  ): Promise<ClanInvite> {
+    const inviteId = nanoid();
+    const code = nanoid(10);
+    const maxUses = options.maxUses === undefined ? 1 : options.maxUses;
+    const expiresInHours = options.expiresInHours === undefined ? DEFAULT_INVITE_EXPIRY_HOURS : options.expiresInHours;
+    const expiresAt = expiresInHours === null
+      ? null
+      : new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString();
+    const now = new Date().toISOString();
+
+    await this.db.prepare(`
+      INSERT INTO clan_invites (id, clan_id, invited_by, invite_code, max_uses, uses_count, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, 0, ?, ?)
+    `).bind(inviteId, clanId, invitedBy, code, maxUses, expiresAt, now).run();
+
+    return {
+      id: inviteId,
+      clanId,
+      code,
+      invitedBy: { id: invitedBy },
+      maxUses,
+      usesCount: 0,
+      expiresAt,
+      createdAt: now,
+      isValid: true
+    };
+  }
+
+  async listInvites(clanId: string): Promise<ClanInvite[]> {
+    const invites = await this.db.prepare(`
+      SELECT ci.*, u.username as inviter_username
+      FROM clan_invites ci
+      LEFT JOIN users u ON ci.invited_by = u.id
+      WHERE ci.clan_id = ?
+      ORDER BY ci.created_at DESC
+    `).bind(clanId).all();
+
+    return invites.results.map(invite => this.formatInvite(invite));
+  }
+
+  async revokeInvite(clanId: string, inviteId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM clan_invites WHERE id = ? AND clan_id = ?
+    `).bind(inviteId, clanId).run();
+
+    return (result.meta.changes || 0) > 0;
+  }
+
+  // What an invite link points at, for the landing page. Throws on
+  // unknown, expired or used-up codes
+  async getInvitePreview(code: string): Promise<ClanInvitePreview> {
+    const invite = await this.getUsableInvite(code);
+
+    return {
+      code: invite.invite_code as string,
+      clan: {
+        id: invite.clan_id as string,
+        name: invite.name as string,
+        displayName: invite.display_name as string || invite.name as string,
+        description: invite.description as string,
+        avatar: invite.avatar_url as string || undefined,
+        banner: invite.banner_url as string || undefined,
+        memberCount: invite.member_count as number,
+        isPrivate: Boolean(invite.is_private),
+        verificationStatus: invite.verification_status as string
+      },
+      invitedBy: {
+        id: invite.invited_by as string,
+        username: invite.inviter_username as string || undefined,
+        profileImage: invite.inviter_profile_image as string || undefined
+      },
+      expiresAt: invite.expires_at as string || null
+    };
+  }
+
+  // Join through an invite link. Works for private clans too; bans and the
+  // invite's expiry and usage limit still apply
+  async redeemInvite(code: string, userId: string): Promise<{ clanId: string }> {
+    const invite = await this.getUsableInvite(code);
+    const clanId = invite.clan_id as string;
+
+    await this.assertCanJoin(clanId, userId);
+
+    // Claim a use atomically so concurrent redemptions can't overshoot max_uses
+    const claimed = await this.db.prepare(`
+      UPDATE clan_invites
+      SET uses_count = uses_count + 1
+      WHERE id = ? AND (max_uses IS NULL OR uses_count < max_uses)
+    `).bind(invite.id).run();
+
+    if (!claimed.meta.changes) {
+      throw new Error('Invite has reached its usage limit');
+    }
+
+    try {
+      await this.addMember(clanId, userId, { id: invite.id as string, code });
+    } catch (error) {
+      // Give the use back, the user didn't join through this invite
+      await this.db.prepare(`
+        UPDATE clan_invites SET uses_count = MAX(0, uses_count - 1) WHERE id = ?
+      `).bind(invite.id).run();
+      throw error;
+    }
+
+    // The user has joined either way; a failed notification doesn't undo that
+    try {
+      await this.getNotificationService().create({
+        recipientId: invite.invited_by as string,
+        senderId: userId,
+        type: 'clan_invite',
+        targetType: 'clan',
+        targetId: clanId,
+        action: `joined ${invite.display_name || invite.name} with your invite`
+      });
+    } catch (error) {
+      console.error('Invite notification error:', error);
+    }
+
+    return { clanId };
+  }
+
+  private async getUsableInvite(code: string): Promise<Record<string, unknown>> {
+    const invite = await this.db.prepare(`
+      SELECT
+        ci.*,
+        c.name, c.display_name, c.description, c.avatar_url, c.banner_url,
+        c.member_count, c.is_private, c.verification_status,
+        u.username as inviter_username,
+        u.profile_image as inviter_profile_image
+      FROM clan_invites ci
+      JOIN clans c ON ci.clan_id = c.id
+      LEFT JOIN users u ON ci.invited_by = u.id
+      WHERE ci.invite_code = ? AND c.is_active = 1
+    `).bind(code).first();
+
+    if (!invite) {
+      throw new Error('Invite not found');
+    }
+
+    if (invite.expires_at && Date.parse(invite.expires_at as string) <= Date.now()) {
+      throw new Error('Invite has expired');
+    }
+
+    if (invite.max_uses !== null && (invite.uses_count as number) >= (invite.max_uses as number)) {
+      throw new Error('Invite has reached its usage limit');
+    }
+
+    return invite;
+  }
+
+  private formatInvite(invite: any): ClanInvite {
+    const expired = Boolean(invite.expires_at) && Date.parse(invite.expires_at) <= Date.now();
+    const usedUp = invite.max_uses !== null && invite.uses_count >= invite.max_uses;
+
+    return {
+      id: invite.id,
+      clanId: invite.clan_id,
+      code: invite.invite_code,
+      invitedBy: {
+        id: invite.invited_by,
+        username: invite.inviter_username || undefined
+      },
+      maxUses: invite.max_uses,
+      usesCount: invite.uses_count,
+      expiresAt: invite.expires_at || null,
+      createdAt: invite.created_at,
+      isValid: !expired && !usedUp
+    };
+  }
+
   async leaveClan(clanId: string, userId: string): Promise<void> {
     // Check if user is founder
     const membership = await this.db.prepare(`
@@ -401,6 +861,254 @@ export class ClanService {
     await this.invalidateClanCaches(userId);
   }
 
+  // Founder offers the clan to another member; takes effect once they accept
+  async requestOwnershipTransfer(clanId: string, founderId: string, toUserId: string): Promise<ClanOwnershipTransfer> {
+    const clan = await this.db.prepare(`
+      SELECT founder_id, name, display_name FROM clans WHERE id = ? AND is_active = 1
+    `).bind(clanId).first();
+
+    if (!clan) {
+      throw new Error('Clan not found');
+    }
+
+    if (clan.founder_id !== founderId) {
+      throw new Error('Only the founder can transfer ownership');
+    }
+
+    if (toUserId === founderId) {
+      throw new Error('Cannot transfer ownership to yourself');
+    }
+
+    const recipient = await this.db.prepare(`
+      SELECT 1 FROM clan_members cm
+      JOIN users u ON cm.user_id = u.id
+      WHERE cm.clan_id = ? AND cm.user_id = ? AND u.is_active = 1
+    `).bind(clanId, toUserId).first();
+
+    if (!recipient) {
+      throw new Error('User is not a member of this clan');
+    }
+
+    const now = new Date();
+    const transfer: ClanOwnershipTransfer = {
+      id: nanoid(),
+      clanId,
+      fromUserId: founderId,
+      toUserId,
+      status: 'pending',
+      expiresAt: new Date(now.getTime() + OWNERSHIP_TRANSFER_EXPIRY_HOURS * 60 * 60 * 1000).toISOString(),
+      createdAt: now.toISOString()
+    };
+
+    // A new offer replaces any earlier one
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE clan_ownership_transfers SET status = 'cancelled', responded_at = ?
+        WHERE clan_id = ? AND status = 'pending'
+      `).bind(transfer.createdAt, clanId),
+      this.db.prepare(`
+        INSERT INTO clan_ownership_transfers (id, clan_id, from_user_id, to_user_id, status, expires_at, created_at)
+        VALUES (?, ?, ?, ?, 'pending', ?, ?)
+      `).bind(transfer.id, clanId, founderId, toUserId, transfer.expiresAt, transfer.createdAt)
+    ]);
+
+    await this.logActivity(clanId, founderId, 'ownership_transfer_requested', toUserId, { transferId: transfer.id });
+
+    await this.getNotificationService().create({
+      recipientId: toUserId,
+      senderId: founderId,
+      type: 'clan_ownership_transfer',
+      targetType: 'clan',
+      targetId: clanId,
+      action: `wants to make you the owner of ${clan.display_name || clan.name}`
+    });
+
+    return transfer;
+  }
+
+  async getPendingOwnershipTransfer(clanId: string): Promise<ClanOwnershipTransfer | null> {
+    const transfer = await this.db.prepare(`
+      SELECT * FROM clan_ownership_transfers
+      WHERE clan_id = ? AND status = 'pending' AND expires_at > ?
+    `).bind(clanId, new Date().toISOString()).first();
+
+    if (!transfer) return null;
+
+    return {
+      id: transfer.id as string,
+      clanId: transfer.clan_id as string,
+      fromUserId: transfer.from_user_id as string,
+      toUserId: transfer.to_user_id as string,
+      status: transfer.status as ClanOwnershipTransfer['status'],
+      expiresAt: transfer.expires_at as string,
+      createdAt: transfer.created_at as string
+    };
+  }
+
+  // Recipient accepts: founder_id and both member roles are swapped in one
+  // batch (the old founder stays on as an admin)
+  async acceptOwnershipTransfer(clanId: string, userId: string): Promise<void> {
+    const transfer = await this.getPendingOwnershipTransfer(clanId);
+
+    if (!transfer || transfer.toUserId !== userId) {
+      throw new Error('Ownership transfer not found');
+    }
+
+    const stillMember = await this.db.prepare(`
+      SELECT 1 FROM clan_members WHERE clan_id = ? AND user_id = ?
+    `).bind(clanId, userId).first();
+
+    if (!stillMember) {
+      throw new Error('User is not a member of this clan');
+    }
+
+    // Every step is conditioned on this request having claimed the
+    // transfer, so a concurrent cancel or accept leaves roles untouched
+    const now = new Date().toISOString();
+    const claimedByUs = `EXISTS (
+      SELECT 1 FROM clan_ownership_transfers WHERE id = ? AND status = 'accepted' AND responded_at = ?
+    )`;
+    const [claimed] = await this.db.batch([
+      this.db.prepare(`
+        UPDATE clan_ownership_transfers SET status = 'accepted', responded_at = ?
+        WHERE id = ? AND status = 'pending'
+      `).bind(now, transfer.id),
+      this.db.prepare(`
+        UPDATE clans SET founder_id = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND founder_id = ? AND ${claimedByUs}
+      `).bind(userId, clanId, transfer.fromUserId, transfer.id, now),
+      this.db.prepare(`
+        UPDATE clan_members SET role = 'admin'
+        WHERE clan_id = ? AND user_id = ? AND ${claimedByUs}
+      `).bind(clanId, transfer.fromUserId, transfer.id, now),
+      this.db.prepare(`
+        UPDATE clan_members SET role = 'founder'
+        WHERE clan_id = ? AND user_id = ? AND ${claimedByUs}
+      `).bind(clanId, userId, transfer.id, now)
+    ]);
+
+    if (!claimed.meta.changes) {
+      throw new Error('Ownership transfer not found');
+    }
+
+    await this.logActivity(clanId, userId, 'ownership_transferred', transfer.fromUserId, { transferId: transfer.id });
+
+    const clan = await this.db.prepare('SELECT name, display_name FROM clans WHERE id = ?').bind(clanId).first();
+    await this.getNotificationService().create({
+      recipientId: transfer.fromUserId,
+      senderId: userId,
+      type: 'clan_ownership_transfer',
+      targetType: 'clan',
+      targetId: clanId,
+      action: `accepted ownership of ${clan?.display_name || clan?.name}`
+    });
+
+    await this.clearClanCache(clanId);
+    await this.invalidateClanCaches(userId);
+    await this.invalidateClanCaches(transfer.fromUserId);
+  }
+
+  // Recipient declines or the founder withdraws the offer
+  async closeOwnershipTransfer(clanId: string, userId: string, status: 'declined' | 'cancelled'): Promise<void> {
+    const transfer = await this.getPendingOwnershipTransfer(clanId);
+    const allowedUserId = status === 'declined' ? transfer?.toUserId : transfer?.fromUserId;
+
+    if (!transfer || allowedUserId !== userId) {
+      throw new Error('Ownership transfer not found');
+    }
+
+    await this.db.prepare(`
+      UPDATE clan_ownership_transfers SET status = ?, responded_at = ?
+      WHERE id = ? AND status = 'pending'
+    `).bind(status, new Date().toISOString(), transfer.id).run();
+
+    await this.logActivity(
+      clanId,
+      userId,
+      status === 'declined' ? 'ownership_transfer_declined' : 'ownership_transfer_cancelled',
+      status === 'declined' ? transfer.fromUserId : transfer.toUserId,
+      { transferId: transfer.id }
+    );
+
+    if (status === 'declined') {
+      const clan = await this.db.prepare('SELECT name, display_name FROM clans WHERE id = ?').bind(clanId).first();
+      await this.getNotificationService().create({
+        recipientId: transfer.fromUserId,
+        senderId: userId,
+        type: 'clan_ownership_transfer',
+        targetType: 'clan',
+        targetId: clanId,
+        action: `declined ownership of ${clan?.display_name || clan?.name}`
+      });
+    }
+  }
+
+  // Succession for clans whose founder account is deactivated (all of them,
+  // or just those of `founderId`). The longest-tenured active admin takes
+  // over; without admins it falls to moderators, then members. Returns the
+  // number of clans that got a new founder
+  async succeedInactiveFounders(founderId?: string): Promise<number> {
+    const clans = await this.db.prepare(`
+      SELECT c.id, c.founder_id
+      FROM clans c
+      JOIN users u ON c.founder_id = u.id
+      WHERE c.is_active = 1 AND u.is_active = 0
+        ${founderId ? 'AND c.founder_id = ?' : ''}
+    `).bind(...(founderId ? [founderId] : [])).all();
+
+    let succeeded = 0;
+
+    for (const clan of clans.results) {
+      const clanId = clan.id as string;
+      const oldFounderId = clan.founder_id as string;
+
+      const successor = await this.db.prepare(`
+        SELECT cm.user_id
+        FROM clan_members cm
+        JOIN users u ON cm.user_id = u.id
+        WHERE cm.clan_id = ? AND cm.role != 'founder' AND u.is_active = 1
+        ORDER BY
+          CASE cm.role WHEN 'admin' THEN 0 WHEN 'moderator' THEN 1 ELSE 2 END,
+          cm.joined_at ASC
+        LIMIT 1
+      `).bind(clanId).first();
+
+      if (!successor) {
+        console.warn(`No successor available for clan ${clanId}`);
+        continue;
+      }
+
+      const successorId = successor.user_id as string;
+      await this.db.batch([
+        this.db.prepare(`
+          UPDATE clans SET founder_id = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND founder_id = ?
+        `).bind(successorId, clanId, oldFounderId),
+        this.db.prepare(`
+          UPDATE clan_members SET role = 'member'
+          WHERE clan_id = ? AND user_id = ?
+        `).bind(clanId, oldFounderId),
+        this.db.prepare(`
+          UPDATE clan_members SET role = 'founder'
+          WHERE clan_id = ? AND user_id = ?
+        `).bind(clanId, successorId),
+        this.db.prepare(`
+          UPDATE clan_ownership_transfers SET status = 'cancelled', responded_at = ?
+          WHERE clan_id = ? AND status = 'pending'
+        `).bind(new Date().toISOString(), clanId)
+      ]);
+
+      await this.logActivity(clanId, successorId, 'founder_succession', oldFounderId);
+
+      await this.clearClanCache(clanId);
+      await this.invalidateClanCaches(successorId);
+      await this.invalidateClanCaches(oldFounderId);
+      succeeded++;
+    }
+
+    return succeeded;
+  }
+
   async getClanMembers(
     clanId: string, 
     options: { page: number; limit: number; role?: string }
@@ -529,7 +1237,13 @@ export class ClanService {
     await this.invalidateClanCaches(userId);
   }
 
-  async banUser(clanId: string, userId: string, bannedBy: string, reason?: string): Promise<void> {
+  async banUser(
+    clanId: string,
+    userId: string,
+    bannedBy: string,
+    reason?: string,
+    durationHours?: number
+  ): Promise<void> {
     // First remove them if they're a member
     const membership = await this.db.prepare(`
       SELECT role FROM clan_members 
@@ -545,19 +1259,167 @@ export class ClanService {
       await this.removeMember(clanId, userId);
     }
     
-    // Add to banned list
+    // Add to banned list (banning again replaces the earlier ban)
     const banId = nanoid();
+    const expiresAt = durationHours ? this.expiresAfter(durationHours) : null;
     await this.db.prepare(`
-      INSERT INTO clan_banned_users (id, clan_id, user_id, banned_by, reason, banned_at)
-      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-    `).bind(banId, clanId, userId, bannedBy, reason || null).run();
+      INSERT INTO clan_banned_users (id, clan_id, user_id, banned_by, reason, banned_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?)
+      ON CONFLICT (clan_id, user_id) DO UPDATE SET
+        banned_by = excluded.banned_by,
+        reason = excluded.reason,
+        banned_at = excluded.banned_at,
+        expires_at = excluded.expires_at
+    `).bind(banId, clanId, userId, bannedBy, reason || null, expiresAt).run();
     
     // Log activity
-    await this.logActivity(clanId, bannedBy, 'ban', userId, { reason });
+    await this.logActivity(clanId, bannedBy, 'ban', userId, { reason, expiresAt });
     
     await this.clearClanCache(clanId);
   }
 
+  async muteMember(
+    clanId: string,
+    userId: string,
+    mutedBy: string,
+    reason?: string,
+    durationHours?: number
+  ): Promise<void> {
+    const membership = await this.db.prepare(`
+      SELECT role FROM clan_members 
+      WHERE clan_id = ? AND user_id = ?
+    `).bind(clanId, userId).first();
+    
+    if (!membership) {
+      throw new Error('User is not a member of this clan');
+    }
+    
+    if (membership.role === 'founder') {
+      throw new Error('Cannot mute the founder');
+    }
+    
+    const expiresAt = durationHours ? this.expiresAfter(durationHours) : null;
+    await this.db.prepare(`
+      INSERT INTO clan_mutes (clan_id, user_id, muted_by, reason, muted_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (clan_id, user_id) DO UPDATE SET
+        muted_by = excluded.muted_by,
+        reason = excluded.reason,
+        muted_at = excluded.muted_at,
+        expires_at = excluded.expires_at
+    `).bind(clanId, userId, mutedBy, reason || null, new Date().toISOString(), expiresAt).run();
+    
+    await this.logActivity(clanId, mutedBy, 'mute', userId, { reason, expiresAt });
+  }
+
+  async unmuteMember(clanId: string, userId: string, unmutedBy: string): Promise<void> {
+    await this.db.prepare(`
+      DELETE FROM clan_mutes 
+      WHERE clan_id = ? AND user_id = ?
+    `).bind(clanId, userId).run();
+    
+    await this.logActivity(clanId, unmutedBy, 'unmute', userId);
+  }
+
+  // Current bans or mutes with who issued them and how long they have left
+  async listRestrictions(type: 'ban' | 'mute', clanId: string): Promise<ClanRestriction[]> {
+    const table = RESTRICTION_TABLES[type];
+    const now = Date.now();
+
+    const rows = await this.db.prepare(`
+      SELECT 
+        r.user_id,
+        r.reason,
+        r.${table.issuedAt} as issued_at,
+        r.${table.issuedBy} as issued_by,
+        r.expires_at,
+        u.username,
+        u.profile_image,
+        issuer.username as issued_by_username
+      FROM ${table.name} r
+      JOIN users u ON r.user_id = u.id
+      LEFT JOIN users issuer ON r.${table.issuedBy} = issuer.id
+      WHERE r.clan_id = ? AND (r.expires_at IS NULL OR r.expires_at > ?)
+      ORDER BY r.${table.issuedAt} DESC
+    `).bind(clanId, new Date(now).toISOString()).all();
+    
+    return rows.results.map(row => ({
+      uid: row.user_id as string,
+      username: row.username as string,
+      profileImage: row.profile_image as string || undefined,
+      reason: row.reason as string || undefined,
+      issuedAt: row.issued_at as string,
+      issuedBy: row.issued_by as string,
+      issuedByUsername: row.issued_by_username as string || undefined,
+      expiresAt: row.expires_at as string || null,
+      remainingSeconds: row.expires_at
+        ? Math.max(0, Math.ceil((Date.parse(row.expires_at as string) - now) / 1000))
+        : null
+    }));
+  }
+
+  // Drops bans and mutes that have run out; returns how many were lifted
+  async sweepExpiredRestrictions(): Promise<number> {
+    const now = new Date().toISOString();
+    let lifted = 0;
+
+    for (const type of ['ban', 'mute'] as const) {
+      const table = RESTRICTION_TABLES[type];
+      const expired = await this.db.prepare(`
+        SELECT clan_id, user_id FROM ${table.name}
+        WHERE expires_at IS NOT NULL AND expires_at <= ?
+      `).bind(now).all();
+
+      for (const row of expired.results) {
+        await this.liftExpiredRestriction(type, row.clan_id as string, row.user_id as string, now);
+        lifted++;
+      }
+    }
+
+    return lifted;
+  }
+
+  // Active ban/mute row, or null. An expired one is lifted on the spot
+  private async getActiveRestriction(
+    type: 'ban' | 'mute',
+    clanId: string,
+    userId: string
+  ): Promise<Record<string, unknown> | null> {
+    const restriction = await this.db.prepare(`
+      SELECT * FROM ${RESTRICTION_TABLES[type].name}
+      WHERE clan_id = ? AND user_id = ?
+    `).bind(clanId, userId).first();
+
+    if (!restriction) return null;
+
+    const now = new Date().toISOString();
+    if (restriction.expires_at && (restriction.expires_at as string) <= now) {
+      await this.liftExpiredRestriction(type, clanId, userId, now);
+      return null;
+    }
+
+    return restriction;
+  }
+
+  private async liftExpiredRestriction(type: 'ban' | 'mute', clanId: string, userId: string, now: string): Promise<void> {
+    const deleted = await this.db.prepare(`
+      DELETE FROM ${RESTRICTION_TABLES[type].name}
+      WHERE clan_id = ? AND user_id = ? AND expires_at IS NOT NULL AND expires_at <= ?
+    `).bind(clanId, userId, now).run();
+
+    // Only the caller that actually removed the row logs it
+    if (deleted.meta.changes) {
+      await this.logActivity(clanId, userId, type === 'ban' ? 'ban_expired' : 'mute_expired', userId);
+      if (type === 'ban') {
+        await this.clearClanCache(clanId);
+      }
+    }
+  }
+
+  private expiresAfter(hours: number): string {
+    return new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+  }
+
   async unbanUser(clanId: string, userId: string, unbannedBy: string): Promise<void> {
     await this.db.prepare(`
       DELETE FROM clan_banned_users 
@@ -570,47 +1432,149 @@ export class ClanService {
     await this.clearClanCache(clanId);
   }
 
+  // Stats over the last day/week/month, built from the daily clan_stats
+  // snapshots. Totals and active-user counts come from the newest snapshot,
+  // post/member counts are summed and growth is compounded over the window
   async getClanStats(clanId: string, timeframe: string): Promise<ClanStats> {
-    // Get today's stats from clan_stats table
-    const today = new Date().toISOString().split('T')[0];
-    
-    const stats = await this.db.prepare(`
-      SELECT * FROM clan_stats 
-      WHERE clan_id = ? AND date = ?
-    `).bind(clanId, today).first();
-    
-    if (stats) {
+    const days = STATS_TIMEFRAME_DAYS[timeframe] || 7;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const snapshots = await this.db.prepare(`
+      SELECT * FROM clan_stats
+      WHERE clan_id = ? AND date > ?
+      ORDER BY date DESC
+    `).bind(clanId, since).all();
+
+    const rows = snapshots.results || [];
+    const latest = rows[0];
+
+    if (!latest) {
+      // Return default stats if no data
       return {
-        totalPosts: stats.total_posts as number,
-        dailyActiveUsers: stats.daily_active_users as number,
-        weeklyActiveUsers: stats.weekly_active_users as number,
-        monthlyActiveUsers: stats.monthly_active_users as number,
-        growthRate: stats.growth_rate as number,
-        engagementRate: stats.engagement_rate as number,
-        postsToday: stats.posts_today as number,
-        activeUsers: stats.daily_active_users as number,
-        activeMembers: stats.daily_active_users as number,
-        recentPosts: stats.posts_today as number,
-        recentMembers: stats.new_members as number
+        totalPosts: 0,
+        dailyActiveUsers: 0,
+        weeklyActiveUsers: 0,
+        monthlyActiveUsers: 0,
+        growthRate: 0,
+        engagementRate: 0,
+        postsToday: 0,
+        activeUsers: 0,
+        activeMembers: 0,
+        recentPosts: 0,
+        recentMembers: 0
       };
     }
-    
-    // Return default stats if no data
+
+    const sum = (column: string) => rows.reduce((total, row) => total + ((row[column] as number) || 0), 0);
+    const growth = rows.reduce((factor, row) => factor * (1 + ((row.growth_rate as number) || 0) / 100), 1);
+    const activeUsers = days === 1
+      ? latest.daily_active_users as number
+      : days === 7
+        ? latest.weekly_active_users as number
+        : latest.monthly_active_users as number;
+
     return {
-      totalPosts: 0,
-      dailyActiveUsers: 0,
-      weeklyActiveUsers: 0,
-      monthlyActiveUsers: 0,
-      growthRate: 0,
-      engagementRate: 0,
-      postsToday: 0,
-      activeUsers: 0,
-      activeMembers: 0,
-      recentPosts: 0,
-      recentMembers: 0
+      totalPosts: latest.total_posts as number,
+      dailyActiveUsers: latest.daily_active_users as number,
+      weeklyActiveUsers: latest.weekly_active_users as number,
+      monthlyActiveUsers: latest.monthly_active_users as number,
+      growthRate: Math.round((growth - 1) * 10000) / 100,
+      engagementRate: Math.round((sum('engagement_rate') / rows.length) * 100) / 100,
+      postsToday: latest.date === new Date().toISOString().split('T')[0] ? latest.posts_today as number : 0,
+      activeUsers,
+      activeMembers: activeUsers,
+      recentPosts: sum('posts_today'),
+      recentMembers: sum('new_members')
     };
   }
 
+  // Upsert the clan_stats row of every active clan for the UTC day of the
+  // hour that just ended, so the run right after midnight closes out the
+  // previous day. Safe to re-run; returns the number of rows written
+  async recordDailyStats(now: Date = new Date()): Promise<number> {
+    const hour = 60 * 60 * 1000;
+    const until = new Date(Math.floor(now.getTime() / hour) * hour);
+    const date = new Date(until.getTime() - 1).toISOString().split('T')[0];
+
+    const dayStart = `${date}T00:00:00.000Z`;
+    const weekStart = new Date(until.getTime() - 7 * 24 * hour).toISOString();
+    const monthStart = new Date(until.getTime() - 30 * 24 * hour).toISOString();
+    const end = until.toISOString();
+
+    // Timestamps are stored both as ISO strings and as CURRENT_TIMESTAMP,
+    // so compare them through datetime()
+    const between = (column: string) => `datetime(${column}) >= datetime(?) AND datetime(${column}) < datetime(?)`;
+
+    // Members who posted in the clan or show up in its activity log
+    const activeMembers = `(
+      SELECT COUNT(*) FROM clan_members cm
+      WHERE cm.clan_id = c.id AND (
+        EXISTS(
+          SELECT 1 FROM posts p
+          WHERE p.clan_id = cm.clan_id AND p.user_id = cm.user_id AND ${between('p.created_at')}
+        )
+        OR EXISTS(
+          SELECT 1 FROM clan_activity ca
+          WHERE ca.clan_id = cm.clan_id AND ca.user_id = cm.user_id AND ${between('ca.created_at')}
+        )
+      )
+    )`;
+
+    const result = await this.db.prepare(`
+      INSERT INTO clan_stats (
+        id, clan_id, date, total_posts, daily_active_users, weekly_active_users,
+        monthly_active_users, new_members, posts_today, engagement_rate, growth_rate
+      )
+      SELECT
+        s.clan_id || ':' || ?, s.clan_id, ?, s.total_posts, s.daily_active_users,
+        s.weekly_active_users, s.monthly_active_users, s.new_members, s.posts_today,
+        CASE WHEN s.member_count > 0
+          THEN ROUND(s.daily_active_users * 100.0 / s.member_count, 2) ELSE 0 END,
+        CASE WHEN s.member_count - s.new_members + s.left_members > 0
+          THEN ROUND((s.new_members - s.left_members) * 100.0 / (s.member_count - s.new_members + s.left_members), 2)
+          ELSE 0 END
+      FROM (
+        SELECT
+          c.id AS clan_id,
+          c.member_count,
+          (SELECT COUNT(*) FROM posts p
+            WHERE p.clan_id = c.id AND p.status = 'active' AND datetime(p.created_at) < datetime(?)) AS total_posts,
+          (SELECT COUNT(*) FROM posts p
+            WHERE p.clan_id = c.id AND p.status = 'active' AND ${between('p.created_at')}) AS posts_today,
+          (SELECT COUNT(*) FROM clan_members cm
+            WHERE cm.clan_id = c.id AND ${between('cm.joined_at')}) AS new_members,
+          (SELECT COUNT(*) FROM clan_activity ca
+            WHERE ca.clan_id = c.id AND ca.activity_type = 'leave' AND ${between('ca.created_at')}) AS left_members,
+          ${activeMembers} AS daily_active_users,
+          ${activeMembers} AS weekly_active_users,
+          ${activeMembers} AS monthly_active_users
+        FROM clans c
+        WHERE c.is_active = 1
+      ) s
+      WHERE true
+      ON CONFLICT (clan_id, date) DO UPDATE SET
+        total_posts = excluded.total_posts,
+        daily_active_users = excluded.daily_active_users,
+        weekly_active_users = excluded.weekly_active_users,
+        monthly_active_users = excluded.monthly_active_users,
+        new_members = excluded.new_members,
+        posts_today = excluded.posts_today,
+        engagement_rate = excluded.engagement_rate,
+        growth_rate = excluded.growth_rate
+    `).bind(
+      date, date,
+      end,
+      dayStart, end,
+      dayStart, end,
+      dayStart, end,
+      dayStart, end, dayStart, end,
+      weekStart, end, weekStart, end,
+      monthStart, end, monthStart, end
+    ).run();
+
+    return result.meta.changes || 0;
+  }
+
   async getClanActivity(clanId: string, timeframe: string): Promise<any[]> {
     const timeframeDays = {
       'day': 1,
@@ -645,7 +1609,7 @@ export class ClanService {
     }));
   }
 
-  private async logActivity(
+  async logActivity(
     clanId: string, 
     userId: string, 
     activityType: string, 
@@ -906,41 +1870,37 @@ export class ClanService {
     hasMore: boolean;
   }> {
     const offset = (page - 1) * limit;
-    const searchPattern = `%${query}%`;
+    const ftsQuery = buildFtsQuery(query);
+    
+    if (!ftsQuery) {
+      return { clans: [], total: 0, hasMore: false };
+    }
     
     // Get total count
     const countResult = await this.db.prepare(`
       SELECT COUNT(*) as total 
-      FROM clans c
-      WHERE c.is_active = 1 
-        AND (c.name LIKE ? OR c.description LIKE ? OR c.display_name LIKE ?)
-    `).bind(searchPattern, searchPattern, searchPattern).first();
+      FROM clans_fts
+      JOIN clans c ON c.id = clans_fts.clan_id
+      WHERE clans_fts MATCH ? AND c.is_active = 1
+    `).bind(ftsQuery).first();
     
     const total = countResult?.total as number || 0;
     
-    // Get matching clans
+    // Get matching clans (name matches outrank description matches)
     const clans = await this.db.prepare(`
       SELECT 
         c.*,
         u.username as founder_username,
         u.profile_image as founder_profile_image
-      FROM clans c
+      FROM clans_fts
+      JOIN clans c ON c.id = clans_fts.clan_id
       JOIN users u ON c.founder_id = u.id
-      WHERE c.is_active = 1 
-        AND (c.name LIKE ? OR c.description LIKE ? OR c.display_name LIKE ?)
+      WHERE clans_fts MATCH ? AND c.is_active = 1
       ORDER BY 
-        CASE 
-          WHEN c.name LIKE ? THEN 1
-          WHEN c.display_name LIKE ? THEN 2
-          ELSE 3
-        END,
+        bm25(clans_fts, 0.0, 10.0, 5.0, 1.0),
         c.member_count DESC
       LIMIT ? OFFSET ?
-    `).bind(
-      searchPattern, searchPattern, searchPattern,
-      query, query,
-      limit, offset
-    ).all();
+    `).bind(ftsQuery, limit, offset).all();
     
     // Format clans
     const formattedClans = clans.results.map(clan => 
@@ -990,6 +1950,10 @@ export class ClanService {
     };
   }
 
+  private getNotificationService(): NotificationService {
+    return this.notifications ?? new NotificationService(this.db, this.cache);
+  }
+
   // Cache management methods
   private async clearClanCache(clanId: string): Promise<void> {
     const keys = await this.cache.list({ prefix: `clan:${clanId}:` });
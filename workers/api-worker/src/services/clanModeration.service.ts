@@ -0,0 +1,315 @@
+// workers/api-worker/src/services/clanModeration.service.ts
+
+import { nanoid } from 'nanoid';
+import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import { ClanService } from './clan.service';
+import { ClanReputationService } from './clanReputation.service';
+
+export type ClanContentType = 'post' | 'post_comment';
+
+// Pinned posts sit above the clan feed; keep the list short
+const MAX_PINNED_POSTS = 3;
+
+export interface ClanReport {
+  id: string;
+  clanId: string;
+  type: ClanContentType;
+  targetId: string;
+  reason: string;
+  description?: string;
+  status: 'pending' | 'reviewed' | 'resolved' | 'dismissed';
+  reporter: {
+    id: string;
+    username?: string;
+  };
+  target: {
+    authorId?: string;
+    authorUsername?: string;
+    content?: string;
+    status?: string;
+  } | null;
+  reviewedBy?: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+// Moderation of content posted in a clan. Permission checks are left to the
+// routes (moderator+ via ClanService.checkUserPermission); this service
+// makes sure the content actually belongs to the clan being moderated
+export class ClanModerationService {
+  constructor(
+    private db: D1Database,
+    private cache: KVNamespace,
+    private clans: ClanService = new ClanService(db, cache),
+    private reputation: ClanReputationService = new ClanReputationService(db, cache, clans)
+  ) {}
+
+  async reportContent(
+    clanId: string,
+    reporterId: string,
+    data: { type: ClanContentType; targetId: string; reason: string; description?: string }
+  ): Promise<string> {
+    const isMember = await this.clans.checkUserPermission(clanId, reporterId, 'member');
+    if (!isMember) {
+      throw new Error('Only clan members can report clan content');
+    }
+
+    await this.getClanContent(clanId, data.type, data.targetId);
+
+    const existing = await this.db.prepare(`
+      SELECT 1 FROM reports
+      WHERE clan_id = ? AND type = ? AND target_id = ? AND reporter_id = ? AND status = 'pending'
+    `).bind(clanId, data.type, data.targetId, reporterId).first();
+
+    if (existing) {
+      throw new Error('You have already reported this content');
+    }
+
+    const reportId = nanoid();
+    await this.db.prepare(`
+      INSERT INTO reports (id, type, target_id, reporter_id, reason, description, status, clan_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+    `).bind(
+      reportId,
+      data.type,
+      data.targetId,
+      reporterId,
+      data.reason,
+      data.description || null,
+      clanId,
+      new Date().toISOString()
+    ).run();
+
+    return reportId;
+  }
+
+  async listReports(
+    clanId: string,
+    options: { status?: string; page: number; limit: number }
+  ): Promise<{ reports: ClanReport[]; hasMore: boolean }> {
+    const offset = (options.page - 1) * options.limit;
+
+    const reports = await this.db.prepare(`
+      SELECT
+        r.*,
+        ru.username as reporter_username,
+        COALESCE(p.user_id, pc.user_id) as target_author_id,
+        au.username as target_author_username,
+        COALESCE(p.content, pc.content) as target_content,
+        COALESCE(p.status, pc.status) as target_status
+      FROM reports r
+      LEFT JOIN users ru ON r.reporter_id = ru.id
+      LEFT JOIN posts p ON r.type = 'post' AND p.id = r.target_id
+      LEFT JOIN post_comments pc ON r.type = 'post_comment' AND pc.id = r.target_id
+      LEFT JOIN users au ON au.id = COALESCE(p.user_id, pc.user_id)
+      WHERE r.clan_id = ? AND r.status = ?
+      ORDER BY r.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(clanId, options.status || 'pending', options.limit + 1, offset).all();
+
+    return {
+      reports: reports.results.slice(0, options.limit).map((report: any) => ({
+        id: report.id,
+        clanId: report.clan_id,
+        type: report.type,
+        targetId: report.target_id,
+        reason: report.reason,
+        description: report.description || undefined,
+        status: report.status,
+        reporter: {
+          id: report.reporter_id,
+          username: report.reporter_username || undefined
+        },
+        // null once the content itself is gone
+        target: report.target_author_id
+          ? {
+              authorId: report.target_author_id,
+              authorUsername: report.target_author_username || undefined,
+              content: report.target_content,
+              status: report.target_status || 'active'
+            }
+          : null,
+        reviewedBy: report.reviewed_by || undefined,
+        createdAt: report.created_at,
+        resolvedAt: report.resolved_at || undefined
+      })),
+      hasMore: reports.results.length > options.limit
+    };
+  }
+
+  async dismissReport(clanId: string, reportId: string, moderatorId: string, reason: string): Promise<void> {
+    const report = await this.db.prepare(`
+      SELECT type, target_id FROM reports WHERE id = ? AND clan_id = ? AND status = 'pending'
+    `).bind(reportId, clanId).first();
+
+    if (!report) {
+      throw new Error('Report not found');
+    }
+
+    await this.db.prepare(`
+      UPDATE reports SET status = 'dismissed', reviewed_by = ?, resolved_at = ?
+      WHERE id = ?
+    `).bind(moderatorId, new Date().toISOString(), reportId).run();
+
+    await this.clans.logActivity(clanId, moderatorId, 'report_dismissed', report.target_id as string, {
+      type: report.type,
+      reportId,
+      reason
+    });
+  }
+
+  // Takes the content down (restorable), resolves its pending reports and
+  // costs the author reputation
+  async removeContent(
+    clanId: string,
+    moderatorId: string,
+    type: ClanContentType,
+    targetId: string,
+    reason: string
+  ): Promise<void> {
+    const content = await this.getClanContent(clanId, type, targetId);
+    if (content.status === 'removed') {
+      throw new Error('Content is already removed');
+    }
+
+    const now = new Date().toISOString();
+    await this.db.batch([
+      ...this.setContentStatus(type, targetId, content.postId, 'removed'),
+      this.db.prepare(`
+        UPDATE reports SET status = 'resolved', reviewed_by = ?, resolved_at = ?
+        WHERE clan_id = ? AND type = ? AND target_id = ? AND status = 'pending'
+      `).bind(moderatorId, now, clanId, type, targetId)
+    ]);
+
+    await this.clans.logActivity(clanId, moderatorId, 'content_removed', targetId, { type, reason });
+    await this.reputation.recordEvent(clanId, content.authorId, 'content_removed', {
+      sourceId: targetId,
+      actorId: moderatorId
+    });
+    await this.clearContentCaches(clanId, content.postId);
+  }
+
+  async restoreContent(
+    clanId: string,
+    moderatorId: string,
+    type: ClanContentType,
+    targetId: string,
+    reason: string
+  ): Promise<void> {
+    const content = await this.getClanContent(clanId, type, targetId);
+    if (content.status !== 'removed') {
+      throw new Error('Content is not removed');
+    }
+
+    await this.db.batch(this.setContentStatus(type, targetId, content.postId, 'active'));
+
+    await this.clans.logActivity(clanId, moderatorId, 'content_restored', targetId, { type, reason });
+    await this.reputation.recordEvent(clanId, content.authorId, 'content_removed', {
+      sourceId: targetId,
+      actorId: moderatorId,
+      reverse: true
+    });
+    await this.clearContentCaches(clanId, content.postId);
+  }
+
+  async setPinned(clanId: string, moderatorId: string, postId: string, pinned: boolean, reason: string): Promise<void> {
+    const post = await this.getClanContent(clanId, 'post', postId);
+    if (post.status !== 'active') {
+      throw new Error('Only active posts can be pinned');
+    }
+
+    if (pinned) {
+      const pinnedCount = await this.db.prepare(`
+        SELECT COUNT(*) as count FROM posts WHERE clan_id = ? AND is_pinned = 1 AND id != ?
+      `).bind(clanId, postId).first();
+
+      if ((pinnedCount?.count as number) >= MAX_PINNED_POSTS) {
+        throw new Error(`A clan can have at most ${MAX_PINNED_POSTS} pinned posts`);
+      }
+    }
+
+    await this.db.prepare(`
+      UPDATE posts SET is_pinned = ?, pinned_at = ? WHERE id = ?
+    `).bind(pinned ? 1 : 0, pinned ? new Date().toISOString() : null, postId).run();
+
+    await this.clans.logActivity(clanId, moderatorId, pinned ? 'post_pinned' : 'post_unpinned', postId, { reason });
+    await this.clearContentCaches(clanId, postId);
+  }
+
+  async setCommentsLocked(
+    clanId: string,
+    moderatorId: string,
+    postId: string,
+    locked: boolean,
+    reason: string
+  ): Promise<void> {
+    await this.getClanContent(clanId, 'post', postId);
+
+    await this.db.prepare(`
+      UPDATE posts SET comments_locked = ? WHERE id = ?
+    `).bind(locked ? 1 : 0, postId).run();
+
+    await this.clans.logActivity(clanId, moderatorId, locked ? 'comments_locked' : 'comments_unlocked', postId, { reason });
+    await this.clearContentCaches(clanId, postId);
+  }
+
+  // The post (or the comment's post) must have been posted in this clan
+  private async getClanContent(
+    clanId: string,
+    type: ClanContentType,
+    targetId: string
+  ): Promise<{ postId: string; authorId: string; status: string }> {
+    const content = type === 'post'
+      ? await this.db.prepare(`
+          SELECT id as post_id, user_id, status FROM posts WHERE id = ? AND clan_id = ?
+        `).bind(targetId, clanId).first()
+      : await this.db.prepare(`
+          SELECT pc.post_id, pc.user_id, pc.status
+          FROM post_comments pc
+          JOIN posts p ON pc.post_id = p.id
+          WHERE pc.id = ? AND p.clan_id = ?
+        `).bind(targetId, clanId).first();
+
+    if (!content) {
+      throw new Error('Content not found in this clan');
+    }
+
+    return {
+      postId: content.post_id as string,
+      authorId: content.user_id as string,
+      status: (content.status as string) || 'active'
+    };
+  }
+
+  // Comment removals also move the post's comment count
+  private setContentStatus(type: ClanContentType, targetId: string, postId: string, status: 'active' | 'removed') {
+    if (type === 'post') {
+      return [
+        this.db.prepare(`
+          UPDATE posts SET status = ?, is_pinned = 0, pinned_at = NULL WHERE id = ?
+        `).bind(status, targetId)
+      ];
+    }
+
+    return [
+      this.db.prepare(`
+        UPDATE post_comments SET status = ? WHERE id = ?
+      `).bind(status, targetId),
+      this.db.prepare(`
+        UPDATE posts
+        SET comments_count = MAX(0, comments_count ${status === 'removed' ? '- 1' : '+ 1'})
+        WHERE id = ?
+      `).bind(postId)
+    ];
+  }
+
+  private async clearContentCaches(clanId: string, postId: string): Promise<void> {
+    for (const prefix of [`feed:clan:${clanId}:`, `post:${postId}`]) {
+      const keys = await this.cache.list({ prefix });
+      for (const key of keys.keys) {
+        await this.cache.delete(key.name);
+      }
+    }
+    await this.cache.delete(`post:comments:${postId}`);
+  }
+}
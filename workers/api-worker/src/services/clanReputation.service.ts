@@ -0,0 +1,288 @@
+// workers/api-worker/src/services/clanReputation.service.ts
+
+import { nanoid } from 'nanoid';
+import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import { ClanService } from './clan.service';
+
+export type ClanReputationEvent =
+  | 'post_created'
+  | 'comment_created'
+  | 'like_received'
+  | 'comment_received'
+  | 'content_removed'
+  | 'award'
+  | 'ban';
+
+// Fixed scores per event. Awards carry the moderator's points and bans are
+// worked out from the member's current reputation
+const REPUTATION_POINTS: Record<
+  Exclude<ClanReputationEvent, 'award' | 'ban'>,
+  { reputation: number; contributions: number }
+> = {
+  post_created: { reputation: 10, contributions: 1 },
+  comment_created: { reputation: 2, contributions: 1 },
+  like_received: { reputation: 1, contributions: 0 },
+  comment_received: { reputation: 2, contributions: 0 },
+  content_removed: { reputation: -15, contributions: -1 }
+};
+
+// Share of reputation a ban takes away
+const BAN_REPUTATION_DECAY = 0.5;
+
+const PROMOTION_ORDER = ['moderator', 'admin'] as const;
+const ROLE_LEVEL: Record<string, number> = { member: 1, moderator: 2, admin: 3, founder: 4 };
+
+// Clan settings key, e.g. { "reputationThresholds": { "moderator": 500 } }
+export interface ReputationThresholds {
+  moderator?: number;
+  admin?: number;
+}
+
+export interface ClanLeaderboardEntry {
+  rank: number;
+  uid: string;
+  username: string;
+  profileImage?: string;
+  role: 'founder' | 'admin' | 'moderator' | 'member';
+  reputation: number;
+  contributions: number;
+}
+
+// Scoring for clan members. Every change is written to
+// clan_reputation_events and mirrored onto clan_members; totals never go
+// below zero, so penalties only take what the member has
+export class ClanReputationService {
+  constructor(
+    private db: D1Database,
+    private cache: KVNamespace,
+    private clans: ClanService = new ClanService(db, cache)
+  ) {}
+
+  // `reverse` undoes an earlier event (unlike, deleted comment, restored
+  // content) so it can't be farmed by repeating it
+  async recordEvent(
+    clanId: string,
+    userId: string,
+    event: Exclude<ClanReputationEvent, 'award' | 'ban'>,
+    options: { sourceId?: string; actorId?: string; reverse?: boolean } = {}
+  ): Promise<void> {
+    const points = REPUTATION_POINTS[event];
+    const sign = options.reverse ? -1 : 1;
+
+    await this.applyDelta(clanId, userId, event, {
+      reputation: points.reputation * sign,
+      contributions: points.contributions * sign,
+      sourceId: options.sourceId,
+      actorId: options.actorId
+    });
+  }
+
+  // Whether the content already scored `event`, e.g. before an edit got
+  // it held by the content filter
+  async hasEvent(sourceId: string, event: ClanReputationEvent): Promise<boolean> {
+    const row = await this.db.prepare(`
+      SELECT 1 FROM clan_reputation_events WHERE source_id = ? AND event_type = ? LIMIT 1
+    `).bind(sourceId, event).first();
+
+    return Boolean(row);
+  }
+
+  // Scores an interaction with a post for the post's author; no-op for
+  // posts outside clans and for people interacting with their own posts
+  async recordPostInteraction(
+    postId: string,
+    actorId: string,
+    event: 'like_received' | 'comment_received',
+    options: { sourceId?: string; reverse?: boolean } = {}
+  ): Promise<void> {
+    const post = await this.db.prepare(`
+      SELECT user_id, clan_id FROM posts WHERE id = ?
+    `).bind(postId).first();
+
+    if (!post?.clan_id || post.user_id === actorId) {
+      return;
+    }
+
+    await this.recordEvent(post.clan_id as string, post.user_id as string, event, {
+      sourceId: options.sourceId || postId,
+      actorId,
+      reverse: options.reverse
+    });
+  }
+
+  async awardPoints(
+    clanId: string,
+    moderatorId: string,
+    userId: string,
+    points: number,
+    reason: string
+  ): Promise<void> {
+    if (moderatorId === userId) {
+      throw new Error('You cannot award points to yourself');
+    }
+
+    const isMember = await this.clans.checkUserPermission(clanId, userId, 'member');
+    if (!isMember) {
+      throw new Error('User is not a member of this clan');
+    }
+
+    await this.applyDelta(clanId, userId, 'award', {
+      reputation: points,
+      contributions: 0,
+      actorId: moderatorId
+    });
+
+    await this.clans.logActivity(clanId, moderatorId, 'reputation_award', userId, { points, reason });
+  }
+
+  // Called once the ban is in place; the reduced total is what the user
+  // starts from if they're allowed back in
+  async applyBanPenalty(clanId: string, userId: string, bannedBy: string): Promise<void> {
+    const totals = await this.getTotals(clanId, userId);
+    const penalty = Math.ceil(totals.reputation * BAN_REPUTATION_DECAY);
+
+    if (penalty > 0) {
+      await this.applyDelta(clanId, userId, 'ban', {
+        reputation: -penalty,
+        contributions: 0,
+        actorId: bannedBy
+      });
+    }
+  }
+
+  async getLeaderboard(
+    clanId: string,
+    options: { sortBy: 'reputation' | 'contributions'; page: number; limit: number }
+  ): Promise<{ members: ClanLeaderboardEntry[]; hasMore: boolean }> {
+    const offset = (options.page - 1) * options.limit;
+    const [primary, secondary] = options.sortBy === 'contributions'
+      ? ['cm.contributions', 'cm.reputation']
+      : ['cm.reputation', 'cm.contributions'];
+
+    const members = await this.db.prepare(`
+      SELECT cm.user_id, cm.role, cm.reputation, cm.contributions, u.username, u.profile_image
+      FROM clan_members cm
+      JOIN users u ON cm.user_id = u.id
+      WHERE cm.clan_id = ?
+      ORDER BY ${primary} DESC, ${secondary} DESC, cm.joined_at ASC
+      LIMIT ? OFFSET ?
+    `).bind(clanId, options.limit + 1, offset).all();
+
+    return {
+      members: members.results.slice(0, options.limit).map((m: any, index) => ({
+        rank: offset + index + 1,
+        uid: m.user_id,
+        username: m.username,
+        profileImage: m.profile_image || undefined,
+        role: m.role,
+        reputation: m.reputation || 0,
+        contributions: m.contributions || 0
+      })),
+      hasMore: members.results.length > options.limit
+    };
+  }
+
+  private async applyDelta(
+    clanId: string,
+    userId: string,
+    event: ClanReputationEvent,
+    delta: { reputation: number; contributions: number; sourceId?: string; actorId?: string }
+  ): Promise<void> {
+    // Clamp against the ledger so it always agrees with clan_members
+    const totals = await this.getTotals(clanId, userId);
+    const reputation = Math.max(delta.reputation, -totals.reputation);
+    const contributions = Math.max(delta.contributions, -totals.contributions);
+
+    if (reputation === 0 && contributions === 0) {
+      return;
+    }
+
+    // Non-members still get the ledger row, it counts once they (re)join
+    await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO clan_reputation_events (
+          id, clan_id, user_id, event_type, reputation_delta, contributions_delta, source_id, actor_id, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        nanoid(),
+        clanId,
+        userId,
+        event,
+        reputation,
+        contributions,
+        delta.sourceId || null,
+        delta.actorId || null,
+        new Date().toISOString()
+      ),
+      this.db.prepare(`
+        UPDATE clan_members
+        SET reputation = reputation + ?, contributions = contributions + ?
+        WHERE clan_id = ? AND user_id = ?
+      `).bind(reputation, contributions, clanId, userId)
+    ]);
+
+    // Awards never promote, see applyAutoPromotion
+    if (reputation > 0 && event !== 'award') {
+      await this.applyAutoPromotion(clanId, userId);
+    }
+  }
+
+  private async getTotals(clanId: string, userId: string): Promise<{ reputation: number; contributions: number }> {
+    const totals = await this.db.prepare(`
+      SELECT
+        COALESCE(SUM(reputation_delta), 0) as reputation,
+        COALESCE(SUM(contributions_delta), 0) as contributions
+      FROM clan_reputation_events
+      WHERE clan_id = ? AND user_id = ?
+    `).bind(clanId, userId).first();
+
+    return {
+      reputation: Math.max(0, (totals?.reputation as number) || 0),
+      contributions: Math.max(0, (totals?.contributions as number) || 0)
+    };
+  }
+
+  // Promotes to the highest role whose threshold the member has reached.
+  // Only ever promotes: roles set by hand above the threshold are kept.
+  // Points from moderator awards don't count toward thresholds, otherwise
+  // moderators could award each other up to admin
+  private async applyAutoPromotion(clanId: string, userId: string): Promise<void> {
+    const member = await this.db.prepare(`
+      SELECT cm.role, cm.reputation, c.settings
+      FROM clan_members cm
+      JOIN clans c ON c.id = cm.clan_id
+      WHERE cm.clan_id = ? AND cm.user_id = ?
+    `).bind(clanId, userId).first();
+
+    if (!member?.settings) {
+      return;
+    }
+
+    let thresholds: ReputationThresholds | undefined;
+    try {
+      thresholds = JSON.parse(member.settings as string)?.reputationThresholds;
+    } catch {
+      return;
+    }
+    if (!thresholds) {
+      return;
+    }
+
+    const earned = await this.db.prepare(`
+      SELECT COALESCE(SUM(reputation_delta), 0) as reputation
+      FROM clan_reputation_events
+      WHERE clan_id = ? AND user_id = ? AND event_type != 'award'
+    `).bind(clanId, userId).first();
+
+    const reputation = Math.min(member.reputation as number, (earned?.reputation as number) || 0);
+    const target = [...PROMOTION_ORDER].reverse().find(role => {
+      const threshold = thresholds![role];
+      return typeof threshold === 'number' && threshold > 0 && reputation >= threshold;
+    });
+
+    if (target && ROLE_LEVEL[target] > (ROLE_LEVEL[member.role as string] || 0)) {
+      await this.clans.updateMemberRole(clanId, userId, target);
+      await this.clans.logActivity(clanId, userId, 'auto_promotion', userId, { newRole: target, reputation });
+    }
+  }
+}
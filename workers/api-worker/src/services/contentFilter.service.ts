@@ -0,0 +1,273 @@
+// workers/api-worker/src/services/contentFilter.service.ts
+
+import { nanoid } from 'nanoid';
+import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import type { Env } from '../types';
+import { extractLinks, findTerm, normalizeText } from '../utils/contentFilter';
+
+// Same names as reports.type, so held content lands in the admin queue
+export type FilteredContentType = 'post' | 'post_comment' | 'flick' | 'comment';
+
+export type ContentVerdict = 'allow' | 'hold' | 'reject';
+
+export interface ContentFilterResult {
+  verdict: ContentVerdict;
+  reasons: string[];
+}
+
+export interface ContentFilterTerm {
+  term: string;
+  action: 'reject' | 'hold';
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Optional outside opinion (toxicity/spam model). Returning null, or
+// throwing, leaves the decision to the built-in checks
+export interface ContentClassifier {
+  classify(text: string, type: FilteredContentType): Promise<{ verdict: ContentVerdict; reason?: string } | null>;
+}
+
+// Reports filed by the filter (see add_content_filter.sql)
+export const SYSTEM_USER_ID = 'system';
+
+const TERMS_CACHE_KEY = 'content_filter:terms';
+const TERMS_CACHE_TTL = 300; // 5 minutes
+
+const MAX_LINKS = 3;
+
+// Posting the same text again within the window is held; doing it this
+// many times is rejected. Short texts ("lol", "first") are left alone
+const DUPLICATE_WINDOW_HOURS = 24;
+const DUPLICATE_REJECT_COUNT = 3;
+const MIN_DUPLICATE_LENGTH = 20;
+
+const CLASSIFIER_TIMEOUT_MS = 3000;
+
+const VERDICT_RANK: Record<ContentVerdict, number> = { allow: 0, hold: 1, reject: 2 };
+
+// Posts the text to CONTENT_CLASSIFIER_URL as { text, type } and expects
+// { verdict: 'allow' | 'hold' | 'reject', reason? } back
+export class HttpContentClassifier implements ContentClassifier {
+  constructor(
+    private url: string,
+    private token?: string
+  ) {}
+
+  async classify(text: string, type: FilteredContentType) {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (this.token) {
+      headers['authorization'] = `Bearer ${this.token}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ text, type }),
+      signal: AbortSignal.timeout(CLASSIFIER_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Classifier responded ${response.status}`);
+    }
+
+    const result = await response.json() as { verdict?: string; reason?: string };
+    if (!result.verdict || !(result.verdict in VERDICT_RANK)) {
+      return null;
+    }
+
+    return { verdict: result.verdict as ContentVerdict, reason: result.reason };
+  }
+}
+
+// Runs user text through the blocklist, spam heuristics and (if set up)
+// the external classifier. The strictest verdict wins
+export class ContentFilterService {
+  constructor(
+    private db: D1Database,
+    private cache: KVNamespace,
+    private classifier?: ContentClassifier
+  ) {}
+
+  // `excludeId` is the content being edited, so it isn't its own duplicate
+  async check(
+    type: FilteredContentType,
+    authorId: string,
+    text: string,
+    options: { excludeId?: string } = {}
+  ): Promise<ContentFilterResult> {
+    const result: ContentFilterResult = { verdict: 'allow', reasons: [] };
+    const flag = (verdict: ContentVerdict, reason: string) => {
+      result.reasons.push(reason);
+      if (VERDICT_RANK[verdict] > VERDICT_RANK[result.verdict]) {
+        result.verdict = verdict;
+      }
+    };
+
+    const terms = await this.listTerms();
+    const rejectTerm = findTerm(text, terms.filter(t => t.action === 'reject').map(t => t.term));
+    if (rejectTerm) {
+      flag('reject', 'blocked_term');
+    } else if (findTerm(text, terms.filter(t => t.action === 'hold').map(t => t.term))) {
+      flag('hold', 'watched_term');
+    }
+
+    const links = extractLinks(text);
+    if (links.length > MAX_LINKS) {
+      flag('hold', 'too_many_links');
+    } else if (new Set(links).size < links.length) {
+      flag('hold', 'repeated_link');
+    }
+
+    if (normalizeText(text).trim().length >= MIN_DUPLICATE_LENGTH) {
+      const duplicates = await this.countRecentDuplicates(type, authorId, text, options.excludeId);
+      if (duplicates >= DUPLICATE_REJECT_COUNT) {
+        flag('reject', 'duplicate_content');
+      } else if (duplicates > 0) {
+        flag('hold', 'duplicate_content');
+      }
+    }
+
+    // Nothing left to learn once the content is rejected anyway
+    if (this.classifier && result.verdict !== 'reject') {
+      try {
+        const classified = await this.classifier.classify(text, type);
+        if (classified && classified.verdict !== 'allow') {
+          flag(classified.verdict, `classifier${classified.reason ? `:${classified.reason}` : ''}`);
+        }
+      } catch (error) {
+        console.error('Content classifier failed:', error);
+      }
+    }
+
+    return result;
+  }
+
+  // Hides the content until a moderator looks at it and files a report so
+  // it shows up in the admin console. Resolving the report takes the
+  // content down or releases it (AdminService). New content is created
+  // held already, without its mentions, hashtags and reputation; those
+  // are applied on release
+  async holdForReview(type: FilteredContentType, targetId: string, result: ContentFilterResult): Promise<void> {
+    const hold = {
+      post: `UPDATE posts SET status = 'held' WHERE id = ? AND status = 'active'`,
+      post_comment: `UPDATE post_comments SET status = 'held' WHERE id = ? AND COALESCE(status, 'active') = 'active'`,
+      comment: `UPDATE flick_comments SET is_held = 1 WHERE id = ?`,
+      flick: `UPDATE flicks SET is_held = 1 WHERE id = ?`
+    }[type];
+
+    await this.db.batch([
+      this.db.prepare(hold).bind(targetId),
+      this.db.prepare(`
+        INSERT INTO reports (id, type, target_id, reporter_id, reason, description, status, created_at)
+        VALUES (?, ?, ?, ?, 'auto_filter', ?, 'pending', ?)
+      `).bind(
+        nanoid(),
+        type,
+        targetId,
+        SYSTEM_USER_ID,
+        result.reasons.join(', '),
+        new Date().toISOString()
+      )
+    ]);
+
+    if (type === 'post') {
+      await this.cache.delete(`post:${targetId}`);
+    } else if (type === 'flick') {
+      await this.cache.delete(`flick:${targetId}`);
+    } else if (type === 'post_comment') {
+      const comment = await this.db.prepare(`
+        SELECT post_id FROM post_comments WHERE id = ?
+      `).bind(targetId).first();
+      await this.cache.delete(`post:comments:${comment?.post_id}`);
+    }
+  }
+
+  async listTerms(): Promise<ContentFilterTerm[]> {
+    const cached = await this.cache.get(TERMS_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const terms = await this.db.prepare(`
+      SELECT term, action, created_by, created_at FROM content_filter_terms ORDER BY term
+    `).all();
+
+    const formatted: ContentFilterTerm[] = terms.results.map((term: any) => ({
+      term: term.term,
+      action: term.action,
+      createdBy: term.created_by || undefined,
+      createdAt: term.created_at
+    }));
+
+    await this.cache.put(TERMS_CACHE_KEY, JSON.stringify(formatted), { expirationTtl: TERMS_CACHE_TTL });
+    return formatted;
+  }
+
+  // Adding an existing term changes its action
+  async addTerm(term: string, action: 'reject' | 'hold', createdBy: string): Promise<string> {
+    const normalized = normalizeText(term).trim();
+    if (!normalized) {
+      throw new Error('Term is empty');
+    }
+
+    await this.db.prepare(`
+      INSERT INTO content_filter_terms (term, action, created_by, created_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (term) DO UPDATE SET action = excluded.action
+    `).bind(normalized, action, createdBy).run();
+
+    await this.cache.delete(TERMS_CACHE_KEY);
+    return normalized;
+  }
+
+  async removeTerm(term: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM content_filter_terms WHERE term = ?
+    `).bind(normalizeText(term).trim()).run();
+
+    await this.cache.delete(TERMS_CACHE_KEY);
+    return result.meta.changes > 0;
+  }
+
+  // Same author, same text, recently, and still up (held counts)
+  private async countRecentDuplicates(
+    type: FilteredContentType,
+    authorId: string,
+    text: string,
+    excludeId?: string
+  ): Promise<number> {
+    const since = new Date(Date.now() - DUPLICATE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+    const query = {
+      post: `SELECT COUNT(*) as count FROM posts
+             WHERE user_id = ? AND content = ? AND created_at > ? AND id != ? AND status IN ('active', 'held')`,
+      post_comment: `SELECT COUNT(*) as count FROM post_comments
+             WHERE user_id = ? AND content = ? AND created_at > ? AND id != ? AND COALESCE(status, 'active') IN ('active', 'held')`,
+      comment: `SELECT COUNT(*) as count FROM flick_comments
+             WHERE user_id = ? AND content = ? AND created_at > ? AND id != ? AND is_deleted = 0`,
+      flick: `SELECT COUNT(*) as count FROM flicks
+             WHERE user_id = ? AND COALESCE(title, '') || ' ' || COALESCE(description, '') = ?
+               AND created_at > ? AND id != ? AND status != 'deleted'`
+    }[type];
+
+    const result = await this.db.prepare(query)
+      .bind(authorId, text, since, excludeId || '')
+      .first();
+
+    return (result?.count as number) || 0;
+  }
+}
+
+export function createContentFilter(env: Env): ContentFilterService {
+  const classifier = env.CONTENT_CLASSIFIER_URL
+    ? new HttpContentClassifier(env.CONTENT_CLASSIFIER_URL, env.CONTENT_CLASSIFIER_TOKEN)
+    : undefined;
+
+  return new ContentFilterService(env.DB, env.CACHE, classifier);
+}
+
+// Text the filter sees for a flick
+export function flickFilterText(title: string, description?: string | null): string {
+  return `${title} ${description || ''}`;
+}
@@ -1,13 +1,30 @@
 // workers/api-worker/src/services/feed.service.ts - Fixed Version
 
 import type { Post } from '../types';
+import { BlockService, hiddenUsersFilter } from './block.service';
+import { afterCursor, decodeFeedCursor, encodeFeedCursor, recencyBoost } from '../utils/feedCursor';
 
 interface FeedResult {
   posts: Post[];
-  total: number;
   hasMore: boolean;
+  nextCursor: string | null;
 }
 
+export interface FeedPageOptions {
+  cursor?: string;
+  limit: number;
+}
+
+// Public/discover ranking: recency tiers (hours before the anchor -> boost)
+const PUBLIC_RECENCY_TIERS: Array<[number, number]> = [[2, 10000], [6, 5000], [24, 1000]];
+
+const TRENDING_TIMEFRAME_HOURS: Record<string, number> = {
+  '1h': 1,
+  '24h': 24,
+  '7d': 7 * 24,
+  '30d': 30 * 24
+};
+
 export class FeedService {
   constructor(
     private db: D1Database,
@@ -15,226 +32,169 @@ export class FeedService {
   ) {}
   
   // NEW METHOD: Get all public posts (like X's "For You" tab)
-  async getPublicFeed(userId: string | undefined, page: number, limit: number): Promise<FeedResult> {
-    const cacheKey = `feed:public:${userId || 'anon'}:${page}:${limit}`;
+  async getPublicFeed(userId: string | undefined, options: FeedPageOptions): Promise<FeedResult> {
+    const cacheKey = `feed:public:${userId || 'anon'}:${options.cursor || 'first'}:${options.limit}`;
     const cached = await this.cache.get(cacheKey, 'json');
     if (cached) {
-      return cached as FeedResult;
+      return this.withoutHiddenUsers(cached as FeedResult, userId);
     }
     
-    const offset = (page - 1) * limit;
+    const cursor = decodeFeedCursor(options.cursor);
+    const anchor = cursor?.anchor || new Date().toISOString();
+    const recency = recencyBoost('p.created_at', anchor, PUBLIC_RECENCY_TIERS);
+    const hiddenFilter = userId ? hiddenUsersFilter('p.user_id', userId) : null;
+    const keyset = cursor
+      ? afterCursor(cursor, { score: 'feed_score', createdAt: 'created_at', id: 'id' })
+      : null;
     
     // Get ALL public posts with engagement metrics
-    // Similar to X's "For You" algorithm
+    // Similar to X's "For You" algorithm. Anonymous users only see public posts
     const query = `
-      SELECT 
-        p.*,
-        u.username,
-        u.profile_image as user_profile_image,
-        u.is_verified,
-        (
-          SELECT COUNT(*) FROM post_likes WHERE post_id = p.id
-        ) as actual_likes,
-        (
-          SELECT COUNT(*) FROM post_comments WHERE post_id = p.id
-        ) as actual_comments,
-        (
-          SELECT COUNT(*) FROM post_shares WHERE post_id = p.id
-        ) as actual_shares,
-        ${userId ? `
-          EXISTS(SELECT 1 FROM post_likes WHERE post_id = p.id AND user_id = ?) as is_liked,
-          EXISTS(SELECT 1 FROM post_bookmarks WHERE post_id = p.id AND user_id = ?) as is_bookmarked,
-          EXISTS(SELECT 1 FROM follows WHERE follower_id = ? AND following_id = p.user_id) as is_following
-        ` : `
-          0 as is_liked,
-          0 as is_bookmarked,
-          0 as is_following
-        `}
-      FROM posts p
-      JOIN users u ON p.user_id = u.id
-      WHERE p.visibility IN ('public', 'followers')
-        AND p.status = 'active'
-        AND u.is_active = 1
-      ORDER BY 
-        -- Boost recent posts with high engagement
-        CASE 
-          WHEN p.created_at > datetime('now', '-2 hours') THEN 10000
-          WHEN p.created_at > datetime('now', '-6 hours') THEN 5000
-          WHEN p.created_at > datetime('now', '-24 hours') THEN 1000
-          ELSE 0
-        END +
-        (
-          (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) * 10 +
-          (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) * 20 +
-          (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) * 30
-        ) DESC,
-        p.created_at DESC
-      LIMIT ? OFFSET ?
-    `;
-    
-    let posts;
-    if (userId) {
-      posts = await this.db.prepare(query)
-        .bind(userId, userId, userId, limit, offset)
-        .all();
-    } else {
-      // For anonymous users, simpler query without user-specific fields
-      const anonQuery = `
+      SELECT * FROM (
         SELECT 
           p.*,
           u.username,
           u.profile_image as user_profile_image,
           u.is_verified,
-          (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) as actual_likes,
-          (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) as actual_comments,
-          (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) as actual_shares,
-          0 as is_liked,
-          0 as is_bookmarked,
-          0 as is_following
+          (
+            SELECT COUNT(*) FROM post_likes WHERE post_id = p.id
+          ) as actual_likes,
+          (
+            SELECT COUNT(*) FROM post_comments WHERE post_id = p.id AND status = 'active'
+          ) as actual_comments,
+          (
+            SELECT COUNT(*) FROM post_shares WHERE post_id = p.id
+          ) as actual_shares,
+          ${userId ? `
+            EXISTS(SELECT 1 FROM post_likes WHERE post_id = p.id AND user_id = ?) as is_liked,
+            EXISTS(SELECT 1 FROM post_bookmarks WHERE post_id = p.id AND user_id = ?) as is_bookmarked,
+            EXISTS(SELECT 1 FROM follows WHERE follower_id = ? AND following_id = p.user_id) as is_following,
+          ` : `
+            0 as is_liked,
+            0 as is_bookmarked,
+            0 as is_following,
+          `}
+          -- Boost recent posts with high engagement
+          ${recency.sql} +
+          (
+            (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) * 10 +
+            (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id AND status = 'active') * 20 +
+            (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) * 30
+          ) as feed_score
         FROM posts p
         JOIN users u ON p.user_id = u.id
-        WHERE p.visibility = 'public'
+        WHERE p.visibility IN (${userId ? `'public', 'followers'` : `'public'`})
           AND p.status = 'active'
           AND u.is_active = 1
-        ORDER BY 
-          CASE 
-            WHEN p.created_at > datetime('now', '-2 hours') THEN 10000
-            WHEN p.created_at > datetime('now', '-6 hours') THEN 5000
-            WHEN p.created_at > datetime('now', '-24 hours') THEN 1000
-            ELSE 0
-          END +
-          (
-            (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) * 10 +
-            (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) * 20 +
-            (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) * 30
-          ) DESC,
-          p.created_at DESC
-        LIMIT ? OFFSET ?
-      `;
-      posts = await this.db.prepare(anonQuery).bind(limit, offset).all();
-    }
-    
-    // Get total count
-    const countQuery = `
-      SELECT COUNT(*) as total 
-      FROM posts p
-      JOIN users u ON p.user_id = u.id
-      WHERE p.visibility IN ('public', 'followers')
-        AND p.status = 'active'
-        AND u.is_active = 1
+          AND p.created_at <= ?
+          ${hiddenFilter ? `AND ${hiddenFilter.sql}` : ''}
+      ) ranked
+      ${keyset ? `WHERE ${keyset.sql}` : ''}
+      ORDER BY feed_score DESC, created_at DESC, id DESC
+      LIMIT ?
     `;
-    const countResult = await this.db.prepare(countQuery).first();
-    const total = countResult?.total as number || 0;
     
-    const result = {
-      posts: this.enrichPostsWithMetrics(posts.results),
-      total,
-      hasMore: offset + limit < total
-    };
+    const posts = await this.db.prepare(query).bind(
+      ...(userId ? [userId, userId, userId] : []),
+      ...recency.params,
+      anchor,
+      ...(hiddenFilter?.params || []),
+      ...(keyset?.params || []),
+      options.limit + 1
+    ).all();
+    
+    const result = this.toPage(posts.results, options.limit, anchor, true);
     
     // Cache for 2 minutes (shorter for fresh content)
     await this.cache.put(cacheKey, JSON.stringify(result), {
       expirationTtl: 120
     });
     
-    return result;
+    return this.withoutHiddenUsers(result, userId);
   }
   
   // UPDATED: Home feed now calls public feed (like X)
-  async getHomeFeed(userId: string, page: number, limit: number): Promise<FeedResult> {
+  async getHomeFeed(userId: string, options: FeedPageOptions): Promise<FeedResult> {
     // Home feed is now the same as public feed (like X's "For You")
-    return this.getPublicFeed(userId, page, limit);
+    return this.getPublicFeed(userId, options);
   }
   
   // Keep getTrendingFeed as is (for dedicated trending section if needed)
-  async getTrendingFeed(timeframe: string, page: number, limit: number): Promise<FeedResult> {
-    const cacheKey = `feed:trending:${timeframe}:${page}:${limit}`;
+  // Trending is cached for everyone; hidden users are filtered per viewer afterwards
+  async getTrendingFeed(timeframe: string, options: FeedPageOptions, viewerId?: string): Promise<FeedResult> {
+    const cacheKey = `feed:trending:${timeframe}:${options.cursor || 'first'}:${options.limit}`;
     const cached = await this.cache.get(cacheKey, 'json');
     if (cached) {
-      return cached as FeedResult;
+      return this.withoutHiddenUsers(cached as FeedResult, viewerId);
     }
     
-    const offset = (page - 1) * limit;
-    
-    // Calculate timeframe
-    let timeCondition: string;
-    switch (timeframe) {
-      case '1h':
-        timeCondition = "datetime('now', '-1 hour')";
-        break;
-      case '24h':
-        timeCondition = "datetime('now', '-1 day')";
-        break;
-      case '7d':
-        timeCondition = "datetime('now', '-7 days')";
-        break;
-      case '30d':
-        timeCondition = "datetime('now', '-30 days')";
-        break;
-      default:
-        timeCondition = "datetime('now', '-1 day')";
-    }
+    const cursor = decodeFeedCursor(options.cursor);
+    const anchor = cursor?.anchor || new Date().toISOString();
+    
+    // Calculate timeframe (defaults to the last day)
+    const hours = TRENDING_TIMEFRAME_HOURS[timeframe] || 24;
+    const since = new Date(Date.parse(anchor) - hours * 60 * 60 * 1000).toISOString();
+    
+    const keyset = cursor
+      ? afterCursor(cursor, { score: 'feed_score', createdAt: 'created_at', id: 'id' })
+      : null;
     
     // Get trending posts based on engagement
     const query = `
-      SELECT 
-        p.*,
-        u.username,
-        u.profile_image as user_profile_image,
-        u.is_verified,
-        (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) as actual_likes,
-        (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) as actual_comments,
-        (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) as actual_shares,
-        (
-          (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) * 1.0 + 
-          (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) * 2.0 + 
-          (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) * 3.0
-        ) as engagement_score
-      FROM posts p
-      JOIN users u ON p.user_id = u.id
-      WHERE p.visibility = 'public'
-        AND p.created_at > ${timeCondition}
-        AND p.status = 'active'
-      ORDER BY engagement_score DESC, p.created_at DESC
-      LIMIT ? OFFSET ?
+      SELECT * FROM (
+        SELECT 
+          p.*,
+          u.username,
+          u.profile_image as user_profile_image,
+          u.is_verified,
+          (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) as actual_likes,
+          (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id AND status = 'active') as actual_comments,
+          (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) as actual_shares,
+          (
+            (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) * 1.0 + 
+            (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id AND status = 'active') * 2.0 + 
+            (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) * 3.0
+          ) as feed_score
+        FROM posts p
+        JOIN users u ON p.user_id = u.id
+        WHERE p.visibility = 'public'
+          AND p.created_at > ?
+          AND p.created_at <= ?
+          AND p.status = 'active'
+      ) ranked
+      ${keyset ? `WHERE ${keyset.sql}` : ''}
+      ORDER BY feed_score DESC, created_at DESC, id DESC
+      LIMIT ?
     `;
     
-    const posts = await this.db.prepare(query).bind(limit, offset).all();
-    
-    // Get total count
-    const countResult = await this.db.prepare(`
-      SELECT COUNT(*) as total 
-      FROM posts 
-      WHERE visibility = 'public' 
-        AND created_at > ${timeCondition}
-        AND status = 'active'
-    `).first();
-    
-    const total = countResult?.total as number || 0;
+    const posts = await this.db.prepare(query)
+      .bind(since, anchor, ...(keyset?.params || []), options.limit + 1)
+      .all();
     
-    const result = {
-      posts: this.enrichPostsWithMetrics(posts.results),
-      total,
-      hasMore: offset + limit < total
-    };
+    const result = this.toPage(posts.results, options.limit, anchor, true);
     
     // Cache for 10 minutes
     await this.cache.put(cacheKey, JSON.stringify(result), {
       expirationTtl: 600
     });
     
-    return result;
+    return this.withoutHiddenUsers(result, viewerId);
   }
   
   // Keep getFollowingFeed for "Following" tab (like X)
-  async getFollowingFeed(userId: string, page: number, limit: number): Promise<FeedResult> {
-    const cacheKey = `feed:following:${userId}:${page}:${limit}`;
+  async getFollowingFeed(userId: string, options: FeedPageOptions): Promise<FeedResult> {
+    const cacheKey = `feed:following:${userId}:${options.cursor || 'first'}:${options.limit}`;
     const cached = await this.cache.get(cacheKey, 'json');
     if (cached) {
-      return cached as FeedResult;
+      return this.withoutHiddenUsers(cached as FeedResult, userId);
     }
     
-    const offset = (page - 1) * limit;
+    const cursor = decodeFeedCursor(options.cursor);
+    const anchor = cursor?.anchor || new Date().toISOString();
+    const keyset = cursor ? afterCursor(cursor, { createdAt: 'p.created_at', id: 'p.id' }) : null;
+    
+    // Blocks already remove the follow, but muted accounts can still be followed
+    const hiddenFilter = hiddenUsersFilter('p.user_id', userId);
     
     // Get posts only from following users (chronological)
     const query = `
@@ -244,7 +204,7 @@ export class FeedService {
         u.profile_image as user_profile_image,
         u.is_verified,
         (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) as actual_likes,
-        (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) as actual_comments,
+        (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id AND status = 'active') as actual_comments,
         (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) as actual_shares,
         EXISTS(SELECT 1 FROM post_likes WHERE post_id = p.id AND user_id = ?) as is_liked,
         EXISTS(SELECT 1 FROM post_bookmarks WHERE post_id = p.id AND user_id = ?) as is_bookmarked,
@@ -254,100 +214,101 @@ export class FeedService {
       JOIN follows f ON f.following_id = p.user_id AND f.follower_id = ?
       WHERE p.visibility IN ('public', 'followers')
         AND p.status = 'active'
-      ORDER BY p.created_at DESC
-      LIMIT ? OFFSET ?
+        AND ${hiddenFilter.sql}
+        ${keyset ? `AND ${keyset.sql}` : ''}
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT ?
     `;
     
     const posts = await this.db.prepare(query)
-      .bind(userId, userId, userId, limit, offset)
+      .bind(userId, userId, userId, ...hiddenFilter.params, ...(keyset?.params || []), options.limit + 1)
       .all();
     
-    // Get total count
-    const countResult = await this.db.prepare(`
-      SELECT COUNT(*) as total 
-      FROM posts p
-      JOIN follows f ON f.following_id = p.user_id AND f.follower_id = ?
-      WHERE p.visibility IN ('public', 'followers')
-        AND p.status = 'active'
-    `).bind(userId).first();
-    
-    const total = countResult?.total as number || 0;
-    
-    const result = {
-      posts: this.enrichPostsWithMetrics(posts.results),
-      total,
-      hasMore: offset + limit < total
-    };
+    const result = this.toPage(posts.results, options.limit, anchor, false);
     
     // Cache for 5 minutes
     await this.cache.put(cacheKey, JSON.stringify(result), {
       expirationTtl: 300
     });
     
-    return result;
+    return this.withoutHiddenUsers(result, userId);
   }
   
-  async getClanFeed(clanId: string, page: number, limit: number): Promise<FeedResult> {
-    const cacheKey = `feed:clan:${clanId}:${page}:${limit}`;
+  async getClanFeed(clanId: string, options: FeedPageOptions, viewerId?: string): Promise<FeedResult> {
+    const cacheKey = `feed:clan:${clanId}:${options.cursor || 'first'}:${options.limit}`;
     const cached = await this.cache.get(cacheKey, 'json');
     if (cached) {
-      return cached as FeedResult;
+      return this.withoutHiddenUsers(cached as FeedResult, viewerId);
     }
     
-    const offset = (page - 1) * limit;
+    const cursor = decodeFeedCursor(options.cursor);
+    const anchor = cursor?.anchor || new Date().toISOString();
+    const keyset = cursor ? afterCursor(cursor, { createdAt: 'p.created_at', id: 'p.id' }) : null;
     
     // Get posts for specific clan
-    const query = `
+    const select = `
       SELECT 
         p.*, 
         u.username, 
         u.profile_image as user_profile_image,
         u.is_verified,
         (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) as actual_likes,
-        (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) as actual_comments,
+        (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id AND status = 'active') as actual_comments,
         (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) as actual_shares
       FROM posts p
       JOIN users u ON p.user_id = u.id
       WHERE p.clan_id = ? 
         AND p.visibility = 'clan'
         AND p.status = 'active'
-      ORDER BY p.created_at DESC
-      LIMIT ? OFFSET ?
     `;
     
-    const posts = await this.db.prepare(query).bind(clanId, limit, offset).all();
-    
-    // Get total count
-    const countResult = await this.db.prepare(
-      'SELECT COUNT(*) as total FROM posts WHERE clan_id = ? AND visibility = ? AND status = ?'
-    ).bind(clanId, 'clan', 'active').first();
-    
-    const total = countResult?.total as number || 0;
-    
-    const result = {
-      posts: this.enrichPostsWithMetrics(posts.results),
-      total,
-      hasMore: offset + limit < total
-    };
+    const posts = await this.db.prepare(`
+      ${select}
+        AND p.is_pinned = 0
+        ${keyset ? `AND ${keyset.sql}` : ''}
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT ?
+    `).bind(clanId, ...(keyset?.params || []), options.limit + 1).all();
+    
+    const result = this.toPage(posts.results, options.limit, anchor, false);
+    
+    // Pinned posts head the first page and stay out of the paging
+    if (!cursor) {
+      const pinned = await this.db.prepare(`
+        ${select}
+          AND p.is_pinned = 1
+        ORDER BY p.pinned_at DESC
+      `).bind(clanId).all();
+      result.posts = [...this.enrichPostsWithMetrics(pinned.results), ...result.posts];
+    }
     
     // Cache for 5 minutes
     await this.cache.put(cacheKey, JSON.stringify(result), {
       expirationTtl: 300
     });
     
-    return result;
+    return this.withoutHiddenUsers(result, viewerId);
   }
   
-  async getDiscoverFeed(userId: string | undefined, page: number, limit: number): Promise<FeedResult> {
+  async getDiscoverFeed(userId: string | undefined, options: FeedPageOptions): Promise<FeedResult> {
     // Discover is similar to public but with more personalization if logged in
     if (!userId) {
       // For anonymous, just show trending
-      return this.getTrendingFeed('7d', page, limit);
+      return this.getTrendingFeed('7d', options);
     }
     
-    const offset = (page - 1) * limit;
+    const cursor = decodeFeedCursor(options.cursor);
+    const anchor = cursor?.anchor || new Date().toISOString();
+    const since = new Date(Date.parse(anchor) - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const keyset = cursor
+      ? afterCursor(cursor, { score: 'feed_score', createdAt: 'created_at', id: 'id' })
+      : null;
+    
+    const hiddenFilter = hiddenUsersFilter('p.user_id', userId);
     
-    // Personalized discover based on interests
+    // Personalized discover based on interests. Authors the user already
+    // interacts with always rank above the rest (the relevance boost dwarfs
+    // any engagement score), then engagement decides
     const query = `
       WITH user_interactions AS (
         SELECT DISTINCT p.user_id as author_id
@@ -359,47 +320,83 @@ export class FeedService {
         FROM follows
         WHERE follower_id = ?
       )
-      SELECT 
-        p.*,
-        u.username,
-        u.profile_image as user_profile_image,
-        u.is_verified,
-        (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) as actual_likes,
-        (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) as actual_comments,
-        (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) as actual_shares,
-        EXISTS(SELECT 1 FROM post_likes WHERE post_id = p.id AND user_id = ?) as is_liked,
-        EXISTS(SELECT 1 FROM post_bookmarks WHERE post_id = p.id AND user_id = ?) as is_bookmarked,
-        EXISTS(SELECT 1 FROM follows WHERE follower_id = ? AND following_id = p.user_id) as is_following,
-        CASE 
-          WHEN p.user_id IN (SELECT author_id FROM user_interactions) THEN 100
-          ELSE 0
-        END as relevance_score
-      FROM posts p
-      JOIN users u ON p.user_id = u.id
-      WHERE p.visibility = 'public'
-        AND p.status = 'active'
-        AND p.created_at > datetime('now', '-30 days')
-      ORDER BY 
-        relevance_score DESC,
-        (
-          (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) * 10 +
-          (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id) * 20 +
-          (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) * 30
-        ) DESC,
-        p.created_at DESC
-      LIMIT ? OFFSET ?
+      SELECT * FROM (
+        SELECT 
+          p.*,
+          u.username,
+          u.profile_image as user_profile_image,
+          u.is_verified,
+          (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) as actual_likes,
+          (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id AND status = 'active') as actual_comments,
+          (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) as actual_shares,
+          EXISTS(SELECT 1 FROM post_likes WHERE post_id = p.id AND user_id = ?) as is_liked,
+          EXISTS(SELECT 1 FROM post_bookmarks WHERE post_id = p.id AND user_id = ?) as is_bookmarked,
+          EXISTS(SELECT 1 FROM follows WHERE follower_id = ? AND following_id = p.user_id) as is_following,
+          CASE 
+            WHEN p.user_id IN (SELECT author_id FROM user_interactions) THEN 1000000000
+            ELSE 0
+          END +
+          (
+            (SELECT COUNT(*) FROM post_likes WHERE post_id = p.id) * 10 +
+            (SELECT COUNT(*) FROM post_comments WHERE post_id = p.id AND status = 'active') * 20 +
+            (SELECT COUNT(*) FROM post_shares WHERE post_id = p.id) * 30
+          ) as feed_score
+        FROM posts p
+        JOIN users u ON p.user_id = u.id
+        WHERE p.visibility = 'public'
+          AND p.status = 'active'
+          AND p.created_at > ?
+          AND p.created_at <= ?
+          AND ${hiddenFilter.sql}
+      ) ranked
+      ${keyset ? `WHERE ${keyset.sql}` : ''}
+      ORDER BY feed_score DESC, created_at DESC, id DESC
+      LIMIT ?
     `;
     
     const posts = await this.db.prepare(query)
-      .bind(userId, userId, userId, userId, userId, limit, offset)
+      .bind(
+        userId, userId, userId, userId, userId,
+        since, anchor,
+        ...hiddenFilter.params,
+        ...(keyset?.params || []),
+        options.limit + 1
+      )
       .all();
     
-    const total = limit * 10; // Estimate for discover
+    return this.toPage(posts.results, options.limit, anchor, true);
+  }
+  
+  // Trim the limit+1 probe row and build the cursor from the last row kept
+  private toPage(rows: any[], limit: number, anchor: string, ranked: boolean): FeedResult {
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    
+    return {
+      posts: this.enrichPostsWithMetrics(page),
+      hasMore,
+      nextCursor: hasMore && last
+        ? encodeFeedCursor({
+            anchor,
+            createdAt: last.created_at,
+            id: last.id,
+            ...(ranked ? { score: last.feed_score } : {})
+          })
+        : null
+    };
+  }
+  
+  // Drop posts by users the viewer blocked, was blocked by, or muted
+  private async withoutHiddenUsers(result: FeedResult, viewerId?: string): Promise<FeedResult> {
+    if (!viewerId) return result;
+    
+    const hidden = await new BlockService(this.db).getHiddenUserIds(viewerId);
+    if (hidden.size === 0) return result;
     
     return {
-      posts: this.enrichPostsWithMetrics(posts.results),
-      total,
-      hasMore: offset + limit < total
+      ...result,
+      posts: result.posts.filter(post => !hidden.has(post.user_id))
     };
   }
   
@@ -416,6 +413,8 @@ export class FeedService {
       visibility: post.visibility,
       clan_id: post.clan_id,
       status: post.status || 'active',
+      is_pinned: Boolean(post.is_pinned),
+      comments_locked: Boolean(post.comments_locked),
       // Use actual counts from queries
       likes_count: post.actual_likes || post.likes_count || 0,
       comments_count: post.actual_comments || post.comments_count || 0,
@@ -1,7 +1,28 @@
 // workers/api-worker/src/services/flicks.service.ts
 
 import { nanoid } from 'nanoid';
-import type { Flick } from '../types';
+import type { Flick, MentionEntity } from '../types';
+import { NotificationService } from './notification.service';
+import { BlockService, hiddenUsersFilter } from './block.service';
+import { MentionService } from './mention.service';
+import { HashtagService } from './hashtag.service';
+import { normalizeHashtag } from '../utils/hashtags';
+import { buildFtsQuery } from '../utils/search';
+import { afterCursor, decodeFeedCursor, encodeFeedCursor, recencyBoost } from '../utils/feedCursor';
+import type { FeedPageOptions } from './feed.service';
+
+interface FlickFeedResult {
+  flicks: any[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+interface SmartFeedOptions extends FeedPageOptions {
+  // Flicks the user watched within this many hours are left out
+  reshowAfterHours?: number;
+}
+
+const DEFAULT_RESHOW_AFTER_HOURS = 72;
 
 export class FlicksService {
   constructor(
@@ -9,7 +30,8 @@ export class FlicksService {
     private cache: KVNamespace,
     private accountId: string,
     private apiToken: string,
-    private customerCode: string
+    private customerCode: string,
+    private notifications?: NotificationService
   ) {}
 
   async generateUploadUrl(userId: string, data: {
@@ -82,6 +104,8 @@ export class FlicksService {
   description?: string;
   hashtags?: string;
   skipProcessingWait?: boolean;
+  // Held by the content filter: mentions and hashtags wait for release
+  held?: boolean;
 }): Promise<Flick> {
   let videoDetails;
   
@@ -132,9 +156,9 @@ export class FlicksService {
     INSERT INTO flicks (
       id, user_id, username, profile_image, title, description, hashtags,
       stream_video_id, duration, thumbnail_url, animated_thumbnail_url,
-      playback_url, dash_url, status, width, height, size,
+      playback_url, dash_url, status, is_held, width, height, size,
       created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).bind(
     flickId,
     userId,
@@ -150,6 +174,7 @@ export class FlicksService {
     `https://customer-${this.customerCode}.cloudflarestream.com/${data.videoId}/manifest/video.m3u8`,
     `https://customer-${this.customerCode}.cloudflarestream.com/${data.videoId}/manifest/video.mpd`,
     'active',
+    data.held ? 1 : 0,
     videoDetails.input?.width || 1920,
     videoDetails.input?.height || 1080,
     videoDetails.size || 0,
@@ -163,6 +188,14 @@ export class FlicksService {
     VALUES (?, 0, 0, 0, 0, 0)
   `).bind(flickId).run();
 
+  let mentions: MentionEntity[] = [];
+  if (!data.held) {
+    mentions = await this.getMentionService().syncMentions(
+      'flick', flickId, userId, { title: data.title, description: data.description }
+    );
+    await new HashtagService(this.db).syncHashtags('flick', flickId, hashtags, now);
+  }
+
   // Clear user's flicks cache
   await this.cache.delete(`user_flicks:${userId}`);
 
@@ -186,6 +219,7 @@ export class FlicksService {
     size: videoDetails.size || 0,
     created_at: now,
     updated_at: now,
+    mentions,
   };
 }
 
@@ -203,14 +237,18 @@ export class FlicksService {
       LEFT JOIN flick_likes l ON f.id = l.flick_id AND l.user_id = ?
       LEFT JOIN flick_saves s ON f.id = s.flick_id AND s.user_id = ?
       LEFT JOIN users u ON f.user_id = u.id
-      WHERE f.id = ? AND f.status = 'active'
-    `).bind(userId || '', userId || '', flickId).first<any>();
+      WHERE f.id = ? AND f.status = 'active' AND (f.is_held = 0 OR f.user_id = ?)
+    `).bind(userId || '', userId || '', flickId, userId || '').first<any>();
 
     if (!flick) {
       return null;
     }
 
-    return this.formatFlick(flick);
+    const mentions = await this.getMentionService().getMentions(
+      'flick', flickId, { title: flick.title, description: flick.description }
+    );
+
+    return { ...this.formatFlick(flick), mentions };
   }
 
   async getSavedFlicks(userId: string, page: number = 1, limit: number = 20) {
@@ -231,7 +269,7 @@ export class FlicksService {
         LEFT JOIN flick_analytics fa ON f.id = fa.flick_id
         LEFT JOIN flick_likes l ON f.id = l.flick_id AND l.user_id = ?
         LEFT JOIN users u ON f.user_id = u.id
-        WHERE s.user_id = ? AND f.status = 'active'
+        WHERE s.user_id = ? AND f.status = 'active' AND f.is_held = 0
         ORDER BY s.created_at DESC
         LIMIT ? OFFSET ?
       `).bind(userId, userId, limit + 1, offset).all();
@@ -303,7 +341,7 @@ export class FlicksService {
       LEFT JOIN flick_likes l ON f.id = l.flick_id AND l.user_id = ?
       LEFT JOIN flick_saves s ON f.id = s.flick_id AND s.user_id = ?
       LEFT JOIN users u ON f.user_id = u.id
-      WHERE f.user_id = ? AND f.status = 'active'
+      WHERE f.user_id = ? AND f.status = 'active' AND f.is_held = 0
       ORDER BY f.created_at DESC
       LIMIT ? OFFSET ?
     `).bind(currentUserId, currentUserId, targetUserId, limit + 1, offset).all();
@@ -318,13 +356,99 @@ export class FlicksService {
       hasMore,
     };
   }
+  async getFlicksByHashtag(rawTag: string, currentUserId: string, page: number = 1, limit: number = 20) {
+    const tag = normalizeHashtag(rawTag);
+    if (!tag) {
+      return { flicks: [], total: 0, hasMore: false };
+    }
+
+    const offset = (page - 1) * limit;
+    const hiddenFilter = hiddenUsersFilter('f.user_id', currentUserId);
+
+    const flicksData = await this.db.prepare(`
+      SELECT 
+        f.*,
+        fa.views, fa.likes as likesCount, fa.comments as commentsCount,
+        CASE WHEN l.user_id IS NOT NULL THEN 1 ELSE 0 END as isLiked,
+        CASE WHEN s.user_id IS NOT NULL THEN 1 ELSE 0 END as isSaved,
+        u.is_verified
+      FROM content_hashtags ch
+      JOIN flicks f ON f.id = ch.content_id
+      LEFT JOIN flick_analytics fa ON f.id = fa.flick_id
+      LEFT JOIN flick_likes l ON f.id = l.flick_id AND l.user_id = ?
+      LEFT JOIN flick_saves s ON f.id = s.flick_id AND s.user_id = ?
+      LEFT JOIN users u ON f.user_id = u.id
+      WHERE ch.tag = ? AND ch.content_type = 'flick' AND f.status = 'active' AND f.is_held = 0
+        AND ${hiddenFilter.sql}
+      ORDER BY ch.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(currentUserId, currentUserId, tag, ...hiddenFilter.params, limit + 1, offset).all();
+
+    const hasMore = flicksData.results.length > limit;
+
+    const flicks = flicksData.results.slice(0, limit).map((flick: any) => this.formatFlick(flick));
+
+    return {
+      flicks,
+      total: flicks.length,
+      hasMore,
+    };
+  }
+
+  async searchFlicks(query: string, currentUserId: string, page: number = 1, limit: number = 20) {
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) {
+      return { flicks: [], total: 0, hasMore: false };
+    }
+
+    const offset = (page - 1) * limit;
+    const hiddenFilter = hiddenUsersFilter('f.user_id', currentUserId);
+
+    // Title matches rank above description/hashtag matches
+    const flicksData = await this.db.prepare(`
+      SELECT 
+        f.*,
+        fa.views, fa.likes as likesCount, fa.comments as commentsCount,
+        CASE WHEN l.user_id IS NOT NULL THEN 1 ELSE 0 END as isLiked,
+        CASE WHEN s.user_id IS NOT NULL THEN 1 ELSE 0 END as isSaved,
+        u.is_verified
+      FROM flicks_fts
+      JOIN flicks f ON f.id = flicks_fts.flick_id
+      LEFT JOIN flick_analytics fa ON f.id = fa.flick_id
+      LEFT JOIN flick_likes l ON f.id = l.flick_id AND l.user_id = ?
+      LEFT JOIN flick_saves s ON f.id = s.flick_id AND s.user_id = ?
+      LEFT JOIN users u ON f.user_id = u.id
+      WHERE flicks_fts MATCH ? AND f.status = 'active' AND f.is_held = 0
+        AND ${hiddenFilter.sql}
+      ORDER BY bm25(flicks_fts, 0.0, 10.0, 2.0, 4.0), fa.views DESC
+      LIMIT ? OFFSET ?
+    `).bind(currentUserId, currentUserId, ftsQuery, ...hiddenFilter.params, limit + 1, offset).all();
+
+    const hasMore = flicksData.results.length > limit;
+
+    const flicks = flicksData.results.slice(0, limit).map((flick: any) => this.formatFlick(flick));
+
+    return {
+      flicks,
+      total: flicks.length,
+      hasMore,
+    };
+  }
+
   // SMART FEED ALGORITHM - Enhanced feed with diversity
-async getSmartFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
-  flicks: any[];
-  total: number;
-  hasMore: boolean;
-}> {
-  const offset = (page - 1) * limit;
+async getSmartFeed(userId: string, options: SmartFeedOptions): Promise<FlickFeedResult> {
+  const cursor = decodeFeedCursor(options.cursor);
+  if (cursor?.fallback) {
+    return this.getBasicFeed(userId, options);
+  }
+
+  const anchor = cursor?.anchor || new Date().toISOString();
+  const reshowAfterHours = options.reshowAfterHours ?? DEFAULT_RESHOW_AFTER_HOURS;
+  const seenSince = new Date(Date.parse(anchor) - reshowAfterHours * 60 * 60 * 1000).toISOString();
+  // The "random" mix is seeded per scroll session so every page of it
+  // ranks flicks the same way; a fresh pull-to-refresh gets a new seed
+  const seed = cursor?.seed ?? Math.floor(Math.random() * 1_000_000) + 1;
+  const limit = options.limit;
   
   try {
     // This query creates a smart feed with:
@@ -332,9 +456,21 @@ async getSmartFeed(userId: string, page: number = 1, limit: number = 20): Promis
     // 2. Engagement metrics (likes, comments, shares matter)
     // 3. Following preference (content from people you follow)
     // 4. Verified creator boost
-    // 5. Random mixing to keep it fresh
+    // 5. Seeded jitter to keep it fresh
     // 6. Limits per user to prevent spam
+    // 7. Nothing the user watched within the re-show window
     
+    const hiddenFilter = hiddenUsersFilter('f.user_id', userId);
+    const recency = recencyBoost(
+      'f.created_at',
+      anchor,
+      [[1, 1000], [6, 500], [24, 200], [72, 50], [168, 20]],
+      10
+    );
+    const keyset = cursor
+      ? afterCursor(cursor, { score: 'feedScore', createdAt: 'created_at', id: 'id' })
+      : null;
+
     const query = `
       WITH RankedFlicks AS (
         SELECT 
@@ -352,15 +488,8 @@ async getSmartFeed(userId: string, page: number = 1, limit: number = 20): Promis
           u.bio,
           -- Calculate relevance score
           (
-            -- Recency score (newer = higher)
-            CASE 
-              WHEN f.created_at >= datetime('now', '-1 hour') THEN 1000
-              WHEN f.created_at >= datetime('now', '-6 hours') THEN 500
-              WHEN f.created_at >= datetime('now', '-24 hours') THEN 200
-              WHEN f.created_at >= datetime('now', '-3 days') THEN 50
-              WHEN f.created_at >= datetime('now', '-7 days') THEN 20
-              ELSE 10
-            END +
+            -- Recency score (newer = higher), measured from the anchor
+            ${recency.sql} +
             -- Engagement score
             (
               COALESCE(fa.views, 0) * 0.1 + 
@@ -380,8 +509,14 @@ async getSmartFeed(userId: string, page: number = 1, limit: number = 20): Promis
               WHEN u.followers_count > 100 THEN 30
               ELSE 0
             END +
-            -- Random factor to mix things up (0-99)
-            (ABS(RANDOM()) % 100)
+            -- Jitter to mix things up (0-99), derived from the flick id and
+            -- the session seed so it's stable across pages
+            ((
+              unicode(substr(f.id, 1, 1)) * 7919 +
+              unicode(substr(f.id, 2, 1)) * 104729 +
+              unicode(substr(f.id, 3, 1)) * 1299709 +
+              unicode(substr(f.id, 4, 1))
+            ) * ? % 100)
           ) as feedScore,
           -- Track user's post rank to prevent one user dominating feed
           ROW_NUMBER() OVER (PARTITION BY f.user_id ORDER BY f.created_at DESC) as user_post_rank
@@ -392,47 +527,75 @@ async getSmartFeed(userId: string, page: number = 1, limit: number = 20): Promis
         LEFT JOIN follows fw ON f.user_id = fw.following_id AND fw.follower_id = ?
         LEFT JOIN users u ON f.user_id = u.id
         WHERE f.status = 'active'
+          AND f.is_held = 0
+          AND f.created_at <= ?
+          AND ${hiddenFilter.sql}
+          AND NOT EXISTS (
+            SELECT 1 FROM flick_seen fsn
+            WHERE fsn.user_id = ? AND fsn.flick_id = f.id AND fsn.last_seen_at > ?
+          )
       )
       SELECT * FROM RankedFlicks
-      WHERE user_post_rank <= 3  -- Max 3 posts per user in each batch
-      ORDER BY feedScore DESC
-      LIMIT ? OFFSET ?
+      WHERE user_post_rank <= 3  -- Max 3 posts per user in the feed
+        ${keyset ? `AND ${keyset.sql}` : ''}
+      ORDER BY feedScore DESC, created_at DESC, id DESC
+      LIMIT ?
     `;
     
     console.log('🚀 Executing smart feed query for user:', userId);
     
     const flicksData = await this.db.prepare(query)
-      .bind(userId, userId, userId, limit * 2, offset) // Fetch extra for diversity
+      .bind(
+        ...recency.params,
+        seed,
+        userId, userId, userId,
+        anchor,
+        ...hiddenFilter.params,
+        userId, seenSince,
+        ...(keyset?.params || []),
+        limit + 1
+      )
       .all();
 
     if (!flicksData.success) {
       console.error('Smart feed query failed:', flicksData.error);
       // Fallback to basic feed
-      return this.getBasicFeed(userId, page, limit);
+      return this.getBasicFeed(userId, options);
     }
 
     if (!flicksData.results || flicksData.results.length === 0) {
-      console.log('No flicks found in smart feed');
-      return { flicks: [], total: 0, hasMore: false };
+      // Everything has been seen - keep the user scrolling chronologically
+      console.log('No unseen flicks left in smart feed');
+      return this.getBasicFeed(userId, { ...options, cursor: this.fallbackCursor(anchor) });
     }
 
     console.log(`Smart feed found ${flicksData.results.length} flicks`);
 
+    const hasMore = flicksData.results.length > limit;
+    const page = flicksData.results.slice(0, limit) as any[];
+    // The cursor follows score order, not the diversified display order, so
+    // diversifying only ever reorders within a page - nothing is skipped
+    // or repeated on the next one
+    const last = page[page.length - 1];
+
     // Diversify the results
-    const diversified = this.diversifyFeed(flicksData.results, limit);
+    const diversified = this.diversifyFeed(page, page.length);
     
     // Format the flicks
     const flicks = diversified.map((flick: any) => this.formatFlick(flick));
 
+    // When the unseen pool runs out the next page continues as the basic feed
     return {
       flicks,
-      total: flicks.length,
-      hasMore: flicksData.results.length >= limit
+      hasMore: true,
+      nextCursor: hasMore
+        ? encodeFeedCursor({ anchor, seed, score: last.feedScore, createdAt: last.created_at, id: last.id })
+        : this.fallbackCursor(anchor)
     };
   } catch (error) {
     console.error('Error in getSmartFeed:', error);
     // Fallback to basic chronological feed
-    return this.getBasicFeed(userId, page, limit);
+    return this.getBasicFeed(userId, options);
   }
 }
 
@@ -504,15 +667,15 @@ private diversifyFeed(flicks: any[], targetLimit: number): any[] {
 }
 
 // Basic feed fallback (chronological)
-async getBasicFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
-  flicks: any[];
-  total: number;
-  hasMore: boolean;
-}> {
-  const offset = (page - 1) * limit;
+async getBasicFeed(userId: string, options: FeedPageOptions): Promise<FlickFeedResult> {
+  const cursor = decodeFeedCursor(options.cursor);
+  const anchor = cursor?.anchor || new Date().toISOString();
+  const keyset = cursor ? afterCursor(cursor, { createdAt: 'f.created_at', id: 'f.id' }) : null;
 
   console.log('📱 Using basic chronological feed as fallback');
 
+  const hiddenFilter = hiddenUsersFilter('f.user_id', userId);
+
   const flicksData = await this.db.prepare(`
     SELECT 
       f.*,
@@ -529,24 +692,59 @@ async getBasicFeed(userId: string, page: number = 1, limit: number = 20): Promis
     LEFT JOIN users u ON f.user_id = u.id
     LEFT JOIN follows fw ON f.user_id = fw.following_id AND fw.follower_id = ?
     WHERE f.status = 'active'
-    ORDER BY f.created_at DESC
-    LIMIT ? OFFSET ?
-  `).bind(userId, userId, userId, limit + 1, offset).all();
+      AND f.is_held = 0
+      AND ${hiddenFilter.sql}
+      ${keyset ? `AND ${keyset.sql}` : ''}
+    ORDER BY f.created_at DESC, f.id DESC
+    LIMIT ?
+  `).bind(userId, userId, userId, ...hiddenFilter.params, ...(keyset?.params || []), options.limit + 1).all();
+
+  const hasMore = flicksData.results.length > options.limit;
+  const page = flicksData.results.slice(0, options.limit) as any[];
+  const last = page[page.length - 1];
+  const flicks = page.map((flick: any) => this.formatFlick(flick));
+
+  return {
+    flicks,
+    hasMore,
+    nextCursor: hasMore
+      ? encodeFeedCursor({ anchor, createdAt: last.created_at, id: last.id, fallback: cursor?.fallback })
+      : null
+  };
+}
+
+// Start of the chronological feed, for a smart feed with no unseen flicks left
+private fallbackCursor(anchor: string): string {
+  return encodeFeedCursor({ anchor, createdAt: anchor, id: '', fallback: true });
+}
 
-  const hasMore = flicksData.results.length > limit;
-  const flicks = flicksData.results.slice(0, limit).map((flick: any) => this.formatFlick(flick));
+async markSeen(userId: string, flickId: string) {
+  const now = new Date().toISOString();
 
-  return { flicks, total: flicks.length, hasMore };
+  await this.db.prepare(`
+    INSERT INTO flick_seen (user_id, flick_id, first_seen_at, last_seen_at, seen_count)
+    VALUES (?, ?, ?, ?, 1)
+    ON CONFLICT (user_id, flick_id) DO UPDATE SET
+      last_seen_at = excluded.last_seen_at,
+      seen_count = seen_count + 1
+  `).bind(userId, flickId, now, now).run();
+}
+
+// Seen rows older than the re-show window no longer hide anything
+async pruneSeen(reshowAfterHours: number = DEFAULT_RESHOW_AFTER_HOURS): Promise<number> {
+  const cutoff = new Date(Date.now() - reshowAfterHours * 60 * 60 * 1000).toISOString();
+
+  const result = await this.db.prepare(`
+    DELETE FROM flick_seen WHERE last_seen_at <= ?
+  `).bind(cutoff).run();
+
+  return result.meta.changes || 0;
 }
 
 // Main feed method - uses smart feed
-async getFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
-  flicks: any[];
-  total: number;
-  hasMore: boolean;
-}> {
+async getFeed(userId: string, options: SmartFeedOptions): Promise<FlickFeedResult> {
   // Always try smart feed first, it has fallback built in
-  return this.getSmartFeed(userId, page, limit);
+  return this.getSmartFeed(userId, options);
 }
 
   async getTrendingFlicks(page: number = 1, limit: number = 20) {
@@ -588,6 +786,7 @@ async getFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
         LEFT JOIN flick_analytics fa ON f.id = fa.flick_id
         LEFT JOIN users u ON f.user_id = u.id
         WHERE f.status = 'active' 
+          AND f.is_held = 0
           AND f.created_at >= datetime('now', '-7 days')
         ORDER BY trendingScore DESC, f.created_at DESC
         LIMIT ? OFFSET ?
@@ -617,7 +816,7 @@ async getFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
           FROM flicks f
           LEFT JOIN flick_analytics fa ON f.id = fa.flick_id
           LEFT JOIN users u ON f.user_id = u.id
-          WHERE f.status = 'active'
+          WHERE f.status = 'active' AND f.is_held = 0
           ORDER BY trendingScore DESC, fa.views DESC, f.created_at DESC
           LIMIT ? OFFSET ?
         `;
@@ -681,6 +880,17 @@ async getFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
       'SELECT id FROM flick_likes WHERE flick_id = ? AND user_id = ?'
     ).bind(flickId, userId).first();
 
+    // Unliking is always allowed; new likes are not across a block
+    if (!existing) {
+      const owner = await this.db.prepare(
+        'SELECT user_id FROM flicks WHERE id = ?'
+      ).bind(flickId).first();
+
+      if (owner && await new BlockService(this.db).isBlockedEitherWay(userId, owner.user_id as string)) {
+        throw new Error('Cannot interact with this user');
+      }
+    }
+
     if (existing) {
       await this.db.prepare(
         'DELETE FROM flick_likes WHERE flick_id = ? AND user_id = ?'
@@ -690,6 +900,8 @@ async getFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
         'UPDATE flick_analytics SET likes = likes - 1 WHERE flick_id = ?'
       ).bind(flickId).run();
 
+      await this.getNotificationService().removeActor(userId, 'flick_like', flickId);
+
       return { liked: false };
     } else {
       await this.db.prepare(
@@ -764,6 +976,8 @@ async getFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
       'UPDATE flicks SET status = ?, updated_at = ? WHERE id = ?'
     ).bind('deleted', new Date().toISOString(), flickId).run();
 
+    await new HashtagService(this.db).removeContent('flick', flickId);
+
     await this.cache.delete(`flick:${flickId}`);
     await this.cache.delete(`user_flicks:${userId}`);
 
@@ -890,29 +1104,29 @@ async getFeed(userId: string, page: number = 1, limit: number = 20): Promise<{
   };
 }
 
+  private getNotificationService(): NotificationService {
+    return this.notifications ?? new NotificationService(this.db, this.cache);
+  }
+
+  private getMentionService(): MentionService {
+    return new MentionService(this.db, this.getNotificationService());
+  }
+
   private async createNotification(
     recipientId: string,
     senderId: string,
     type: string,
     targetType: string,
     targetId: string,
-    message: string
+    action: string
   ) {
-    await this.db.prepare(`
-      INSERT INTO notifications (
-        id, recipient_id, sender_id, type, target_type, target_id,
-        message, is_read, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      nanoid(),
+    await this.getNotificationService().create({
       recipientId,
       senderId,
       type,
       targetType,
       targetId,
-      message,
-      0,
-      new Date().toISOString()
-    ).run();
+      action
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,216 @@
+// workers/api-worker/src/services/hashtag.service.ts
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { normalizeHashtag, parseHashtag } from '../utils/hashtags';
+import { hiddenUsersFilter } from './block.service';
+
+export type HashtagContentType = 'flick' | 'post';
+
+export interface Hashtag {
+  tag: string;
+  displayTag: string;
+  usageCount: number;
+  lastUsedAt: string;
+}
+
+export interface TrendingHashtag {
+  tag: string;
+  count: number;
+  engagement: number;
+  views: number;
+  score: number;
+}
+
+const TRENDING_PERIODS: Record<string, number | null> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  all: null
+};
+
+export class HashtagService {
+  constructor(private db: D1Database) {}
+
+  // Replace the tags indexed for one piece of content. `tags` may be raw
+  // ("#Naruto", "naruto!") - they're normalized and de-duplicated here
+  async syncHashtags(
+    contentType: HashtagContentType,
+    contentId: string,
+    tags: string[],
+    createdAt: string
+  ): Promise<void> {
+    const wanted = new Map<string, string>();
+    for (const raw of tags) {
+      const parsed = parseHashtag(raw);
+      if (parsed && !wanted.has(parsed.tag)) {
+        wanted.set(parsed.tag, parsed.display);
+      }
+    }
+
+    const existing = await this.db.prepare(
+      'SELECT tag FROM content_hashtags WHERE content_type = ? AND content_id = ?'
+    ).bind(contentType, contentId).all();
+    const existingTags = new Set(existing.results.map(row => row.tag as string));
+
+    const added = [...wanted.keys()].filter(tag => !existingTags.has(tag));
+    const removed = [...existingTags].filter(tag => !wanted.has(tag));
+    if (added.length === 0 && removed.length === 0) return;
+
+    const now = new Date().toISOString();
+    const statements = [];
+
+    for (const tag of added) {
+      statements.push(
+        this.db.prepare(`
+          INSERT INTO hashtags (tag, display_tag, usage_count, created_at, last_used_at)
+          VALUES (?, ?, 0, ?, ?)
+          ON CONFLICT (tag) DO UPDATE SET last_used_at = excluded.last_used_at
+        `).bind(tag, wanted.get(tag), now, now),
+        this.db.prepare(`
+          INSERT OR IGNORE INTO content_hashtags (tag, content_type, content_id, created_at)
+          VALUES (?, ?, ?, ?)
+        `).bind(tag, contentType, contentId, createdAt)
+      );
+    }
+
+    for (const tag of removed) {
+      statements.push(
+        this.db.prepare(
+          'DELETE FROM content_hashtags WHERE tag = ? AND content_type = ? AND content_id = ?'
+        ).bind(tag, contentType, contentId)
+      );
+    }
+
+    statements.push(this.recountStatement([...added, ...removed]));
+    await this.db.batch(statements);
+  }
+
+  async removeContent(contentType: HashtagContentType, contentId: string): Promise<void> {
+    const existing = await this.db.prepare(
+      'SELECT tag FROM content_hashtags WHERE content_type = ? AND content_id = ?'
+    ).bind(contentType, contentId).all();
+
+    if (existing.results.length === 0) return;
+
+    await this.db.batch([
+      this.db.prepare(
+        'DELETE FROM content_hashtags WHERE content_type = ? AND content_id = ?'
+      ).bind(contentType, contentId),
+      this.recountStatement(existing.results.map(row => row.tag as string))
+    ]);
+  }
+
+  async getHashtag(rawTag: string): Promise<Hashtag | null> {
+    const tag = normalizeHashtag(rawTag);
+    if (!tag) return null;
+
+    const row = await this.db.prepare(
+      'SELECT * FROM hashtags WHERE tag = ?'
+    ).bind(tag).first();
+
+    if (!row) return null;
+
+    return {
+      tag: row.tag as string,
+      displayTag: row.display_tag as string,
+      usageCount: (row.usage_count as number) || 0,
+      lastUsedAt: row.last_used_at as string
+    };
+  }
+
+  // Public posts carrying the tag, newest first
+  async getPosts(rawTag: string, viewerId: string | undefined, page: number, limit: number) {
+    const tag = normalizeHashtag(rawTag);
+    if (!tag) return { posts: [], hasMore: false };
+
+    const offset = (page - 1) * limit;
+    const hiddenFilter = viewerId ? hiddenUsersFilter('p.user_id', viewerId) : null;
+
+    const result = await this.db.prepare(`
+      SELECT
+        p.*,
+        u.username,
+        u.profile_image as user_profile_image,
+        u.is_verified,
+        EXISTS(SELECT 1 FROM post_likes WHERE post_id = p.id AND user_id = ?) as is_liked,
+        EXISTS(SELECT 1 FROM post_bookmarks WHERE post_id = p.id AND user_id = ?) as is_bookmarked
+      FROM content_hashtags ch
+      JOIN posts p ON p.id = ch.content_id
+      LEFT JOIN users u ON p.user_id = u.id
+      WHERE ch.tag = ? AND ch.content_type = 'post' AND p.visibility = 'public' AND p.status = 'active'
+        ${hiddenFilter ? `AND ${hiddenFilter.sql}` : ''}
+      ORDER BY ch.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(
+      viewerId || 'none',
+      viewerId || 'none',
+      tag,
+      ...(hiddenFilter?.params || []),
+      limit + 1,
+      offset
+    ).all();
+
+    const posts = result.results.slice(0, limit).map((post: any) => {
+      if (post.media_urls && typeof post.media_urls === 'string') {
+        try {
+          post.media_urls = JSON.parse(post.media_urls);
+        } catch {
+          post.media_urls = null;
+        }
+      }
+      return post;
+    });
+
+    return { posts, hasMore: result.results.length > limit };
+  }
+
+  // Ranked over content tagged inside the period; same weighting the
+  // analytics dashboard has always used (engagement + 10% of views)
+  async getTrending(period: string = '7d', limit: number = 20): Promise<TrendingHashtag[]> {
+    const windowMs = period in TRENDING_PERIODS ? TRENDING_PERIODS[period] : TRENDING_PERIODS['7d'];
+    const since = windowMs === null ? null : new Date(Date.now() - windowMs).toISOString();
+
+    const result = await this.db.prepare(`
+      SELECT
+        h.display_tag,
+        COUNT(*) as count,
+        SUM(
+          COALESCE(fa.likes, p.likes_count, 0)
+          + COALESCE(fa.comments, p.comments_count, 0) * 2
+          + COALESCE(fa.shares, p.shares_count, 0) * 3
+          + COALESCE(fa.saves, 0) * 2
+        ) as engagement,
+        SUM(COALESCE(fa.views, 0)) as views
+      FROM content_hashtags ch
+      JOIN hashtags h ON h.tag = ch.tag
+      LEFT JOIN flicks f ON ch.content_type = 'flick' AND f.id = ch.content_id
+      LEFT JOIN flick_analytics fa ON fa.flick_id = f.id
+      LEFT JOIN posts p ON ch.content_type = 'post' AND p.id = ch.content_id
+      WHERE ((f.status = 'active' AND f.is_held = 0) OR (p.visibility = 'public' AND p.status = 'active'))
+        ${since ? 'AND ch.created_at >= ?' : ''}
+      GROUP BY ch.tag
+      ORDER BY engagement + views * 0.1 DESC
+      LIMIT ?
+    `).bind(...(since ? [since, limit] : [limit])).all();
+
+    return result.results.map((row: any) => {
+      const engagement = row.engagement || 0;
+      const views = row.views || 0;
+      return {
+        tag: `#${row.display_tag}`,
+        count: row.count || 0,
+        engagement,
+        views,
+        score: engagement + views * 0.1
+      };
+    });
+  }
+
+  private recountStatement(tags: string[]) {
+    return this.db.prepare(`
+      UPDATE hashtags
+      SET usage_count = (SELECT COUNT(*) FROM content_hashtags ch WHERE ch.tag = hashtags.tag)
+      WHERE tag IN (${tags.map(() => '?').join(', ')})
+    `).bind(...tags);
+  }
+}
@@ -0,0 +1,196 @@
+// workers/api-worker/src/services/mention.service.ts
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { MentionEntity } from '../types';
+import { extractMentions } from '../utils/mentions';
+import type { NotificationService } from './notification.service';
+
+export type MentionContentType = 'post' | 'flick' | 'post_comment' | 'flick_comment';
+
+// Text fields of one piece of content, e.g. { title, description }
+export type MentionFields = Record<string, string | null | undefined>;
+
+// Anything past this is left as plain text (and nobody gets notified)
+const MAX_MENTIONS_PER_CONTENT = 20;
+
+const NOTIFICATION_TARGETS: Record<MentionContentType, { targetType: string; label: string }> = {
+  post: { targetType: 'post', label: 'a post' },
+  flick: { targetType: 'flick', label: 'a flick' },
+  post_comment: { targetType: 'comment', label: 'a comment' },
+  flick_comment: { targetType: 'comment', label: 'a comment' }
+};
+
+export class MentionService {
+  constructor(
+    private db: D1Database,
+    private notifications: NotificationService
+  ) {}
+
+  // Reconcile stored mentions with the current text. Called on create and
+  // on every edit: only users who have never been mentioned in this content
+  // before get a notification
+  async syncMentions(
+    contentType: MentionContentType,
+    contentId: string,
+    authorId: string,
+    fields: MentionFields
+  ): Promise<MentionEntity[]> {
+    const usernames = this.collectUsernames(fields);
+
+    const users = usernames.length > 0
+      ? await this.db.prepare(`
+          SELECT id, username FROM users
+          WHERE username COLLATE NOCASE IN (${usernames.map(() => '?').join(', ')})
+            AND is_active = 1
+        `).bind(...usernames).all()
+      : { results: [] as Record<string, unknown>[] };
+
+    // lowercased username as written -> user id
+    const resolved = new Map<string, string>();
+    for (const user of users.results) {
+      if (user.id === authorId) continue;
+      resolved.set((user.username as string).toLowerCase(), user.id as string);
+    }
+
+    const existing = await this.db.prepare(`
+      SELECT mentioned_user_id, is_active FROM mentions
+      WHERE content_type = ? AND content_id = ?
+    `).bind(contentType, contentId).all();
+
+    const existingByUser = new Map<string, number>();
+    for (const row of existing.results) {
+      existingByUser.set(row.mentioned_user_id as string, row.is_active as number);
+    }
+
+    const now = new Date().toISOString();
+    const statements = [];
+    const newlyMentioned: string[] = [];
+    const currentUserIds = new Set(resolved.values());
+
+    for (const [username, userId] of resolved) {
+      const state = existingByUser.get(userId);
+
+      if (state === undefined) {
+        newlyMentioned.push(userId);
+        statements.push(this.db.prepare(`
+          INSERT INTO mentions (
+            content_type, content_id, mentioned_user_id, mentioner_id,
+            username, is_active, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, 1, ?, ?)
+        `).bind(contentType, contentId, userId, authorId, username, now, now));
+      } else if (state === 0) {
+        statements.push(this.db.prepare(`
+          UPDATE mentions SET is_active = 1, username = ?, updated_at = ?
+          WHERE content_type = ? AND content_id = ? AND mentioned_user_id = ?
+        `).bind(username, now, contentType, contentId, userId));
+      }
+    }
+
+    for (const [userId, isActive] of existingByUser) {
+      if (isActive === 1 && !currentUserIds.has(userId)) {
+        statements.push(this.db.prepare(`
+          UPDATE mentions SET is_active = 0, updated_at = ?
+          WHERE content_type = ? AND content_id = ? AND mentioned_user_id = ?
+        `).bind(now, contentType, contentId, userId));
+      }
+    }
+
+    if (statements.length > 0) {
+      await this.db.batch(statements);
+    }
+
+    const target = NOTIFICATION_TARGETS[contentType];
+    for (const userId of newlyMentioned) {
+      await this.notifications.create({
+        recipientId: userId,
+        senderId: authorId,
+        type: 'mention',
+        targetType: target.targetType,
+        targetId: contentId,
+        action: `mentioned you in ${target.label}`
+      });
+    }
+
+    return this.buildEntities(fields, resolved);
+  }
+
+  async getMentions(
+    contentType: MentionContentType,
+    contentId: string,
+    fields: MentionFields
+  ): Promise<MentionEntity[]> {
+    const result = await this.getMentionsForMany(contentType, [{ id: contentId, fields }]);
+    return result.get(contentId) || [];
+  }
+
+  // Batch lookup for lists (comment threads etc.)
+  async getMentionsForMany(
+    contentType: MentionContentType,
+    items: Array<{ id: string; fields: MentionFields }>
+  ): Promise<Map<string, MentionEntity[]>> {
+    const entities = new Map<string, MentionEntity[]>();
+    const candidates = items.filter(item => this.collectUsernames(item.fields).length > 0);
+    if (candidates.length === 0) return entities;
+
+    const rows = await this.db.prepare(`
+      SELECT content_id, mentioned_user_id, username FROM mentions
+      WHERE content_type = ? AND is_active = 1
+        AND content_id IN (${candidates.map(() => '?').join(', ')})
+    `).bind(contentType, ...candidates.map(item => item.id)).all();
+
+    const byContent = new Map<string, Map<string, string>>();
+    for (const row of rows.results) {
+      const resolved = byContent.get(row.content_id as string) || new Map<string, string>();
+      resolved.set((row.username as string).toLowerCase(), row.mentioned_user_id as string);
+      byContent.set(row.content_id as string, resolved);
+    }
+
+    for (const item of candidates) {
+      const resolved = byContent.get(item.id);
+      if (resolved) {
+        entities.set(item.id, this.buildEntities(item.fields, resolved));
+      }
+    }
+
+    return entities;
+  }
+
+  async deleteMentions(contentType: MentionContentType, contentId: string): Promise<void> {
+    await this.db.prepare(
+      'DELETE FROM mentions WHERE content_type = ? AND content_id = ?'
+    ).bind(contentType, contentId).run();
+  }
+
+  private collectUsernames(fields: MentionFields): string[] {
+    const seen = new Map<string, string>();
+    for (const text of Object.values(fields)) {
+      for (const token of extractMentions(text)) {
+        const key = token.username.toLowerCase();
+        if (!seen.has(key) && seen.size < MAX_MENTIONS_PER_CONTENT) {
+          seen.set(key, token.username);
+        }
+      }
+    }
+    return [...seen.values()];
+  }
+
+  private buildEntities(fields: MentionFields, resolved: Map<string, string>): MentionEntity[] {
+    const entities: MentionEntity[] = [];
+
+    for (const [field, text] of Object.entries(fields)) {
+      for (const token of extractMentions(text)) {
+        const userId = resolved.get(token.username.toLowerCase());
+        if (!userId) continue;
+        entities.push({
+          userId,
+          username: token.username,
+          field,
+          start: token.start,
+          end: token.end
+        });
+      }
+    }
+
+    return entities;
+  }
+}
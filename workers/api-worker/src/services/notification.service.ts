@@ -0,0 +1,532 @@
+// workers/api-worker/src/services/notification.service.ts
+
+import { nanoid } from 'nanoid';
+import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import type { Env } from '../types';
+import { encodeCursor, decodeCursor } from '../utils/cursor';
+import { BlockService } from './block.service';
+import { PushService } from './push.service';
+import { createPushTransports } from './push.transport';
+
+// Types that collapse into a single "alice and 12 others ..." row per target
+const GROUPABLE_TYPES = ['flick_like', 'post_like', 'comment', 'post_comment', 'comment_like', 'share'];
+
+// New activity joins an existing unread group only if that group was
+// touched within this window; after that a fresh row is started
+const GROUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// How many actors to return alongside each notification (avatars stack)
+const ACTORS_PREVIEW_LIMIT = 3;
+
+// Types a user can configure. Other notification types are always delivered
+export const NOTIFICATION_PREFERENCE_TYPES = [
+  'follow',
+  'flick_like',
+  'post_like',
+  'comment',
+  'comment_like',
+  'share',
+  'clan_invite',
+  'clan_join_request',
+  'clan_role_change',
+  'mention'
+];
+
+// Notification types governed by another type's preference
+const PREFERENCE_TYPE_ALIASES: Record<string, string> = {
+  post_comment: 'comment'
+};
+
+export interface NotificationPreference {
+  inApp: boolean;
+  push: boolean;
+  email: boolean;
+}
+
+const DEFAULT_PREFERENCE: NotificationPreference = { inApp: true, push: true, email: true };
+
+export interface NotificationItem {
+  id: string;
+  type: string;
+  targetType: string | null;
+  targetId: string | null;
+  message: string;
+  isRead: boolean;
+  createdAt: string;
+  updatedAt: string;
+  actorCount: number;
+  sender: NotificationActor | null;
+  actors: NotificationActor[];
+}
+
+export interface NotificationActor {
+  id: string;
+  username: string;
+  profileImage: string | null;
+}
+
+export interface CreateNotificationInput {
+  recipientId: string;
+  senderId: string;
+  type: string;
+  targetType: string;
+  targetId: string;
+  // Verb phrase without the actor, e.g. "liked your post"
+  action: string;
+}
+
+interface ListNotificationsOptions {
+  cursor?: string;
+  limit: number;
+  types?: string[];
+  targetTypes?: string[];
+  unreadOnly?: boolean;
+}
+
+interface NotificationCursor {
+  updatedAt: string;
+  id: string;
+}
+
+export class NotificationService {
+  constructor(
+    private db: D1Database,
+    private cache: KVNamespace,
+    private push?: PushService,
+    // Lets push delivery outlive the response (ExecutionContext.waitUntil)
+    private waitUntil?: (promise: Promise<unknown>) => void
+  ) {}
+
+  async listNotifications(userId: string, options: ListNotificationsOptions): Promise<{
+    notifications: NotificationItem[];
+    hasMore: boolean;
+    nextCursor: string | null;
+  }> {
+    const { whereClause, params } = this.buildFilters(userId, options);
+    const conditions = [whereClause];
+
+    // Keyset pagination on (updated_at, id) so new notifications arriving
+    // while the user scrolls don't shift the page boundaries. Grouped rows
+    // bubble up when a new actor joins, hence updated_at rather than created_at
+    const cursor = decodeCursor<NotificationCursor>(options.cursor);
+    if (cursor?.updatedAt && cursor?.id) {
+      conditions.push('(n.updated_at < ? OR (n.updated_at = ? AND n.id < ?))');
+      params.push(cursor.updatedAt, cursor.updatedAt, cursor.id);
+    }
+
+    params.push(options.limit + 1);
+
+    const rows = await this.db.prepare(`
+      SELECT
+        n.*,
+        u.username as sender_username,
+        u.profile_image as sender_profile_image
+      FROM notifications n
+      LEFT JOIN users u ON n.sender_id = u.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY n.updated_at DESC, n.id DESC
+      LIMIT ?
+    `).bind(...params).all();
+
+    const hasMore = rows.results.length > options.limit;
+    const page = rows.results.slice(0, options.limit);
+    const last = page[page.length - 1];
+    const actors = await this.getActorPreviews(page.map(row => row.id as string));
+
+    return {
+      notifications: page.map(row => this.formatNotification(row, actors.get(row.id as string) || [])),
+      hasMore,
+      nextCursor: hasMore && last
+        ? encodeCursor({ updatedAt: last.updated_at, id: last.id })
+        : null
+    };
+  }
+
+  async create(input: CreateNotificationInput): Promise<string | null> {
+    if (input.recipientId === input.senderId) return null;
+
+    // Nothing crosses a block, and muted users can't reach the muter
+    const blockService = new BlockService(this.db);
+    if (
+      await blockService.isBlockedEitherWay(input.recipientId, input.senderId) ||
+      await blockService.isMuted(input.recipientId, input.senderId)
+    ) {
+      return null;
+    }
+
+    const preference = await this.getPreference(input.recipientId, input.type);
+    if (!preference.inApp && !preference.push) return null;
+
+    const now = new Date().toISOString();
+
+    // Push-only: nothing lands in the inbox, so there is no group to join
+    if (!preference.inApp) {
+      const sender = await this.db.prepare(
+        'SELECT username FROM users WHERE id = ?'
+      ).bind(input.senderId).first();
+
+      await this.schedulePush({
+        ...input,
+        id: nanoid(),
+        message: `${(sender?.username as string) || 'Someone'} ${input.action}`
+      });
+      return null;
+    }
+
+    if (GROUPABLE_TYPES.includes(input.type)) {
+      const windowStart = new Date(Date.now() - GROUP_WINDOW_MS).toISOString();
+      const group = await this.db.prepare(`
+        SELECT id FROM notifications
+        WHERE recipient_id = ? AND type = ? AND target_id = ?
+          AND is_read = 0 AND updated_at >= ?
+        ORDER BY updated_at DESC
+        LIMIT 1
+      `).bind(input.recipientId, input.type, input.targetId, windowStart).first();
+
+      if (group) {
+        const groupId = group.id as string;
+        await this.db.batch([
+          this.db.prepare(`
+            INSERT INTO notification_actors (notification_id, actor_id, created_at)
+            VALUES (?, ?, ?)
+            ON CONFLICT (notification_id, actor_id) DO UPDATE SET created_at = excluded.created_at
+          `).bind(groupId, input.senderId, now),
+          this.db.prepare(`
+            UPDATE notifications SET action_text = ?, updated_at = ? WHERE id = ?
+          `).bind(input.action, now, groupId)
+        ]);
+        const message = await this.refreshGroup(groupId);
+        if (message && preference.push) {
+          await this.schedulePush({ ...input, id: groupId, message });
+        }
+        return groupId;
+      }
+    }
+
+    const sender = await this.db.prepare(
+      'SELECT username FROM users WHERE id = ?'
+    ).bind(input.senderId).first();
+
+    const id = nanoid();
+    const message = `${(sender?.username as string) || 'Someone'} ${input.action}`;
+    await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO notifications (
+          id, recipient_id, sender_id, type, target_type, target_id,
+          message, action_text, actor_count, is_read, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, 0, ?, ?)
+      `).bind(
+        id,
+        input.recipientId,
+        input.senderId,
+        input.type,
+        input.targetType,
+        input.targetId,
+        message,
+        input.action,
+        now,
+        now
+      ),
+      this.db.prepare(`
+        INSERT INTO notification_actors (notification_id, actor_id, created_at)
+        VALUES (?, ?, ?)
+      `).bind(id, input.senderId, now)
+    ]);
+
+    if (preference.push) {
+      await this.schedulePush({ ...input, id, message });
+    }
+
+    return id;
+  }
+
+  // Undo an actor's contribution (e.g. an unlike). Groups shrink and the
+  // summary is rebuilt; a group left with no actors is deleted outright
+  async removeActor(senderId: string, type: string, targetId: string): Promise<void> {
+    const groups = await this.db.prepare(`
+      SELECT n.id
+      FROM notifications n
+      JOIN notification_actors na ON na.notification_id = n.id
+      WHERE n.type = ? AND n.target_id = ? AND na.actor_id = ?
+    `).bind(type, targetId, senderId).all();
+
+    for (const group of groups.results) {
+      await this.db.prepare(`
+        DELETE FROM notification_actors WHERE notification_id = ? AND actor_id = ?
+      `).bind(group.id, senderId).run();
+      await this.refreshGroup(group.id as string);
+    }
+  }
+
+  async getPreferences(userId: string): Promise<Record<string, NotificationPreference>> {
+    const rows = await this.db.prepare(
+      'SELECT type, in_app, push, email FROM notification_preferences WHERE user_id = ?'
+    ).bind(userId).all();
+
+    const preferences: Record<string, NotificationPreference> = {};
+    for (const type of NOTIFICATION_PREFERENCE_TYPES) {
+      preferences[type] = { ...DEFAULT_PREFERENCE };
+    }
+
+    for (const row of rows.results) {
+      if (!NOTIFICATION_PREFERENCE_TYPES.includes(row.type as string)) continue;
+      preferences[row.type as string] = this.formatPreference(row);
+    }
+
+    return preferences;
+  }
+
+  async updatePreferences(
+    userId: string,
+    updates: Record<string, Partial<NotificationPreference>>
+  ): Promise<Record<string, NotificationPreference>> {
+    const current = await this.getPreferences(userId);
+    const now = new Date().toISOString();
+
+    const statements = Object.entries(updates).map(([type, update]) => {
+      const merged = { ...current[type], ...update };
+      return this.db.prepare(`
+        INSERT INTO notification_preferences (user_id, type, in_app, push, email, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (user_id, type) DO UPDATE SET
+          in_app = excluded.in_app,
+          push = excluded.push,
+          email = excluded.email,
+          updated_at = excluded.updated_at
+      `).bind(userId, type, merged.inApp ? 1 : 0, merged.push ? 1 : 0, merged.email ? 1 : 0, now);
+    });
+
+    if (statements.length > 0) {
+      await this.db.batch(statements);
+    }
+
+    return this.getPreferences(userId);
+  }
+
+  async getUnreadCount(userId: string): Promise<{ total: number; byType: Record<string, number> }> {
+    const rows = await this.db.prepare(`
+      SELECT type, COUNT(*) as count
+      FROM notifications
+      WHERE recipient_id = ? AND is_read = 0
+      GROUP BY type
+    `).bind(userId).all();
+
+    const byType: Record<string, number> = {};
+    let total = 0;
+
+    for (const row of rows.results) {
+      const count = (row.count as number) || 0;
+      byType[row.type as string] = count;
+      total += count;
+    }
+
+    return { total, byType };
+  }
+
+  async markAsRead(userId: string, notificationId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE notifications
+      SET is_read = 1
+      WHERE id = ? AND recipient_id = ?
+    `).bind(notificationId, userId).run();
+
+    return !!result.meta.changes;
+  }
+
+  async markAllAsRead(userId: string, options: { types?: string[]; targetTypes?: string[] } = {}): Promise<number> {
+    const { whereClause, params } = this.buildFilters(userId, {
+      ...options,
+      unreadOnly: true
+    });
+
+    const result = await this.db.prepare(`
+      UPDATE notifications AS n
+      SET is_read = 1
+      WHERE ${whereClause}
+    `).bind(...params).run();
+
+    return result.meta.changes || 0;
+  }
+
+  async deleteNotification(userId: string, notificationId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM notifications
+      WHERE id = ? AND recipient_id = ?
+    `).bind(notificationId, userId).run();
+
+    return !!result.meta.changes;
+  }
+
+  private async getPreference(userId: string, type: string): Promise<NotificationPreference> {
+    const preferenceType = PREFERENCE_TYPE_ALIASES[type] || type;
+    if (!NOTIFICATION_PREFERENCE_TYPES.includes(preferenceType)) {
+      return DEFAULT_PREFERENCE;
+    }
+
+    const row = await this.db.prepare(
+      'SELECT in_app, push, email FROM notification_preferences WHERE user_id = ? AND type = ?'
+    ).bind(userId, preferenceType).first();
+
+    return row ? this.formatPreference(row) : DEFAULT_PREFERENCE;
+  }
+
+  private formatPreference(row: any): NotificationPreference {
+    return {
+      inApp: row.in_app === 1,
+      push: row.push === 1,
+      email: row.email === 1
+    };
+  }
+
+  private async schedulePush(notification: CreateNotificationInput & { id: string; message: string }): Promise<void> {
+    if (!this.push) return;
+
+    const job = this.push.dispatch({
+      id: notification.id,
+      recipientId: notification.recipientId,
+      type: notification.type,
+      targetType: notification.targetType,
+      targetId: notification.targetId,
+      message: notification.message
+    }).catch(error => {
+      console.error('Push dispatch error:', error);
+    });
+
+    if (this.waitUntil) {
+      this.waitUntil(job);
+    } else {
+      await job;
+    }
+  }
+
+  // Recompute sender, actor count and message from notification_actors.
+  // Returns the new message, or null if the group was removed
+  private async refreshGroup(notificationId: string): Promise<string | null> {
+    const notification = await this.db.prepare(
+      'SELECT action_text FROM notifications WHERE id = ?'
+    ).bind(notificationId).first();
+
+    if (!notification) return null;
+
+    const [latest, total] = await Promise.all([
+      this.db.prepare(`
+        SELECT na.actor_id, u.username
+        FROM notification_actors na
+        LEFT JOIN users u ON na.actor_id = u.id
+        WHERE na.notification_id = ?
+        ORDER BY na.created_at DESC
+        LIMIT 2
+      `).bind(notificationId).all(),
+      this.db.prepare(
+        'SELECT COUNT(*) as count FROM notification_actors WHERE notification_id = ?'
+      ).bind(notificationId).first()
+    ]);
+
+    const count = (total?.count as number) || 0;
+
+    if (count === 0) {
+      await this.db.prepare('DELETE FROM notifications WHERE id = ?').bind(notificationId).run();
+      return null;
+    }
+
+    const names = latest.results.map(row => (row.username as string) || 'Someone');
+    let actorLabel = names[0];
+    if (count === 2 && names.length === 2) {
+      actorLabel = `${names[0]} and ${names[1]}`;
+    } else if (count > 2) {
+      actorLabel = `${names[0]} and ${count - 1} others`;
+    }
+
+    const message = `${actorLabel} ${notification.action_text || ''}`.trim();
+
+    await this.db.prepare(`
+      UPDATE notifications
+      SET sender_id = ?, actor_count = ?, message = ?
+      WHERE id = ?
+    `).bind(latest.results[0].actor_id, count, message, notificationId).run();
+
+    return message;
+  }
+
+  private async getActorPreviews(notificationIds: string[]): Promise<Map<string, NotificationActor[]>> {
+    const previews = new Map<string, NotificationActor[]>();
+    if (notificationIds.length === 0) return previews;
+
+    const rows = await this.db.prepare(`
+      SELECT na.notification_id, na.actor_id, u.username, u.profile_image
+      FROM notification_actors na
+      LEFT JOIN users u ON na.actor_id = u.id
+      WHERE na.notification_id IN (${notificationIds.map(() => '?').join(', ')})
+      ORDER BY na.created_at DESC
+    `).bind(...notificationIds).all();
+
+    for (const row of rows.results) {
+      const list = previews.get(row.notification_id as string) || [];
+      if (list.length < ACTORS_PREVIEW_LIMIT) {
+        list.push({
+          id: row.actor_id as string,
+          username: (row.username as string) || 'Someone',
+          profileImage: (row.profile_image as string) || null
+        });
+      }
+      previews.set(row.notification_id as string, list);
+    }
+
+    return previews;
+  }
+
+  private buildFilters(
+    userId: string,
+    options: { types?: string[]; targetTypes?: string[]; unreadOnly?: boolean }
+  ): { whereClause: string; params: any[] } {
+    const conditions = ['n.recipient_id = ?'];
+    const params: any[] = [userId];
+
+    if (options.types && options.types.length > 0) {
+      conditions.push(`n.type IN (${options.types.map(() => '?').join(', ')})`);
+      params.push(...options.types);
+    }
+
+    if (options.targetTypes && options.targetTypes.length > 0) {
+      conditions.push(`n.target_type IN (${options.targetTypes.map(() => '?').join(', ')})`);
+      params.push(...options.targetTypes);
+    }
+
+    if (options.unreadOnly) {
+      conditions.push('n.is_read = 0');
+    }
+
+    return { whereClause: conditions.join(' AND '), params };
+  }
+
+  private formatNotification(row: any, actors: NotificationActor[]): NotificationItem {
+    return {
+      id: row.id,
+      type: row.type,
+      targetType: row.target_type || null,
+      targetId: row.target_id || null,
+      message: row.message,
+      isRead: row.is_read === 1 || row.is_read === true,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || row.created_at,
+      actorCount: row.actor_count || 1,
+      sender: row.sender_id ? {
+        id: row.sender_id,
+        username: row.sender_username || 'Someone',
+        profileImage: row.sender_profile_image || null
+      } : null,
+      actors
+    };
+  }
+}
+
+// Wires up push delivery. Pass the request's ExecutionContext so pushes
+// are sent after the response instead of delaying it
+export function createNotificationService(env: Env, ctx?: ExecutionContext): NotificationService {
+  return new NotificationService(
+    env.DB,
+    env.CACHE,
+    new PushService(env.DB, createPushTransports(env)),
+    ctx ? (promise) => ctx.waitUntil(promise) : undefined
+  );
+}
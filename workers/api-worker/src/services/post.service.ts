@@ -4,7 +4,11 @@ import { nanoid } from 'nanoid';
 import type { D1Database } from '@cloudflare/workers-types';
 import type { KVNamespace } from '@cloudflare/workers-types';
 import type { DurableObjectNamespace } from '@cloudflare/workers-types';
-import type { Post } from '../types';
+import type { MentionEntity, Post } from '../types';
+import { NotificationService } from './notification.service';
+import { MentionService } from './mention.service';
+import { HashtagService } from './hashtag.service';
+import { extractHashtags } from '../utils/hashtags';
 
 interface CreatePostData {
   user_id: string;
@@ -13,6 +17,8 @@ interface CreatePostData {
   type: 'text' | 'image' | 'video';
   visibility: 'public' | 'followers' | 'clan';
   clan_id?: string | null;
+  // Held by the content filter: mentions and hashtags wait for release
+  held?: boolean;
 }
 
 interface UpdatePostData {
@@ -31,7 +37,8 @@ export class PostService {
   constructor(
     private db: D1Database,
     private cache: KVNamespace,
-    private counters: DurableObjectNamespace
+    private counters: DurableObjectNamespace,
+    private notifications?: NotificationService
   ) {}
   
   async createPost(data: CreatePostData): Promise<Post> {
@@ -44,9 +51,9 @@ export class PostService {
     // Insert post
     await this.db.prepare(`
       INSERT INTO posts (
-        id, user_id, content, media_urls, type, visibility, clan_id,
+        id, user_id, content, media_urls, type, visibility, clan_id, status,
         likes_count, comments_count, shares_count, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, 0, 0, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, ?, ?)
     `).bind(
       postId,
       data.user_id,
@@ -55,6 +62,7 @@ export class PostService {
       data.type,
       data.visibility,
       data.clan_id || null,
+      data.held ? 'held' : 'active',
       now,
       now
     ).run();
@@ -72,6 +80,16 @@ export class PostService {
       body: JSON.stringify({ likes: 0, comments: 0, shares: 0 })
     }));
     
+    let mentions: MentionEntity[] = [];
+    if (!data.held) {
+      mentions = await this.getMentionService().syncMentions(
+        'post', postId, data.user_id, { content: data.content }
+      );
+      await new HashtagService(this.db).syncHashtags(
+        'post', postId, extractHashtags(data.content), now
+      );
+    }
+    
     // Invalidate caches
     await this.invalidatePostCaches(postId, data.user_id);
     
@@ -87,7 +105,8 @@ export class PostService {
       comments_count: 0,
       shares_count: 0,
       created_at: now,
-      updated_at: now
+      updated_at: now,
+      mentions
     };
   }
   
@@ -128,6 +147,27 @@ export class PostService {
       }
     }
     
+    // Posts taken down by clan moderators, or held by the content filter,
+    // stay visible to their author only
+    if ((result.status === 'removed' || result.status === 'held') && viewerId !== result.user_id) {
+      return null;
+    }
+    
+    // Clan posts are for clan members only
+    if (result.visibility === 'clan' && viewerId !== result.user_id) {
+      const isMember = viewerId && await this.db.prepare(
+        'SELECT 1 FROM clan_members WHERE clan_id = ? AND user_id = ?'
+      ).bind(result.clan_id, viewerId).first();
+      
+      if (!isMember) {
+        return null;
+      }
+    }
+    
+    result.mentions = await this.getMentionService().getMentions(
+      'post', postId, { content: result.content as string }
+    );
+    
     // Cache for 5 minutes
     await this.cache.put(cacheKey, JSON.stringify(result), {
       expirationTtl: 300
@@ -136,7 +176,8 @@ export class PostService {
     return result as unknown as Post;  // FIX: Use unknown first
   }
   
-  async updatePost(postId: string, data: UpdatePostData): Promise<Post> {
+  // A `held` edit waits for release before its mentions and hashtags count
+  async updatePost(postId: string, data: UpdatePostData, options: { held?: boolean } = {}): Promise<Post> {
     const updateFields: string[] = [];
     const values: any[] = [];
     
@@ -175,10 +216,20 @@ export class PostService {
     
     // Get the post to find user_id for cache invalidation
     const post = await this.db.prepare(
-      'SELECT user_id FROM posts WHERE id = ?'
+      'SELECT user_id, created_at FROM posts WHERE id = ?'
     ).bind(postId).first();
     
     if (post) {
+      // Edits only notify users who weren't mentioned before
+      if (data.content !== undefined && !options.held) {
+        await this.getMentionService().syncMentions(
+          'post', postId, post.user_id as string, { content: data.content }
+        );
+        await new HashtagService(this.db).syncHashtags(
+          'post', postId, extractHashtags(data.content), post.created_at as string
+        );
+      }
+      
       // Invalidate caches
       await this.invalidatePostCaches(postId, post.user_id as string);
     }
@@ -203,6 +254,8 @@ async deletePost(postId: string): Promise<void> {
   
   // Delete the post
   await this.db.prepare('DELETE FROM posts WHERE id = ?').bind(postId).run();
+  await this.getMentionService().deleteMentions('post', postId);
+  await new HashtagService(this.db).removeContent('post', postId);
   
   // Update user post count
   await this.db.prepare(`
@@ -298,7 +351,7 @@ private async deleteMatchingKeys(pattern: string): Promise<void> {
     const offset = (page - 1) * limit;
     
     // Build query based on viewer
-    let whereClause = 'user_id = ?';
+    let whereClause = "user_id = ? AND status = 'active'";
     const params: any[] = [userId];
     
     if (viewerId && viewerId !== userId) {
@@ -435,6 +488,13 @@ private async deleteMatchingKeys(pattern: string): Promise<void> {
   }
   
   // Helper methods
+  private getMentionService(): MentionService {
+    return new MentionService(
+      this.db,
+      this.notifications ?? new NotificationService(this.db, this.cache)
+    );
+  }
+  
   private async invalidatePostCaches(postId: string, userId: string): Promise<void> {
     const cacheKeys = [
       `post:${postId}`,
@@ -0,0 +1,174 @@
+// workers/api-worker/src/services/push.service.ts
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { PushTransports } from './push.transport';
+
+export interface PushSettings {
+  pushEnabled: boolean;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+}
+
+export interface PushNotificationPayload {
+  id: string;
+  recipientId: string;
+  type: string;
+  targetType: string | null;
+  targetId: string | null;
+  message: string;
+}
+
+const DEFAULT_SETTINGS: PushSettings = {
+  pushEnabled: true,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: 'UTC'
+};
+
+export class PushService {
+  constructor(
+    private db: D1Database,
+    private transports: PushTransports
+  ) {}
+
+  async dispatch(notification: PushNotificationPayload): Promise<void> {
+    const settings = await this.getSettings(notification.recipientId);
+
+    if (!settings.pushEnabled) {
+      return;
+    }
+
+    if (this.isInQuietHours(settings)) {
+      return;
+    }
+
+    const devices = await this.db.prepare(`
+      SELECT id, platform, push_token
+      FROM device_tokens
+      WHERE user_id = ? AND is_active = 1 AND push_token IS NOT NULL
+    `).bind(notification.recipientId).all();
+
+    if (devices.results.length === 0) return;
+
+    const unread = await this.db.prepare(
+      'SELECT COUNT(*) as count FROM notifications WHERE recipient_id = ? AND is_read = 0'
+    ).bind(notification.recipientId).first();
+
+    await Promise.all(devices.results.map(async (device) => {
+      const transport = this.transports[device.platform as 'ios' | 'android'];
+      if (!transport) return;
+
+      try {
+        const result = await transport.send({
+          token: device.push_token as string,
+          title: 'Aniflixx',
+          body: notification.message,
+          badge: (unread?.count as number) || 0,
+          collapseKey: notification.id,
+          data: {
+            notificationId: notification.id,
+            type: notification.type,
+            targetType: notification.targetType || '',
+            targetId: notification.targetId || ''
+          }
+        });
+
+        if (result.status === 'invalid_token') {
+          console.log(`Disabling dead push token for device ${device.id}: ${result.reason}`);
+          await this.db.prepare(`
+            UPDATE device_tokens
+            SET push_token = NULL, push_token_invalidated_at = ?
+            WHERE id = ?
+          `).bind(new Date().toISOString(), device.id).run();
+        } else if (result.status === 'failed') {
+          console.error(`Push to device ${device.id} failed: ${result.reason}`);
+        }
+      } catch (error) {
+        console.error('Push send error:', error);
+      }
+    }));
+  }
+
+  async getSettings(userId: string): Promise<PushSettings> {
+    const row = await this.db.prepare(
+      'SELECT * FROM push_settings WHERE user_id = ?'
+    ).bind(userId).first();
+
+    if (!row) return { ...DEFAULT_SETTINGS };
+
+    return {
+      pushEnabled: row.push_enabled === 1,
+      quietHoursStart: (row.quiet_hours_start as string) || null,
+      quietHoursEnd: (row.quiet_hours_end as string) || null,
+      timezone: (row.timezone as string) || 'UTC'
+    };
+  }
+
+  async updateSettings(userId: string, updates: Partial<PushSettings>): Promise<PushSettings> {
+    const settings = { ...(await this.getSettings(userId)), ...updates };
+
+    await this.db.prepare(`
+      INSERT INTO push_settings (
+        user_id, push_enabled, quiet_hours_start,
+        quiet_hours_end, timezone, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (user_id) DO UPDATE SET
+        push_enabled = excluded.push_enabled,
+        quiet_hours_start = excluded.quiet_hours_start,
+        quiet_hours_end = excluded.quiet_hours_end,
+        timezone = excluded.timezone,
+        updated_at = excluded.updated_at
+    `).bind(
+      userId,
+      settings.pushEnabled ? 1 : 0,
+      settings.quietHoursStart,
+      settings.quietHoursEnd,
+      settings.timezone,
+      new Date().toISOString()
+    ).run();
+
+    return settings;
+  }
+
+  // Quiet hours may wrap midnight (22:00 - 07:00)
+  private isInQuietHours(settings: PushSettings, now = new Date()): boolean {
+    if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+
+    const start = this.toMinutes(settings.quietHoursStart);
+    const end = this.toMinutes(settings.quietHoursEnd);
+    if (start === null || end === null || start === end) return false;
+
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: settings.timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(now);
+    } catch {
+      // Unknown timezone - fall back to UTC
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: 'UTC',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(now);
+    }
+
+    const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '0');
+    const minute = parseInt(parts.find(p => p.type === 'minute')?.value || '0');
+    const current = hour * 60 + minute;
+
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  private toMinutes(value: string): number | null {
+    const match = /^(\d{2}):(\d{2})$/.exec(value);
+    if (!match) return null;
+    return parseInt(match[1]) * 60 + parseInt(match[2]);
+  }
+}
@@ -0,0 +1,275 @@
+// workers/api-worker/src/services/push.transport.ts
+
+import jwt from '@tsndr/cloudflare-worker-jwt';
+import type { Env } from '../types';
+
+export interface PushMessage {
+  token: string;
+  title: string;
+  body: string;
+  badge?: number;
+  // Devices replace an earlier push carrying the same key (grouped notifications)
+  collapseKey?: string;
+  data?: Record<string, string>;
+}
+
+export type PushResult =
+  | { status: 'sent' }
+  | { status: 'invalid_token'; reason: string }
+  | { status: 'failed'; reason: string }
+  // The platform's transport isn't configured; nothing was attempted
+  | { status: 'skipped'; reason: string };
+
+export interface PushTransport {
+  send(message: PushMessage): Promise<PushResult>;
+}
+
+export type PushTransports = Record<'ios' | 'android', PushTransport>;
+
+// ============================================
+// APNs (token-based auth, HTTP/2 provider API)
+// ============================================
+
+// Apple rejects provider tokens older than an hour and throttles
+// regenerating them more often than every 20 minutes
+const APNS_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+let apnsToken: { value: string; expiresAt: number } | null = null;
+
+export class ApnsTransport implements PushTransport {
+  constructor(
+    private keyId: string,
+    private teamId: string,
+    private privateKey: string,
+    private bundleId: string,
+    private sandbox = false
+  ) {}
+
+  async send(message: PushMessage): Promise<PushResult> {
+    const host = this.sandbox ? 'api.sandbox.push.apple.com' : 'api.push.apple.com';
+
+    const headers: Record<string, string> = {
+      'authorization': `bearer ${await this.getProviderToken()}`,
+      'apns-topic': this.bundleId,
+      'apns-push-type': 'alert',
+      'content-type': 'application/json'
+    };
+    if (message.collapseKey) {
+      headers['apns-collapse-id'] = message.collapseKey;
+    }
+
+    const response = await fetch(`https://${host}/3/device/${message.token}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        aps: {
+          alert: { title: message.title, body: message.body },
+          badge: message.badge,
+          sound: 'default'
+        },
+        ...message.data
+      })
+    });
+
+    if (response.ok) {
+      return { status: 'sent' };
+    }
+
+    const error = await response.json().catch(() => ({})) as { reason?: string };
+    const reason = error.reason || `HTTP ${response.status}`;
+
+    if (response.status === 410 || reason === 'BadDeviceToken' || reason === 'Unregistered') {
+      return { status: 'invalid_token', reason };
+    }
+
+    return { status: 'failed', reason };
+  }
+
+  private async getProviderToken(): Promise<string> {
+    if (apnsToken && apnsToken.expiresAt > Date.now()) {
+      return apnsToken.value;
+    }
+
+    const value = await jwt.sign(
+      { iss: this.teamId, iat: Math.floor(Date.now() / 1000) },
+      this.privateKey,
+      { algorithm: 'ES256', header: { kid: this.keyId } }
+    );
+
+    apnsToken = { value, expiresAt: Date.now() + APNS_TOKEN_TTL_MS };
+    return value;
+  }
+}
+
+// ============================================
+// FCM (HTTP v1 API with a service account)
+// ============================================
+
+let fcmAccessToken: { value: string; expiresAt: number } | null = null;
+
+export class FcmTransport implements PushTransport {
+  constructor(
+    private projectId: string,
+    private clientEmail: string,
+    private privateKey: string
+  ) {}
+
+  async send(message: PushMessage): Promise<PushResult> {
+    const response = await fetch(
+      `https://fcm.googleapis.com/v1/projects/${this.projectId}/messages:send`,
+      {
+        method: 'POST',
+        headers: {
+          'authorization': `Bearer ${await this.getAccessToken()}`,
+          'content-type': 'application/json'
+        },
+        body: JSON.stringify({
+          message: {
+            token: message.token,
+            notification: { title: message.title, body: message.body },
+            data: message.data,
+            android: {
+              collapse_key: message.collapseKey,
+              notification: message.collapseKey ? { tag: message.collapseKey } : undefined
+            }
+          }
+        })
+      }
+    );
+
+    if (response.ok) {
+      return { status: 'sent' };
+    }
+
+    const error = await response.json().catch(() => ({})) as {
+      error?: {
+        status?: string;
+        message?: string;
+        details?: Array<{ errorCode?: string; fieldViolations?: Array<{ field?: string }> }>;
+      };
+    };
+    const errorCode = error.error?.details?.find(d => d.errorCode)?.errorCode;
+    const reason = errorCode || error.error?.status || `HTTP ${response.status}`;
+
+    // INVALID_ARGUMENT also covers a bad payload or project, so it only
+    // retires the token when FCM says the token is what's wrong
+    const badToken = errorCode === 'INVALID_ARGUMENT' && (
+      error.error?.details?.some(d => d.fieldViolations?.some(v => v.field === 'message.token')) ||
+      /registration token/i.test(error.error?.message || '')
+    );
+
+    if (errorCode === 'UNREGISTERED' || badToken) {
+      return { status: 'invalid_token', reason };
+    }
+
+    return { status: 'failed', reason };
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (fcmAccessToken && fcmAccessToken.expiresAt > Date.now()) {
+      return fcmAccessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = await jwt.sign(
+      {
+        iss: this.clientEmail,
+        scope: 'https://www.googleapis.com/auth/firebase.messaging',
+        aud: 'https://oauth2.googleapis.com/token',
+        iat: now,
+        exp: now + 3600
+      },
+      this.privateKey,
+      { algorithm: 'RS256' }
+    );
+
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`FCM token exchange failed: ${response.status}`);
+    }
+
+    const data = await response.json() as { access_token: string; expires_in: number };
+
+    // Refresh a minute early so in-flight sends don't race the expiry
+    fcmAccessToken = {
+      value: data.access_token,
+      expiresAt: Date.now() + (data.expires_in - 60) * 1000
+    };
+    return data.access_token;
+  }
+}
+
+// ============================================
+// Fake transport (local dev and tests)
+// ============================================
+
+export class FakePushTransport implements PushTransport {
+  sent: PushMessage[] = [];
+
+  // Tokens listed here are reported as dead, to exercise token cleanup
+  constructor(private invalidTokens: string[] = []) {}
+
+  async send(message: PushMessage): Promise<PushResult> {
+    if (this.invalidTokens.includes(message.token)) {
+      return { status: 'invalid_token', reason: 'Unregistered' };
+    }
+
+    this.sent.push(message);
+    return { status: 'sent' };
+  }
+}
+
+// ============================================
+// Disabled transport (credentials missing)
+// ============================================
+
+const reportedMissingConfig = new Set<string>();
+
+// Used when a platform's credentials aren't set outside of fake mode, so a
+// misconfigured deploy doesn't pretend pushes were delivered
+export class DisabledPushTransport implements PushTransport {
+  constructor(private platform: 'ios' | 'android', private missing: string) {}
+
+  async send(): Promise<PushResult> {
+    if (!reportedMissingConfig.has(this.platform)) {
+      reportedMissingConfig.add(this.platform);
+      console.error(`Push disabled for ${this.platform}: ${this.missing} not configured`);
+    }
+
+    return { status: 'skipped', reason: 'not_configured' };
+  }
+}
+
+// Real providers when their credentials are configured. PUSH_TRANSPORT=fake
+// uses the fake everywhere (local dev, tests); without it a platform
+// missing credentials gets a disabled transport
+export function createPushTransports(env: Env): PushTransports {
+  if (env.PUSH_TRANSPORT === 'fake') {
+    const fake = new FakePushTransport();
+    return { ios: fake, android: fake };
+  }
+
+  const ios = env.APNS_KEY_ID && env.APNS_TEAM_ID && env.APNS_PRIVATE_KEY && env.APNS_BUNDLE_ID
+    ? new ApnsTransport(
+        env.APNS_KEY_ID,
+        env.APNS_TEAM_ID,
+        env.APNS_PRIVATE_KEY,
+        env.APNS_BUNDLE_ID,
+        env.APNS_USE_SANDBOX === 'true'
+      )
+    : new DisabledPushTransport('ios', 'APNS_KEY_ID/APNS_TEAM_ID/APNS_PRIVATE_KEY/APNS_BUNDLE_ID');
+
+  const android = env.FCM_PROJECT_ID && env.FCM_CLIENT_EMAIL && env.FCM_PRIVATE_KEY
+    ? new FcmTransport(env.FCM_PROJECT_ID, env.FCM_CLIENT_EMAIL, env.FCM_PRIVATE_KEY)
+    : new DisabledPushTransport('android', 'FCM_PROJECT_ID/FCM_CLIENT_EMAIL/FCM_PRIVATE_KEY');
+
+  return { ios, android };
+}
@@ -0,0 +1,166 @@
+// workers/api-worker/src/services/search.service.ts
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { Env } from '../types';
+import { buildFtsQuery } from '../utils/search';
+import { hiddenUsersFilter } from './block.service';
+import { FlicksService } from './flicks.service';
+import { ClanService } from './clan.service';
+
+export const SEARCH_TYPES = ['users', 'posts', 'flicks', 'clans'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export interface SearchSection<T = any> {
+  items: T[];
+  hasMore: boolean;
+}
+
+export type SearchResults = Partial<Record<SearchType, SearchSection>>;
+
+export class SearchService {
+  constructor(
+    private db: D1Database,
+    private flicks: FlicksService,
+    private clans: ClanService
+  ) {}
+
+  // One section per requested type; every section is paginated with the
+  // same page/limit so a client can "load more" across all of them
+  async search(
+    query: string,
+    viewerId: string,
+    options: { types?: SearchType[]; page?: number; limit?: number } = {}
+  ): Promise<SearchResults> {
+    const types = options.types && options.types.length > 0 ? options.types : [...SEARCH_TYPES];
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+
+    const sections = await Promise.all(types.map(async (type): Promise<[SearchType, SearchSection]> => {
+      switch (type) {
+        case 'users': {
+          const result = await this.searchUsers(query, viewerId, page, limit);
+          return [type, { items: result.users, hasMore: result.hasMore }];
+        }
+        case 'posts': {
+          const result = await this.searchPosts(query, viewerId, page, limit);
+          return [type, { items: result.posts, hasMore: result.hasMore }];
+        }
+        case 'flicks': {
+          const result = await this.flicks.searchFlicks(query, viewerId, page, limit);
+          return [type, { items: result.flicks, hasMore: result.hasMore }];
+        }
+        case 'clans': {
+          const result = await this.clans.searchClans(query, page, limit);
+          return [type, { items: result.clans, hasMore: result.hasMore }];
+        }
+      }
+    }));
+
+    return Object.fromEntries(sections);
+  }
+
+  // Username matches outrank bio matches. Blocked users (either direction)
+  // don't show up; muted ones still do
+  async searchUsers(query: string, viewerId: string | undefined, page: number, limit: number) {
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) return { users: [], hasMore: false };
+
+    const offset = (page - 1) * limit;
+    const hiddenFilter = viewerId ? hiddenUsersFilter('u.id', viewerId, { includeMuted: false }) : null;
+
+    const result = await this.db.prepare(`
+      SELECT
+        u.id, u.username, u.profile_image, u.bio,
+        u.followers_count, u.is_verified
+      FROM users_fts
+      JOIN users u ON u.id = users_fts.user_id
+      WHERE users_fts MATCH ? AND u.is_active = 1
+        ${hiddenFilter ? `AND ${hiddenFilter.sql}` : ''}
+      ORDER BY
+        CASE WHEN u.username = ? COLLATE NOCASE THEN 0 ELSE 1 END,
+        bm25(users_fts, 0.0, 10.0, 1.0),
+        u.followers_count DESC
+      LIMIT ? OFFSET ?
+    `).bind(ftsQuery, ...(hiddenFilter?.params || []), query.trim(), limit + 1, offset).all();
+
+    return {
+      users: result.results.slice(0, limit),
+      hasMore: result.results.length > limit
+    };
+  }
+
+  // Only posts the viewer is allowed to open: public ones, followers-only
+  // posts of people they follow, clan posts of clans they belong to, and
+  // their own
+  async searchPosts(query: string, viewerId: string, page: number, limit: number) {
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) return { posts: [], hasMore: false };
+
+    const offset = (page - 1) * limit;
+    const hiddenFilter = hiddenUsersFilter('p.user_id', viewerId);
+
+    const result = await this.db.prepare(`
+      SELECT
+        p.*,
+        u.username,
+        u.profile_image as user_profile_image,
+        u.is_verified,
+        EXISTS(SELECT 1 FROM post_likes WHERE post_id = p.id AND user_id = ?) as is_liked,
+        EXISTS(SELECT 1 FROM post_bookmarks WHERE post_id = p.id AND user_id = ?) as is_bookmarked
+      FROM posts_fts
+      JOIN posts p ON p.id = posts_fts.post_id
+      LEFT JOIN users u ON p.user_id = u.id
+      WHERE posts_fts MATCH ? AND p.status = 'active'
+        AND (
+          p.user_id = ?
+          OR p.visibility = 'public'
+          OR (p.visibility = 'followers' AND EXISTS(
+            SELECT 1 FROM follows WHERE follower_id = ? AND following_id = p.user_id
+          ))
+          OR (p.visibility = 'clan' AND EXISTS(
+            SELECT 1 FROM clan_members WHERE clan_id = p.clan_id AND user_id = ?
+          ))
+        )
+        AND ${hiddenFilter.sql}
+      ORDER BY bm25(posts_fts), p.likes_count DESC
+      LIMIT ? OFFSET ?
+    `).bind(
+      viewerId,
+      viewerId,
+      ftsQuery,
+      viewerId,
+      viewerId,
+      viewerId,
+      ...hiddenFilter.params,
+      limit + 1,
+      offset
+    ).all();
+
+    const posts = result.results.slice(0, limit).map((post: any) => {
+      if (post.media_urls && typeof post.media_urls === 'string') {
+        try {
+          post.media_urls = JSON.parse(post.media_urls);
+        } catch {
+          post.media_urls = null;
+        }
+      }
+      return post;
+    });
+
+    return { posts, hasMore: result.results.length > limit };
+  }
+}
+
+export function createSearchService(env: Env): SearchService {
+  return new SearchService(
+    env.DB,
+    new FlicksService(
+      env.DB,
+      env.CACHE,
+      env.CLOUDFLARE_ACCOUNT_ID,
+      env.CLOUDFLARE_API_TOKEN,
+      env.CLOUDFLARE_STREAM_CUSTOMER_CODE
+    ),
+    new ClanService(env.DB, env.CACHE)
+  );
+}
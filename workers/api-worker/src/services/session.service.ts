@@ -0,0 +1,302 @@
+// workers/api-worker/src/services/session.service.ts
+
+import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+import type { Env } from '../types';
+import { AuthTokenService, MAX_TOKEN_LIFETIME_SECONDS } from './authToken.service';
+import { createSupabaseAuthClient, type SupabaseAuthClient } from './supabaseAuth.service';
+
+// What a request tells us about the client it came from
+export interface SessionClientInfo {
+  deviceId?: string;
+  platform?: string;
+  appVersion?: string;
+  userAgent?: string;
+  ipCountry?: string;
+  ipRegion?: string;
+}
+
+export interface UserSession {
+  id: string;
+  current: boolean;
+  platform?: string;
+  appVersion?: string;
+  deviceModel?: string;
+  ipCountry?: string;
+  ipRegion?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  lastRefreshedAt?: string;
+}
+
+// last_seen_at is only written this often per session and isolate, so
+// authenticated requests don't each cost a D1 write
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_TRACKED_SESSIONS = 1000;
+
+const lastTouched = new Map<string, number>();
+
+// How long authMiddleware trusts a cached "not revoked". Revocations
+// overwrite the entry, so this only bounds how long it sits in KV
+const SESSION_STATUS_TTL = 10 * 60;
+
+// Where users are signed in. Sessions are Supabase auth sessions (the
+// access token's session_id); revoking one rejects its access tokens in
+// authMiddleware, refuses its refresh in /api/auth/refresh and revokes its
+// refresh token in Supabase
+export class SessionService {
+  private tokens: AuthTokenService;
+
+  constructor(
+    private db: D1Database,
+    private cache: KVNamespace,
+    private supabase?: SupabaseAuthClient
+  ) {
+    this.tokens = new AuthTokenService(cache);
+  }
+
+  // Records a request on the session. Throttled, see TOUCH_INTERVAL_MS
+  async touch(userId: string, sessionId: string, client: SessionClientInfo): Promise<void> {
+    const now = Date.now();
+    if (now - (lastTouched.get(sessionId) || 0) < TOUCH_INTERVAL_MS) {
+      return;
+    }
+
+    if (lastTouched.size >= MAX_TRACKED_SESSIONS) {
+      lastTouched.clear();
+    }
+    lastTouched.set(sessionId, now);
+
+    await this.upsert(userId, sessionId, client, false);
+  }
+
+  // Records a token refresh. False means the session was revoked and must
+  // not get new tokens
+  async recordRefresh(userId: string, sessionId: string, client: SessionClientInfo): Promise<boolean> {
+    const session = await this.db.prepare(`
+      SELECT revoked_at FROM sessions WHERE id = ?
+    `).bind(sessionId).first();
+
+    if (session?.revoked_at) {
+      return false;
+    }
+
+    await this.upsert(userId, sessionId, client, true);
+    return true;
+  }
+
+  // Whether sessions.revoked_at is set, cached in KV. A revoked session is
+  // cached as long as an access token lives; after that a token refreshed
+  // in Supabase directly is caught by D1 again
+  async isRevoked(sessionId: string): Promise<boolean> {
+    const cached = await this.cache.get(this.statusKey(sessionId));
+    if (cached) {
+      return cached === 'revoked';
+    }
+
+    const session = await this.db.prepare(`
+      SELECT revoked_at FROM sessions WHERE id = ?
+    `).bind(sessionId).first();
+
+    if (session?.revoked_at) {
+      await this.markRevoked(sessionId);
+      return true;
+    }
+
+    await this.cache.put(this.statusKey(sessionId), 'active', { expirationTtl: SESSION_STATUS_TTL });
+    return false;
+  }
+
+  // Active sessions, most recently used first, with device details from
+  // device_tokens where the app sent its device id
+  async list(userId: string, currentSessionId?: string): Promise<UserSession[]> {
+    const sessions = await this.db.prepare(`
+      SELECT
+        s.*,
+        dt.device_model,
+        dt.platform as device_platform,
+        dt.app_version as device_app_version
+      FROM sessions s
+      LEFT JOIN device_tokens dt ON dt.id = (
+        SELECT id FROM device_tokens
+        WHERE user_id = s.user_id AND device_id = s.device_id AND is_active = 1
+        ORDER BY last_used_at DESC
+        LIMIT 1
+      )
+      WHERE s.user_id = ? AND s.revoked_at IS NULL
+      ORDER BY s.last_seen_at DESC
+    `).bind(userId).all();
+
+    return sessions.results.map((session: any) => ({
+      id: session.id,
+      current: session.id === currentSessionId,
+      platform: session.platform || session.device_platform || undefined,
+      appVersion: session.app_version || session.device_app_version || undefined,
+      deviceModel: session.device_model || undefined,
+      ipCountry: session.ip_country || undefined,
+      ipRegion: session.ip_region || undefined,
+      createdAt: session.created_at,
+      lastSeenAt: session.last_seen_at,
+      lastRefreshedAt: session.last_refreshed_at || undefined
+    }));
+  }
+
+  // `accessToken` is the session's own token when the device signs itself
+  // out; without it the Supabase session is revoked on the user's behalf
+  async revoke(userId: string, sessionId: string, accessToken?: string): Promise<void> {
+    const result = await this.db.prepare(`
+      UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND user_id = ? AND revoked_at IS NULL
+    `).bind(sessionId, userId).run();
+
+    if (result.meta.changes === 0) {
+      throw new Error('Session not found');
+    }
+
+    await this.markRevoked(sessionId);
+
+    if (accessToken) {
+      await this.signOutFromSupabase(accessToken, 'local');
+    } else {
+      await this.signOutUserFromSupabase(userId, 'local', sessionId);
+    }
+  }
+
+  // Every session but the given one, e.g. after a password reset. The
+  // caller revokes them in Supabase with its own token ('others')
+  async revokeOthers(userId: string, keepSessionId: string): Promise<void> {
+    const sessions = await this.db.prepare(`
+      SELECT id FROM sessions
+      WHERE user_id = ? AND id != ? AND revoked_at IS NULL
+    `).bind(userId, keepSessionId).all();
+
+    if (sessions.results.length === 0) return;
+
+    await this.db.prepare(`
+      UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND id != ? AND revoked_at IS NULL
+    `).bind(userId, keepSessionId).run();
+
+    for (const session of sessions.results) {
+      await this.markRevoked(session.id as string);
+    }
+  }
+
+  // Log out everywhere, including every refresh token in Supabase. Without
+  // the user's access token (admin revocation, deactivation) that's done on
+  // their behalf
+  async revokeAll(userId: string, accessToken?: string): Promise<void> {
+    const sessions = await this.db.prepare(`
+      SELECT id FROM sessions WHERE user_id = ? AND revoked_at IS NULL
+    `).bind(userId).all();
+
+    await this.db.prepare(`
+      UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND revoked_at IS NULL
+    `).bind(userId).run();
+
+    await this.tokens.revokeAllForUser(userId);
+    for (const session of sessions.results) {
+      await this.markRevoked(session.id as string);
+    }
+
+    if (accessToken) {
+      await this.signOutFromSupabase(accessToken, 'global');
+    } else {
+      await this.signOutUserFromSupabase(userId, 'global');
+    }
+  }
+
+  // Revokes the refresh tokens of the session the access token belongs
+  // to ('local'), of all the user's sessions ('global') or of all but that
+  // one ('others'). Best effort: our own revocation already stands
+  async signOutFromSupabase(accessToken: string, scope: 'local' | 'global' | 'others'): Promise<void> {
+    if (!this.supabase) {
+      return;
+    }
+
+    try {
+      await this.supabase.signOut(accessToken, scope);
+    } catch (error) {
+      console.error('Supabase logout error:', error);
+    }
+  }
+
+  // signOutFromSupabase() without an access token of the user. Best effort
+  // as well; needs the Supabase JWT secret
+  private async signOutUserFromSupabase(userId: string, scope: 'local' | 'global', sessionId?: string): Promise<void> {
+    if (!this.supabase) {
+      return;
+    }
+
+    try {
+      const user = await this.db.prepare(`
+        SELECT auth_provider_id FROM users WHERE id = ?
+      `).bind(userId).first();
+
+      if (user?.auth_provider_id) {
+        await this.supabase.signOutUser(user.auth_provider_id as string, scope, sessionId);
+      }
+    } catch (error) {
+      console.error('Supabase logout error:', error);
+    }
+  }
+
+  private async markRevoked(sessionId: string): Promise<void> {
+    await this.cache.put(this.statusKey(sessionId), 'revoked', { expirationTtl: MAX_TOKEN_LIFETIME_SECONDS });
+  }
+
+  private statusKey(sessionId: string): string {
+    return `auth:session:${sessionId}`;
+  }
+
+  // Revoked sessions are left alone, so a late request can't revive one
+  private async upsert(userId: string, sessionId: string, client: SessionClientInfo, refreshed: boolean): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO sessions (
+        id, user_id, device_id, platform, app_version, user_agent,
+        ip_country, ip_region, created_at, last_seen_at, last_refreshed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP,
+        CASE WHEN ? THEN CURRENT_TIMESTAMP END)
+      ON CONFLICT (id) DO UPDATE SET
+        device_id = COALESCE(excluded.device_id, sessions.device_id),
+        platform = COALESCE(excluded.platform, sessions.platform),
+        app_version = COALESCE(excluded.app_version, sessions.app_version),
+        user_agent = COALESCE(excluded.user_agent, sessions.user_agent),
+        ip_country = COALESCE(excluded.ip_country, sessions.ip_country),
+        ip_region = COALESCE(excluded.ip_region, sessions.ip_region),
+        last_seen_at = CURRENT_TIMESTAMP,
+        last_refreshed_at = COALESCE(excluded.last_refreshed_at, sessions.last_refreshed_at)
+      WHERE sessions.revoked_at IS NULL AND sessions.user_id = excluded.user_id
+    `).bind(
+      sessionId,
+      userId,
+      client.deviceId || null,
+      client.platform || null,
+      client.appVersion || null,
+      client.userAgent || null,
+      client.ipCountry || null,
+      client.ipRegion || null,
+      refreshed ? 1 : 0
+    ).run();
+  }
+}
+
+export function createSessionService(env: Env): SessionService {
+  return new SessionService(env.DB, env.CACHE, createSupabaseAuthClient(env));
+}
+
+// Client details from the request headers. The app sends X-Platform,
+// X-App-Version and X-Device-Id (the device_id it registers with
+// /api/payments/device/register)
+export function sessionClientInfo(request: Request): SessionClientInfo {
+  const cf = (request as Request & { cf?: { country?: string; region?: string } }).cf;
+
+  return {
+    deviceId: request.headers.get('X-Device-Id') || undefined,
+    platform: request.headers.get('X-Platform') || undefined,
+    appVersion: request.headers.get('X-App-Version') || undefined,
+    userAgent: request.headers.get('User-Agent')?.slice(0, 255) || undefined,
+    ipCountry: cf?.country,
+    ipRegion: cf?.region
+  };
+}
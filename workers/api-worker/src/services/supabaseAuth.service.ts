@@ -0,0 +1,282 @@
+// workers/api-worker/src/services/supabaseAuth.service.ts
+
+import jwt from '@tsndr/cloudflare-worker-jwt';
+import type { Env } from '../types';
+
+// A Supabase auth session as returned by the token, signup and verify
+// endpoints
+export interface SupabaseSession {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  expires_at?: number;
+  token_type: string;
+  user: SupabaseUser;
+}
+
+export interface SupabaseUser {
+  id: string;
+  email?: string;
+  email_confirmed_at?: string;
+  user_metadata?: Record<string, any>;
+  identities?: SupabaseIdentity[];
+}
+
+// A provider account attached to a Supabase user; `id` is the provider's sub
+export interface SupabaseIdentity {
+  id: string;
+  provider: string;
+  identity_data?: Record<string, any>;
+}
+
+export type SocialProvider = 'google' | 'apple';
+
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'USER_NOT_FOUND'
+  | 'EMAIL_NOT_CONFIRMED'
+  | 'EMAIL_TAKEN'
+  | 'IDENTITY_TAKEN'
+  | 'WEAK_PASSWORD'
+  | 'SAME_PASSWORD'
+  | 'INVALID_REFRESH_TOKEN'
+  | 'LINK_EXPIRED'
+  | 'INVALID_INPUT'
+  | 'RATE_LIMITED'
+  | 'AUTH_PROVIDER_ERROR'
+  | 'AUTH_FAILED';
+
+// Supabase errors translated to our codes, so every auth route answers a
+// given failure the same way
+export class SupabaseAuthError extends Error {
+  constructor(
+    message: string,
+    public code: AuthErrorCode,
+    public status: 400 | 401 | 403 | 404 | 409 | 429 | 502
+  ) {
+    super(message);
+    this.name = 'SupabaseAuthError';
+  }
+}
+
+// Supabase error_code -> our code and status
+const ERROR_CODES: Record<string, [AuthErrorCode, SupabaseAuthError['status']]> = {
+  invalid_credentials: ['INVALID_CREDENTIALS', 401],
+  invalid_grant: ['INVALID_CREDENTIALS', 401],
+  user_not_found: ['USER_NOT_FOUND', 404],
+  // What /otp answers for an unknown email when create_user is off
+  otp_disabled: ['USER_NOT_FOUND', 404],
+  email_not_confirmed: ['EMAIL_NOT_CONFIRMED', 403],
+  user_already_exists: ['EMAIL_TAKEN', 409],
+  email_exists: ['EMAIL_TAKEN', 409],
+  identity_already_exists: ['IDENTITY_TAKEN', 409],
+  weak_password: ['WEAK_PASSWORD', 400],
+  same_password: ['SAME_PASSWORD', 400],
+  refresh_token_not_found: ['INVALID_REFRESH_TOKEN', 401],
+  refresh_token_already_used: ['INVALID_REFRESH_TOKEN', 401],
+  session_not_found: ['INVALID_REFRESH_TOKEN', 401],
+  session_expired: ['INVALID_REFRESH_TOKEN', 401],
+  otp_expired: ['LINK_EXPIRED', 401],
+  flow_state_expired: ['LINK_EXPIRED', 401],
+  bad_jwt: ['LINK_EXPIRED', 401],
+  validation_failed: ['INVALID_INPUT', 400],
+  email_address_invalid: ['INVALID_INPUT', 400],
+  over_email_send_rate_limit: ['RATE_LIMITED', 429],
+  over_request_rate_limit: ['RATE_LIMITED', 429]
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Lifetime of the tokens signOutUser() signs for itself
+const SIGN_OUT_TOKEN_TTL_SECONDS = 60;
+
+// The one place that talks to Supabase auth (GoTrue) over HTTP
+export class SupabaseAuthClient {
+  constructor(
+    private options: { url: string; anonKey: string; serviceKey?: string; jwtSecret?: string }
+  ) {}
+
+  async signUp(email: string, password: string, metadata?: Record<string, any>): Promise<SupabaseSession | SupabaseUser> {
+    return this.request('/signup', { body: { email, password, data: metadata } });
+  }
+
+  async signInWithPassword(email: string, password: string): Promise<SupabaseSession> {
+    return this.request('/token?grant_type=password', { body: { email, password } });
+  }
+
+  async refreshSession(refreshToken: string): Promise<SupabaseSession> {
+    try {
+      return await this.request('/token?grant_type=refresh_token', { body: { refresh_token: refreshToken } });
+    } catch (error) {
+      // Older GoTrue versions answer a bad refresh token with invalid_grant
+      if (error instanceof SupabaseAuthError && error.code === 'INVALID_CREDENTIALS') {
+        throw new SupabaseAuthError(error.message, 'INVALID_REFRESH_TOKEN', 401);
+      }
+      throw error;
+    }
+  }
+
+  // Signs in with an id_token from native Google/Apple sign-in. `nonce`
+  // is the raw nonce whose hash the app put in the sign-in request
+  async signInWithIdToken(provider: SocialProvider, idToken: string, nonce?: string): Promise<SupabaseSession> {
+    return this.request('/token?grant_type=id_token', { body: { provider, id_token: idToken, nonce } });
+  }
+
+  // Adds the provider identity to the signed-in user instead of signing
+  // in as whoever owns it. Needs manual linking enabled in Supabase
+  async linkIdentityWithIdToken(
+    accessToken: string,
+    provider: SocialProvider,
+    idToken: string,
+    nonce?: string
+  ): Promise<SupabaseSession> {
+    return this.request('/token?grant_type=id_token', {
+      accessToken,
+      body: { provider, id_token: idToken, nonce, link_identity: true }
+    });
+  }
+
+  // Revokes refresh tokens: the access token's session ('local'), every
+  // session of the user ('global') or all but this one ('others')
+  async signOut(accessToken: string, scope: 'local' | 'global' | 'others'): Promise<void> {
+    await this.request(`/logout?scope=${scope}`, { accessToken });
+  }
+
+  // signOut() for a revocation started without the user's access token
+  // (from another device, by an admin). GoTrue's /logout only takes a user
+  // token, so a short-lived one is signed with the project's JWT secret.
+  // 'local' needs the session id
+  async signOutUser(userId: string, scope: 'local' | 'global', sessionId?: string): Promise<void> {
+    if (!this.options.jwtSecret) {
+      throw new Error('Supabase JWT secret is not configured');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const token = await jwt.sign({
+      sub: userId,
+      role: 'authenticated',
+      aud: 'authenticated',
+      iss: `${this.options.url}/auth/v1`,
+      session_id: sessionId,
+      iat: now,
+      exp: now + SIGN_OUT_TOKEN_TTL_SECONDS
+    }, this.options.jwtSecret);
+
+    await this.signOut(token, scope);
+  }
+
+  // Sends the password reset email. Supabase answers the same whether or
+  // not the address has an account
+  async recover(email: string, redirectTo?: string): Promise<void> {
+    await this.request(`/recover${this.redirectQuery(redirectTo)}`, { body: { email } });
+  }
+
+  async resendVerification(email: string, type: 'signup' | 'email_change'): Promise<void> {
+    await this.request('/resend', { body: { email, type } });
+  }
+
+  // Existing users only; new accounts go through /signup for a username
+  async sendMagicLink(email: string, redirectTo?: string): Promise<void> {
+    await this.request(`/otp${this.redirectQuery(redirectTo)}`, { body: { email, create_user: false } });
+  }
+
+  // Exchanges the token_hash from an email link for a session
+  async verifyOtp(tokenHash: string, type: 'recovery' | 'magiclink' | 'signup' | 'email_change'): Promise<SupabaseSession> {
+    return this.request('/verify', { body: { token_hash: tokenHash, type } });
+  }
+
+  async updatePassword(accessToken: string, password: string): Promise<SupabaseUser> {
+    return this.request('/user', { method: 'PUT', accessToken, body: { password } });
+  }
+
+  async updateUserMetadata(accessToken: string, data: Record<string, any>): Promise<SupabaseUser> {
+    return this.request('/user', { method: 'PUT', accessToken, body: { data } });
+  }
+
+  // Admin API, needs the service key
+  async listUsers(page: number, perPage: number): Promise<SupabaseUser[]> {
+    if (!this.options.serviceKey) {
+      throw new Error('Supabase service key is not configured');
+    }
+
+    const result = await this.request<{ users?: SupabaseUser[] }>(
+      `/admin/users?page=${page}&per_page=${perPage}`,
+      { method: 'GET', accessToken: this.options.serviceKey, apiKey: this.options.serviceKey }
+    );
+    return result.users || [];
+  }
+
+  private redirectQuery(redirectTo?: string): string {
+    return redirectTo ? `?redirect_to=${encodeURIComponent(redirectTo)}` : '';
+  }
+
+  private async request<T = any>(
+    path: string,
+    options: { method?: string; body?: unknown; accessToken?: string; apiKey?: string } = {}
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'apikey': options.apiKey || this.options.anonKey
+    };
+    if (options.accessToken) {
+      headers['Authorization'] = `Bearer ${options.accessToken}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.url}/auth/v1${path}`, {
+        method: options.method || 'POST',
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+    } catch (error) {
+      console.error('Supabase auth request failed:', path.split('?')[0], error);
+      throw new SupabaseAuthError('Authentication service unavailable', 'AUTH_PROVIDER_ERROR', 502);
+    }
+
+    const text = await response.text();
+    let data: any = {};
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      data = { message: text };
+    }
+
+    if (!response.ok) {
+      throw this.toError(response.status, data);
+    }
+
+    return data as T;
+  }
+
+  private toError(status: number, data: any): SupabaseAuthError {
+    const supabaseCode: string | undefined = data.error_code || data.error;
+    const message: string = data.msg || data.error_description || data.message || 'Authentication failed';
+
+    const mapped = supabaseCode ? ERROR_CODES[supabaseCode] : undefined;
+    if (mapped) {
+      return new SupabaseAuthError(message, mapped[0], mapped[1]);
+    }
+
+    if (status === 429) {
+      return new SupabaseAuthError(message, 'RATE_LIMITED', 429);
+    }
+
+    if (status >= 500) {
+      console.error('Supabase auth error:', status, data);
+      return new SupabaseAuthError('Authentication service error', 'AUTH_PROVIDER_ERROR', 502);
+    }
+
+    return new SupabaseAuthError(message, 'AUTH_FAILED', status === 401 ? 401 : 400);
+  }
+}
+
+export function createSupabaseAuthClient(env: Env): SupabaseAuthClient {
+  return new SupabaseAuthClient({
+    url: env.SUPABASE_URL,
+    anonKey: env.SUPABASE_ANON_KEY,
+    serviceKey: env.SUPABASE_SERVICE_KEY,
+    jwtSecret: env.SUPABASE_JWT_SECRET
+  });
+}
@@ -29,17 +29,45 @@ export interface Env {
   SUPABASE_URL: string;
   SUPABASE_ANON_KEY: string;
   SUPABASE_SERVICE_KEY: string;
+  // Legacy HS256 signing secret (secret). Unset means only tokens signed
+  // with a key from the project's JWKS are accepted, and sessions revoked
+  // by an admin or from another device are only refused by us, not in Supabase
+  SUPABASE_JWT_SECRET?: string;
 
   ADMOB_NATIVE_AD_UNIT_IOS: string;
   ADMOB_NATIVE_AD_UNIT_ANDROID: string;
   AD_ENABLED: string;
   AD_DEFAULT_FREQUENCY: string;
+
+  // Hours before a watched flick can show up in the smart feed again
+  SMART_FEED_RESHOW_HOURS?: string;
+
+  // Push notifications (secrets; a provider left unset is disabled, PUSH_TRANSPORT=fake
+  // swaps in an in-memory transport for local dev)
+  PUSH_TRANSPORT?: string;
+  APNS_KEY_ID?: string;
+  APNS_TEAM_ID?: string;
+  APNS_PRIVATE_KEY?: string;
+  APNS_BUNDLE_ID?: string;
+  APNS_USE_SANDBOX?: string;
+  FCM_PROJECT_ID?: string;
+  FCM_CLIENT_EMAIL?: string;
+  FCM_PRIVATE_KEY?: string;
+
+  // Optional external text classifier for the content filter (secrets)
+  CONTENT_CLASSIFIER_URL?: string;
+  CONTENT_CLASSIFIER_TOKEN?: string;
 }
 
+// Platform-wide staff roles (users.role); unrelated to clan roles
+export const PLATFORM_ROLES = ['user', 'moderator', 'support', 'admin'] as const;
+export type PlatformRole = typeof PLATFORM_ROLES[number];
+
 export interface AuthUser {
   id: string;
   email: string;
   username: string;
+  role: PlatformRole;
 }
 
 // Add is_liked to Post interface in workers/api-worker/src/types.ts
@@ -58,6 +86,17 @@ export interface Post {
   created_at: string;
   updated_at: string;
   is_liked?: boolean;  // Add this field
+  is_pinned?: boolean;
+  comments_locked?: boolean;
+  mentions?: MentionEntity[];
+}
+
+export interface MentionEntity {
+  userId: string;
+  username: string;
+  field: string; // which text field the mention is in (content, title, description)
+  start: number;
+  end: number;
 }
 
 export interface Flick {
@@ -80,6 +119,7 @@ export interface Flick {
   size: number;
   created_at: string;
   updated_at: string;
+  mentions?: MentionEntity[];
 }
 
 export interface FlickAnalytics {
@@ -196,9 +236,10 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   pagination?: {
-    page: number;
+    page?: number;
     limit: number;
-    total: number;
+    total?: number;
     hasMore: boolean;
+    nextCursor?: string | null; // cursor-paginated lists: pass back as ?cursor=
   };
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+// workers/api-worker/src/utils/contentFilter.ts
+
+// Characters commonly swapped in for letters to dodge word filters
+const LEET_MAP: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+  '|': 'i',
+  '+': 't'
+};
+
+// Lowercase, accents stripped and leetspeak undone: "Ch3@p Ñ1ke" -> "cheap nike"
+export function normalizeText(input: string): string {
+  return input
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[0-9@$!|+]/g, ch => LEET_MAP[ch] ?? ch);
+}
+
+// Words of the normalized text. Runs of three or more single letters are
+// also joined back up, so "f.r.e.e" and "f r e e" yield "free" as well
+export function tokenize(input: string): string[] {
+  const words = normalizeText(input).split(/[^\p{L}]+/u).filter(Boolean);
+  const tokens = [...words];
+
+  let run: string[] = [];
+  for (const word of [...words, '']) {
+    if (word.length === 1) {
+      run.push(word);
+      continue;
+    }
+    if (run.length >= 3) {
+      tokens.push(run.join(''));
+    }
+    run = [];
+  }
+
+  return tokens;
+}
+
+// "freeeee" -> "fre". Only used when the text itself stretches a word, so
+// "as" never matches a term like "ass"
+const squeeze = (word: string) => word.replace(/(.)\1+/g, '$1');
+
+// First term found in the text, whole words only (terms may be phrases)
+export function findTerm(input: string, terms: string[]): string | null {
+  if (terms.length === 0) return null;
+
+  const tokens = tokenize(input);
+  const phrase = ` ${tokens.join(' ')} `;
+
+  for (const term of terms) {
+    const termTokens = tokenize(term);
+    if (termTokens.length === 0) continue;
+
+    if (termTokens.length > 1) {
+      if (phrase.includes(` ${termTokens.join(' ')} `)) return term;
+      continue;
+    }
+
+    const [word] = termTokens;
+    const matched = tokens.some(token =>
+      token === word || (token !== squeeze(token) && squeeze(token) === squeeze(word))
+    );
+    if (matched) return term;
+  }
+
+  return null;
+}
+
+// Links in the text, lowercased and without a trailing slash so the same
+// link written twice compares equal
+export function extractLinks(input: string): string[] {
+  const links = input.match(/\bhttps?:\/\/[^\s<>"')]+|\bwww\.[^\s<>"')]+/gi) || [];
+  return links.map(link => link.toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, ''));
+}
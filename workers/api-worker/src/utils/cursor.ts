@@ -0,0 +1,33 @@
+// workers/api-worker/src/utils/cursor.ts
+
+// Opaque pagination cursors: base64url-encoded JSON so clients can't
+// depend on the shape of what's inside.
+
+export function encodeCursor(data: Record<string, unknown>): string {
+  const json = JSON.stringify(data);
+  const bytes = new TextEncoder().encode(json);
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeCursor<T = Record<string, unknown>>(cursor: string | undefined | null): T | null {
+  if (!cursor) return null;
+
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const binary = atob(padded);
+    const bytes = Uint8Array.from(binary, ch => ch.charCodeAt(0));
+    const data = JSON.parse(new TextDecoder().decode(bytes));
+    return data && typeof data === 'object' ? data as T : null;
+  } catch {
+    // Malformed cursor - treat as "start from the beginning"
+    return null;
+  }
+}
@@ -0,0 +1,80 @@
+// workers/api-worker/src/utils/feedCursor.ts
+
+import { encodeCursor, decodeCursor } from './cursor';
+
+// Position in a feed. `anchor` is when the first page was served: items
+// created after it are left out and recency is measured from it, so the
+// recency part of a score doesn't shift while the user scrolls. Engagement
+// counts are read live, so in ranked feeds an item whose likes or views
+// change between pages can move across the cursor and be repeated or skipped.
+// `score` is only set for ranked feeds, `seed` only for the smart flick feed.
+// `fallback` marks a smart feed that ran out of unseen flicks and carries
+// on as the chronological feed
+export interface FeedCursor {
+  anchor: string;
+  createdAt: string;
+  id: string;
+  score?: number;
+  seed?: number;
+  fallback?: boolean;
+}
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return encodeCursor({ ...cursor });
+}
+
+export function decodeFeedCursor(cursor: string | undefined | null): FeedCursor | null {
+  const data = decodeCursor<FeedCursor>(cursor);
+  if (!data) return null;
+
+  if (
+    typeof data.anchor !== 'string' || isNaN(Date.parse(data.anchor)) ||
+    typeof data.createdAt !== 'string' ||
+    typeof data.id !== 'string' ||
+    (data.score !== undefined && typeof data.score !== 'number') ||
+    (data.seed !== undefined && typeof data.seed !== 'number') ||
+    (data.fallback !== undefined && typeof data.fallback !== 'boolean')
+  ) {
+    return null;
+  }
+
+  return data;
+}
+
+// CASE expression giving `boost` to rows newer than `hours` before the
+// anchor, first matching tier wins. Returns the SQL and its bind params
+export function recencyBoost(
+  column: string,
+  anchor: string,
+  tiers: Array<[hours: number, boost: number]>,
+  fallback: number = 0
+): { sql: string; params: (string | number)[] } {
+  const anchorMs = Date.parse(anchor);
+
+  return {
+    sql: `CASE ${tiers.map(() => `WHEN ${column} > ? THEN ?`).join(' ')} ELSE ${fallback} END`,
+    params: tiers.flatMap(([hours, boost]) => [
+      new Date(anchorMs - hours * 60 * 60 * 1000).toISOString(),
+      boost
+    ])
+  };
+}
+
+// Keyset condition for rows after the cursor in
+// `ORDER BY <score> DESC, created_at DESC, id DESC` order (score optional)
+export function afterCursor(
+  cursor: FeedCursor,
+  columns: { score?: string; createdAt: string; id: string }
+): { sql: string; params: (string | number)[] } {
+  const chronological = `(${columns.createdAt} < ? OR (${columns.createdAt} = ? AND ${columns.id} < ?))`;
+  const chronologicalParams = [cursor.createdAt, cursor.createdAt, cursor.id];
+
+  if (!columns.score || cursor.score === undefined) {
+    return { sql: chronological, params: chronologicalParams };
+  }
+
+  return {
+    sql: `(${columns.score} < ? OR (${columns.score} = ? AND ${chronological}))`,
+    params: [cursor.score, cursor.score, ...chronologicalParams]
+  };
+}
@@ -0,0 +1,35 @@
+// workers/api-worker/src/utils/hashtags.ts
+
+// #tag preceded by start-of-text or a non-word character, so URL fragments
+// (example.com/#top) and HTML entities (&#39;) don't match
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_]+)/gu;
+
+const MAX_HASHTAG_LENGTH = 100;
+
+// Canonical form used as the index key: no leading '#', lowercase, and
+// trailing punctuation dropped ("#Naruto!" -> "naruto"). `display` keeps
+// the original casing
+export function parseHashtag(tag: string): { tag: string; display: string } | null {
+  const match = /^#*([\p{L}\p{N}_]+)/u.exec(tag.trim());
+  if (!match || match[1].length > MAX_HASHTAG_LENGTH) return null;
+  return { tag: match[1].toLowerCase(), display: match[1] };
+}
+
+export function normalizeHashtag(tag: string): string | null {
+  return parseHashtag(tag)?.tag ?? null;
+}
+
+// Hashtags written inline in free text (post bodies), in order of first use
+export function extractHashtags(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  const tags: string[] = [];
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    if (match[2].length > MAX_HASHTAG_LENGTH) continue;
+    if (!tags.some(tag => tag.toLowerCase() === match[2].toLowerCase())) {
+      tags.push(match[2]);
+    }
+  }
+
+  return tags;
+}
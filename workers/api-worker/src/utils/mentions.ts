@@ -0,0 +1,29 @@
+// workers/api-worker/src/utils/mentions.ts
+
+export interface MentionToken {
+  username: string;
+  start: number; // index of the '@'
+  end: number;   // exclusive
+}
+
+// @username preceded by start-of-text or a non-word character, so emails
+// (bob@example.com) and double @@ don't match. Dots are allowed inside a
+// username (email-derived names) but not at the end ("thanks @bob.")
+const MENTION_PATTERN = /(^|[^A-Za-z0-9_@])@([A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*)/g;
+
+const MAX_USERNAME_LENGTH = 50;
+
+export function extractMentions(text: string | null | undefined): MentionToken[] {
+  if (!text) return [];
+
+  const tokens: MentionToken[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const username = match[2];
+    if (username.length > MAX_USERNAME_LENGTH) continue;
+
+    const start = (match.index ?? 0) + match[1].length;
+    tokens.push({ username, start, end: start + 1 + username.length });
+  }
+
+  return tokens;
+}
@@ -0,0 +1,13 @@
+// workers/api-worker/src/utils/response.ts
+
+import type { Context } from 'hono';
+
+// Answer for text the content filter rejected, the same for every kind of
+// content so the app can handle it in one place
+export function contentRejectedResponse(c: Context) {
+  return c.json({
+    success: false,
+    error: 'Content violates community guidelines',
+    code: 'CONTENT_REJECTED'
+  }, 400);
+}
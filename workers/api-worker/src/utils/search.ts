@@ -0,0 +1,19 @@
+// workers/api-worker/src/utils/search.ts
+
+const MAX_QUERY_TERMS = 8;
+
+// Turn free user input into a safe FTS5 MATCH expression. Every word is
+// quoted (so FTS operators like OR, NEAR, "-" or ":" are treated as text)
+// and the last one is a prefix match, for search-as-you-type.
+// "naruto sh" -> "naruto" "sh"*
+export function buildFtsQuery(input: string | null | undefined): string | null {
+  if (!input) return null;
+
+  const terms = input.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms || terms.length === 0) return null;
+
+  return terms
+    .slice(0, MAX_QUERY_TERMS)
+    .map((term, index, all) => `"${term}"${index === all.length - 1 ? '*' : ''}`)
+    .join(' ');
+}